@@ -1,7 +1,5 @@
 import { Routes, Route, Link, Navigate } from "react-router-dom";
-import { useState } from "react";
-import { FilterBar } from "./features/listings/components/FilterBar";
-import { FeaturedListings } from "./features/listings/components/FeaturedListings";
+import { HomePage } from "./features/listings/pages/HomePage";
 import { ListingsPage } from "./features/listings/pages/ListingsPage";
 import { ListingDetailsPage } from "./features/listings/pages/ListingDetailsPage";
 import { CreateListingPage } from "./features/listings/pages/CreateListingPage";
@@ -12,17 +10,21 @@ import { AccountPage } from "./features/account/pages/AccountPage";
 import { MyListingsPage } from "./features/account/pages/MyListingsPage";
 import { InboxPage } from "./features/messages/pages/InboxPage";
 import { MessageThreadPage } from "./features/messages/pages/MessageThreadPage";
+import { ComparePage } from "./features/compare/pages/ComparePage";
+import { CompareTray } from "./features/compare/components/CompareTray";
+import { MessagesNavLink } from "./features/messages/components/MessagesNavLink";
+import { SellerProfilePage } from "./features/sellers/pages/SellerProfilePage";
+import { LoginPage } from "./features/auth/pages/LoginPage";
+import { ResetPasswordPage } from "./features/auth/pages/ResetPasswordPage";
+import { RequireAuth } from "./features/auth/components/RequireAuth";
+import { AdminLayout } from "./features/admin/components/AdminLayout";
+import { AdminReportsPage } from "./features/admin/pages/AdminReportsPage";
+import { AdminListingsPage } from "./features/admin/pages/AdminListingsPage";
+import { AdminSellerPage } from "./features/admin/pages/AdminSellerPage";
+import { AdminAuditPage } from "./features/admin/pages/AdminAuditPage";
+import { AdminCatalogPage } from "./features/admin/pages/AdminCatalogPage";
 
 export default function App() {
-  const [filters, setFilters] = useState({
-    search: "",
-    make: "",
-    // Number.MAX_SAFE_INTEGER means "no max" (keeps behavior consistent with Browse page)
-    maxPrice: Number.MAX_SAFE_INTEGER,
-    zip: "",
-    radiusMiles: 0,
-  });
-
   return (
     <div className="min-h-screen bg-slate-950 text-slate-50">
       {/* z-40 keeps header above page content; account popover will be higher (z-50+) */}
@@ -40,34 +42,49 @@ export default function App() {
           >
             Browse
           </Link>
+          <MessagesNavLink />
           <AccountMenu />
         </div>
       </nav>
 
       <Routes>
-        <Route
-          path="/"
-          element={
-            <main>
-              <FilterBar filters={filters} setFilters={setFilters} />
-              <FeaturedListings filters={filters} />
-            </main>
-          }
-        />
+        <Route path="/" element={<HomePage />} />
         <Route path="/listings" element={<ListingsPage />} />
         <Route path="/listings/:id" element={<ListingDetailsPage />} />
-        <Route path="/sell" element={<CreateListingPage />} />
-        <Route path="/listings/:id/edit" element={<EditListingPage />} />
-        <Route path="/favorites" element={<FavoritesPage />} />
+        <Route path="/compare" element={<ComparePage />} />
+        <Route path="/sellers/:id" element={<SellerProfilePage />} />
+        <Route path="/login" element={<LoginPage />} />
+        <Route path="/login/reset" element={<ResetPasswordPage />} />
         <Route path="/inbox" element={<Navigate to="/messages" replace />} />
-        <Route path="/account" element={<AccountPage />} />
-        <Route path="/account/listings" element={<MyListingsPage />} />
-        <Route path="/messages" element={<InboxPage />} />
+        <Route element={<RequireAuth />}>
+          <Route path="/sell" element={<CreateListingPage />} />
+          <Route path="/listings/:id/edit" element={<EditListingPage />} />
+          <Route path="/favorites" element={<FavoritesPage />} />
+          <Route path="/account" element={<AccountPage />} />
+          <Route path="/account/listings" element={<MyListingsPage />} />
+          <Route path="/messages" element={<InboxPage />} />
+          <Route
+            path="/messages/:listingId/:buyerId"
+            element={<MessageThreadPage />}
+          />
+        </Route>
         <Route
-          path="/messages/:listingId/:buyerId"
-          element={<MessageThreadPage />}
-        />
+          path="/admin"
+          element={
+            <RequireAuth role="admin">
+              <AdminLayout />
+            </RequireAuth>
+          }
+        >
+          <Route index element={<AdminReportsPage />} />
+          <Route path="listings" element={<AdminListingsPage />} />
+          <Route path="sellers/:id" element={<AdminSellerPage />} />
+          <Route path="catalog" element={<AdminCatalogPage />} />
+          <Route path="audit" element={<AdminAuditPage />} />
+        </Route>
       </Routes>
+
+      <CompareTray />
     </div>
   );
 }
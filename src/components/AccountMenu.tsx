@@ -1,20 +1,20 @@
 import { useEffect, useRef, useState } from "react";
 import { Link, useNavigate } from "react-router-dom";
-import { useQuery, useQueryClient } from "@tanstack/react-query";
-import { supabase } from "../lib/supabase";
-import { fetchAuthUser } from "../lib/auth";
+import { signOut } from "../lib/auth";
+import { useAuth } from "../features/auth/authContext";
+import { useLoginPath } from "../features/auth/useLoginPath";
+import { useUnreadCounts } from "../features/messages/liveMessages";
+import { UnreadBadge } from "../features/messages/components/MessagesNavLink";
 
 export function AccountMenu() {
   const [open, setOpen] = useState(false);
   const ref = useRef<HTMLDivElement | null>(null);
   const navigate = useNavigate();
-  const qc = useQueryClient();
+  const loginTo = useLoginPath();
+  const { user, isAdmin } = useAuth();
 
-  const { data: user } = useQuery({
-    queryKey: ["auth-user"],
-    queryFn: fetchAuthUser,
-    staleTime: 1000 * 30,
-  });
+  const { data: unread } = useUnreadCounts(user?.id);
+  const unreadTotal = unread?.total ?? 0;
 
   useEffect(() => {
     const onDoc = (e: MouseEvent) => {
@@ -25,19 +25,9 @@ export function AccountMenu() {
     return () => document.removeEventListener("mousedown", onDoc);
   }, []);
 
-  const signInGithub = async () => {
-    // Redirect back to your site root after OAuth
-    await supabase.auth.signInWithOAuth({
-      provider: "github",
-      options: { redirectTo: window.location.origin },
-    });
-  };
-
-  const signOut = async () => {
-    await supabase.auth.signOut();
-    await qc.invalidateQueries({ queryKey: ["auth-user"] });
-    await qc.invalidateQueries({ queryKey: ["auth-user-id"] });
-    await qc.invalidateQueries({ queryKey: ["favorites"] });
+  const handleSignOut = async () => {
+    // AuthProvider clears this user's cached data on the auth event
+    await signOut();
     setOpen(false);
     navigate("/");
   };
@@ -48,13 +38,19 @@ export function AccountMenu() {
     <div className="relative" ref={ref}>
       <button
         type="button"
-        className="w-10 h-10 rounded-full border border-slate-800 bg-slate-900/40 hover:bg-slate-800 flex items-center justify-center"
+        className="relative w-10 h-10 rounded-full border border-slate-800 bg-slate-900/40 hover:bg-slate-800 flex items-center justify-center"
         onClick={() => setOpen((v) => !v)}
         aria-label="Account menu"
         title={user ? label : "Sign in"}
       >
         {/* simple user icon */}
         <span className="text-lg">👤</span>
+        {unreadTotal ? (
+          <span
+            className="absolute -top-0.5 -right-0.5 w-3 h-3 rounded-full bg-blue-500 border-2 border-slate-950"
+            aria-label={`${unreadTotal} unread messages`}
+          />
+        ) : null}
       </button>
 
       {open ? (
@@ -75,10 +71,11 @@ export function AccountMenu() {
 
               <Link
                 to="/messages"
-                className="block px-3 py-2 text-sm hover:bg-slate-900"
+                className="flex items-center justify-between px-3 py-2 text-sm hover:bg-slate-900"
                 onClick={() => setOpen(false)}
               >
                 Messages
+                {unreadTotal ? <UnreadBadge count={unreadTotal} /> : null}
               </Link>
 
               <Link
@@ -105,10 +102,20 @@ export function AccountMenu() {
                 Sell
               </Link>
 
+              {isAdmin ? (
+                <Link
+                  to="/admin"
+                  className="block px-3 py-2 text-sm hover:bg-slate-900 border-t border-slate-800"
+                  onClick={() => setOpen(false)}
+                >
+                  Moderation
+                </Link>
+              ) : null}
+
               <button
                 type="button"
                 className="w-full text-left px-3 py-2 text-sm hover:bg-slate-900 text-red-300"
-                onClick={signOut}
+                onClick={handleSignOut}
               >
                 Sign out
               </button>
@@ -119,16 +126,16 @@ export function AccountMenu() {
                 You are not signed in
               </div>
 
-              <button
-                type="button"
-                className="w-full text-left px-3 py-2 text-sm hover:bg-slate-900"
-                onClick={signInGithub}
+              <Link
+                to={loginTo}
+                className="block px-3 py-2 text-sm hover:bg-slate-900"
+                onClick={() => setOpen(false)}
               >
-                Sign in with GitHub
-              </button>
+                Sign in
+              </Link>
 
               <div className="px-3 py-2 text-xs text-slate-500">
-                No password needed.
+                Email link, Google, GitHub or password.
               </div>
             </>
           )}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  REPORT_REASONS,
+  reportConversation,
+  reportListing,
+} from "../lib/db/reports";
+import type { Listing, ReportReason } from "../types/car";
+
+export type ReportTarget =
+  | {
+      kind: "conversation";
+      reportedUserId: string;
+      listingId: string;
+      buyerId: string;
+    }
+  | { kind: "listing"; listing: Pick<Listing, "id" | "seller_id"> };
+
+type Props = {
+  open: boolean;
+  onClose: () => void;
+  reporterId: string;
+  target: ReportTarget;
+};
+
+export function ReportModal({ open, onClose, reporterId, target }: Props) {
+  const [reason, setReason] = useState<ReportReason>("spam");
+  const [details, setDetails] = useState("");
+
+  const report = useMutation({
+    mutationFn: () =>
+      target.kind === "conversation"
+        ? reportConversation({ reporterId, ...target, reason, details })
+        : reportListing({
+            reporterId,
+            listing: target.listing,
+            reason,
+            details,
+          }),
+    onSuccess: () => {
+      setDetails("");
+      setTimeout(() => {
+        report.reset();
+        onClose();
+      }, 900);
+    },
+  });
+
+  if (!open) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-[80] flex items-center justify-center bg-black/60 px-4"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="w-full max-w-lg rounded-2xl border border-slate-800 bg-slate-950 p-5 text-white shadow-xl">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold">
+              {target.kind === "conversation"
+                ? "Report conversation"
+                : "Report listing"}
+            </h2>
+            <p className="text-sm text-slate-400 mt-1">
+              Our team will review this{" "}
+              {target.kind === "conversation" ? "thread" : "listing"}. The other
+              person isn’t told who reported them.
+            </p>
+          </div>
+          <button
+            className="text-slate-300 hover:text-white"
+            onClick={onClose}
+            type="button"
+          >
+            ✕
+          </button>
+        </div>
+
+        {report.isSuccess ? (
+          <div className="mt-4 rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-3 text-slate-200">
+            Thanks — your report was sent.
+          </div>
+        ) : (
+          <>
+            <div className="mt-4 flex flex-col gap-2">
+              {(Object.keys(REPORT_REASONS) as ReportReason[]).map((r) => (
+                <label key={r} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="report-reason"
+                    checked={reason === r}
+                    onChange={() => setReason(r)}
+                    disabled={report.isPending}
+                  />
+                  {REPORT_REASONS[r]}
+                </label>
+              ))}
+            </div>
+
+            <textarea
+              className="mt-4 w-full rounded-xl border border-slate-800 bg-slate-900/40 p-3 text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600 min-h-[90px]"
+              placeholder="Anything else we should know? (optional)"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              disabled={report.isPending}
+              maxLength={1000}
+            />
+
+            {report.isError ? (
+              <div className="mt-2 text-sm text-amber-200">
+                {(report.error as Error)?.message ?? "Could not send report"}
+              </div>
+            ) : null}
+
+            <div className="mt-4 flex justify-end gap-2">
+              <button
+                className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700"
+                onClick={onClose}
+                type="button"
+                disabled={report.isPending}
+              >
+                Cancel
+              </button>
+              <button
+                className="px-4 py-2 rounded-lg bg-red-600 hover:bg-red-500 disabled:opacity-50"
+                onClick={() => report.mutate()}
+                type="button"
+                disabled={report.isPending}
+              >
+                {report.isPending ? "Sending…" : "Send report"}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
+import {
+  accountExportFilename,
+  deleteAccount,
+  exportAccountData,
+} from "../../../lib/db/account";
+import { downloadFile } from "../../../lib/download";
+import type { AuthUser } from "../../../lib/backend/types";
+
+const CONFIRM_WORD = "DELETE";
+
+/**
+ * "Your data" on AccountPage: download everything as JSON, or delete the
+ * account for good.
+ */
+export function AccountDataSection({ user }: { user: AuthUser }) {
+  const navigate = useNavigate();
+  const [confirming, setConfirming] = useState(false);
+  const [typed, setTyped] = useState("");
+
+  const download = useMutation({
+    mutationFn: () => exportAccountData(user),
+    onSuccess: (data) =>
+      downloadFile(
+        accountExportFilename(),
+        "application/json;charset=utf-8",
+        JSON.stringify(data, null, 2),
+      ),
+  });
+
+  const remove = useMutation({
+    mutationFn: () => deleteAccount(user.id),
+    onSuccess: () => navigate("/", { replace: true }),
+  });
+
+  const error = download.error ?? remove.error;
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <h2 className="text-lg font-semibold">Your data</h2>
+      <p className="text-sm text-slate-400 mt-1">
+        Download your profile, listings (with photo links), favorites, saved
+        searches and messages as a JSON file.
+      </p>
+      <button
+        type="button"
+        className="mt-3 px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+        disabled={download.isPending || remove.isPending}
+        onClick={() => download.mutate()}
+      >
+        {download.isPending ? "Preparing…" : "Download my data"}
+      </button>
+
+      <div className="mt-6 border-t border-slate-800 pt-4">
+        <h3 className="font-semibold text-red-300">Delete account</h3>
+        <p className="text-sm text-slate-400 mt-1">
+          Your listings come off the market and their photos are deleted. People
+          you messaged keep the conversation, but your messages are removed and
+          your name shows as “Deleted user”. This can’t be undone.
+        </p>
+
+        {confirming ? (
+          <div className="mt-3 flex flex-col gap-2 max-w-sm">
+            <label className="text-sm text-slate-300">
+              Type {CONFIRM_WORD} to confirm
+              <input
+                className="mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-slate-100 outline-none focus:border-slate-600"
+                value={typed}
+                onChange={(e) => setTyped(e.target.value)}
+                disabled={remove.isPending}
+                autoFocus
+              />
+            </label>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                className="px-4 py-2 rounded-lg bg-red-600 hover:bg-red-500 disabled:opacity-50"
+                disabled={typed !== CONFIRM_WORD || remove.isPending}
+                onClick={() => remove.mutate()}
+              >
+                {remove.isPending ? "Deleting…" : "Delete my account"}
+              </button>
+              <button
+                type="button"
+                className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+                disabled={remove.isPending}
+                onClick={() => {
+                  setConfirming(false);
+                  setTyped("");
+                }}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            type="button"
+            className="mt-3 px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-red-300"
+            onClick={() => setConfirming(true)}
+          >
+            Delete account…
+          </button>
+        )}
+      </div>
+
+      {error ? (
+        <div className="mt-3 text-sm text-red-300">
+          {(error as Error).message || "Something went wrong. Try again."}
+        </div>
+      ) : null}
+    </div>
+  );
+}
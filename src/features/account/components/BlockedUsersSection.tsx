@@ -0,0 +1,64 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchBlockedUsers, unblockUser } from "../../../lib/db/blocks";
+
+export function BlockedUsersSection({ userId }: { userId: string }) {
+  const qc = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["blocked-users", userId],
+    queryFn: () => fetchBlockedUsers(userId),
+  });
+
+  const unblock = useMutation({
+    mutationFn: (blockedId: string) => unblockUser(userId, blockedId),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["blocked-users", userId] });
+      await qc.invalidateQueries({ queryKey: ["inbox", userId] });
+      await qc.invalidateQueries({ queryKey: ["unread", userId] });
+    },
+  });
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <h2 className="text-lg font-semibold">Blocked users</h2>
+
+      {isLoading ? (
+        <div className="mt-3 text-slate-400">Loading…</div>
+      ) : error ? (
+        <div className="mt-3 text-red-300">
+          {(error as Error).message || "Failed to load blocked users."}
+        </div>
+      ) : !data?.length ? (
+        <div className="mt-3 text-sm text-slate-400">
+          You haven’t blocked anyone. Use “Block user” in a conversation to stop
+          someone messaging you.
+        </div>
+      ) : (
+        <ul className="mt-3 divide-y divide-slate-800">
+          {data.map((b) => (
+            <li
+              key={b.blocked_id}
+              className="py-3 flex items-center justify-between gap-3"
+            >
+              <div>
+                <div className="text-sm break-all text-slate-200">
+                  {b.blocked_id}
+                </div>
+                <div className="text-xs text-slate-400">
+                  Blocked {new Date(b.created_at).toLocaleDateString()}
+                </div>
+              </div>
+              <button
+                className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-sm"
+                onClick={() => unblock.mutate(b.blocked_id)}
+                disabled={unblock.isPending}
+              >
+                Unblock
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
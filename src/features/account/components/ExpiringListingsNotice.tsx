@@ -0,0 +1,80 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import { fetchSellerListings } from "../../../lib/db/listings";
+import {
+  daysUntilExpiry,
+  EXPIRY_WARNING_DAYS,
+  isExpiringSoon,
+  renewListing,
+} from "../../../lib/db/listingExpiry";
+import { expiryLabel } from "../../listings/statusOptions";
+
+// Account page warning for the seller's listings that are about to expire
+// (or just did). Renders nothing when all is well.
+export function ExpiringListingsNotice({ userId }: { userId: string }) {
+  const qc = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ["my-listings", userId],
+    queryFn: () => fetchSellerListings(userId),
+  });
+
+  const renew = useMutation({
+    mutationFn: renewListing,
+    onSuccess: async (_res, id) => {
+      await qc.invalidateQueries({ queryKey: ["my-listings"] });
+      await qc.invalidateQueries({ queryKey: ["listing", id] });
+      await qc.invalidateQueries({ queryKey: ["listings"] });
+    },
+  });
+
+  const attention = (data ?? []).filter(
+    (l) => l.status === "expired" || isExpiringSoon(l),
+  );
+  if (!attention.length) return null;
+
+  return (
+    <div className="mt-6 rounded-2xl border border-amber-500/40 bg-amber-500/10 p-6">
+      <h2 className="text-lg font-semibold text-amber-200">
+        Listings need renewing
+      </h2>
+      <p className="text-sm text-amber-200/80 mt-1">
+        Listings stay live for a limited time. These expire within{" "}
+        {EXPIRY_WARNING_DAYS} days or already have.
+      </p>
+
+      <ul className="mt-3 divide-y divide-amber-500/20">
+        {attention.map((l) => (
+          <li
+            key={l.id}
+            className="py-2 flex items-center justify-between gap-3 flex-wrap"
+          >
+            <div>
+              <Link to={`/listings/${l.id}`} className="hover:underline">
+                {l.year} {l.make} {l.model}
+              </Link>
+              <div className="text-xs text-amber-200/80">
+                {expiryLabel(l.status === "expired" ? -1 : daysUntilExpiry(l))}
+              </div>
+            </div>
+            <button
+              type="button"
+              className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50"
+              disabled={renew.isPending}
+              onClick={() => renew.mutate(l.id)}
+            >
+              Renew
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      <Link
+        to="/account/listings"
+        className="inline-block mt-3 text-sm text-blue-400 hover:underline"
+      >
+        Manage my listings
+      </Link>
+    </div>
+  );
+}
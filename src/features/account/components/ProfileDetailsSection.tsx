@@ -0,0 +1,213 @@
+import { useState } from "react";
+import type { ReactNode } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  CONTACT_METHOD_LABELS,
+  detailsFromProfile,
+  fetchProfile,
+  MAX_DISPLAY_NAME_LENGTH,
+  PROFILE_FIELD_LABELS,
+  updateProfileDetails,
+} from "../../../lib/db/profiles";
+import type { ProfileDetails } from "../../../lib/db/profiles";
+import type { ContactMethod, ProfileField } from "../../../types/car";
+
+type Props = {
+  userId: string;
+  email: string | null;
+};
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600";
+
+function FieldRow({
+  field,
+  hint,
+  isPublic,
+  onPublicChange,
+  children,
+}: {
+  field: ProfileField;
+  hint?: string;
+  isPublic: boolean;
+  onPublicChange: (visible: boolean) => void;
+  children: ReactNode;
+}) {
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3">
+        <label className="text-sm text-slate-400" htmlFor={`profile-${field}`}>
+          {PROFILE_FIELD_LABELS[field]}
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          <input
+            type="checkbox"
+            checked={isPublic}
+            onChange={(e) => onPublicChange(e.target.checked)}
+          />
+          Public
+        </label>
+      </div>
+      {children}
+      {hint ? <div className="mt-1 text-xs text-slate-500">{hint}</div> : null}
+    </div>
+  );
+}
+
+/**
+ * Contact details on AccountPage. Each field has its own Public switch; the
+ * public seller page and listing pages only ever see the public ones.
+ */
+export function ProfileDetailsSection({ userId, email }: Props) {
+  const qc = useQueryClient();
+  // null until the user edits, so the saved values show once loaded
+  const [draft, setDraft] = useState<ProfileDetails | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ["profile", userId],
+    queryFn: () => fetchProfile(userId),
+  });
+
+  const form = draft ?? detailsFromProfile(profile ?? null);
+
+  const set = (patch: Partial<ProfileDetails>) => {
+    setSaved(false);
+    setDraft({ ...form, ...patch });
+  };
+
+  const isPublic = (field: ProfileField) => form.publicFields.includes(field);
+  const setPublic = (field: ProfileField) => (visible: boolean) => {
+    const rest = form.publicFields.filter((f) => f !== field);
+    set({ publicFields: visible ? [...rest, field] : rest });
+  };
+
+  const save = useMutation({
+    mutationFn: () => updateProfileDetails(userId, form),
+    onSuccess: async () => {
+      setDraft(null);
+      setSaved(true);
+      await qc.invalidateQueries({ queryKey: ["profile", userId] });
+      await qc.invalidateQueries({ queryKey: ["public-profile", userId] });
+      await qc.invalidateQueries({ queryKey: ["seller-profile", userId] });
+    },
+  });
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <h2 className="text-lg font-semibold">Profile</h2>
+
+      {isLoading ? (
+        <div className="mt-3 text-slate-400">Loading…</div>
+      ) : (
+        <form
+          className="mt-4 flex flex-col gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            save.mutate();
+          }}
+        >
+          <FieldRow
+            field="display_name"
+            hint="Hidden names show as “Member” plus a short id."
+            isPublic={isPublic("display_name")}
+            onPublicChange={setPublic("display_name")}
+          >
+            <input
+              id="profile-display_name"
+              className={inputClass}
+              value={form.displayName}
+              maxLength={MAX_DISPLAY_NAME_LENGTH}
+              onChange={(e) => set({ displayName: e.target.value })}
+              placeholder="e.g. Alex or Alex’s Auto"
+            />
+          </FieldRow>
+
+          <FieldRow
+            field="phone"
+            isPublic={isPublic("phone")}
+            onPublicChange={setPublic("phone")}
+          >
+            <input
+              id="profile-phone"
+              type="tel"
+              autoComplete="tel"
+              className={inputClass}
+              value={form.phone}
+              onChange={(e) => set({ phone: e.target.value })}
+              placeholder="(555) 123-4567"
+            />
+          </FieldRow>
+
+          <FieldRow
+            field="contact_method"
+            isPublic={isPublic("contact_method")}
+            onPublicChange={setPublic("contact_method")}
+          >
+            <select
+              id="profile-contact_method"
+              className={inputClass}
+              value={form.contactMethod}
+              onChange={(e) =>
+                set({ contactMethod: e.target.value as ContactMethod })
+              }
+            >
+              {Object.entries(CONTACT_METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </FieldRow>
+
+          <FieldRow
+            field="default_zip"
+            hint="Used as your starting location when browsing."
+            isPublic={isPublic("default_zip")}
+            onPublicChange={setPublic("default_zip")}
+          >
+            <input
+              id="profile-default_zip"
+              inputMode="numeric"
+              autoComplete="postal-code"
+              className={inputClass}
+              value={form.defaultZip}
+              maxLength={5}
+              onChange={(e) => set({ defaultZip: e.target.value })}
+              placeholder="ZIP"
+            />
+          </FieldRow>
+
+          <div>
+            <div className="text-sm text-slate-400">Email</div>
+            <div className="mt-1 text-slate-300">
+              {email ?? "—"}{" "}
+              <span className="text-xs text-slate-500">
+                (private, used to sign in)
+              </span>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
+              disabled={draft === null || save.isPending}
+            >
+              {save.isPending ? "Saving…" : "Save profile"}
+            </button>
+            {saved ? (
+              <span className="text-sm text-emerald-300">Saved.</span>
+            ) : null}
+          </div>
+        </form>
+      )}
+
+      {save.error ? (
+        <div className="mt-3 text-sm text-red-300">
+          {(save.error as Error).message}
+        </div>
+      ) : null}
+    </div>
+  );
+}
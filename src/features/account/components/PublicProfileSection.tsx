@@ -0,0 +1,158 @@
+import { useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  AVATAR_ACCEPT,
+  fetchProfile,
+  MAX_BIO_LENGTH,
+  removeAvatar,
+  setFieldPublic,
+  updateBio,
+  uploadAvatar,
+} from "../../../lib/db/profiles";
+import { SellerAvatar } from "../../sellers/components/SellerAvatar";
+
+/**
+ * Bio and avatar shown on the public /sellers/:id page.
+ */
+export function PublicProfileSection({ userId }: { userId: string }) {
+  const qc = useQueryClient();
+  const fileInput = useRef<HTMLInputElement | null>(null);
+  // null until the user edits, so the saved bio shows once loaded
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const { data: profile, isLoading } = useQuery({
+    queryKey: ["profile", userId],
+    queryFn: () => fetchProfile(userId),
+  });
+
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey: ["profile", userId] });
+    await qc.invalidateQueries({ queryKey: ["public-profile", userId] });
+    await qc.invalidateQueries({ queryKey: ["seller-profile", userId] });
+  };
+
+  const saveBio = useMutation({
+    mutationFn: (bio: string) => updateBio(userId, bio),
+    onSuccess: async () => {
+      setDraft(null);
+      await refresh();
+    },
+  });
+
+  const avatar = useMutation({
+    mutationFn: (file: File | null) =>
+      file
+        ? uploadAvatar(userId, file, profile?.avatar_path ?? null)
+        : removeAvatar(userId, profile!.avatar_path!),
+    onSuccess: refresh,
+  });
+
+  const photoPublic = useMutation({
+    mutationFn: (visible: boolean) =>
+      setFieldPublic(userId, profile?.public_fields ?? [], "avatar", visible),
+    onSuccess: refresh,
+  });
+
+  const bio = draft ?? profile?.bio ?? "";
+  const error = saveBio.error ?? avatar.error ?? photoPublic.error;
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h2 className="text-lg font-semibold">Public profile</h2>
+        <Link
+          to={`/sellers/${userId}`}
+          className="text-sm text-blue-300 hover:underline"
+        >
+          View as buyers see it →
+        </Link>
+      </div>
+
+      {isLoading ? (
+        <div className="mt-3 text-slate-400">Loading…</div>
+      ) : (
+        <>
+          <div className="mt-4 flex items-center gap-4">
+            <SellerAvatar
+              profile={profile}
+              userId={userId}
+              className="w-16 h-16 text-xl"
+            />
+            <div className="flex gap-2 flex-wrap">
+              <button
+                type="button"
+                className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50"
+                disabled={avatar.isPending}
+                onClick={() => fileInput.current?.click()}
+              >
+                {avatar.isPending ? "Uploading…" : "Change photo"}
+              </button>
+              {profile?.avatar_path ? (
+                <button
+                  type="button"
+                  className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm text-red-300 disabled:opacity-50"
+                  disabled={avatar.isPending}
+                  onClick={() => avatar.mutate(null)}
+                >
+                  Remove
+                </button>
+              ) : null}
+              <input
+                ref={fileInput}
+                type="file"
+                accept={AVATAR_ACCEPT}
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) avatar.mutate(file);
+                }}
+              />
+            </div>
+            <label className="ml-auto flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={profile?.public_fields.includes("avatar") ?? false}
+                disabled={!profile || photoPublic.isPending}
+                onChange={(e) => photoPublic.mutate(e.target.checked)}
+              />
+              Public
+            </label>
+          </div>
+
+          <label className="block mt-4 text-sm text-slate-400" htmlFor="bio">
+            Bio
+          </label>
+          <textarea
+            id="bio"
+            className="mt-1 w-full rounded-xl border border-slate-800 bg-slate-950/40 p-3 text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600 min-h-[90px]"
+            placeholder="Tell buyers a little about yourself or your dealership."
+            value={bio}
+            maxLength={MAX_BIO_LENGTH}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <div className="mt-2 flex items-center justify-between gap-3">
+            <span className="text-xs text-slate-500">
+              {bio.length}/{MAX_BIO_LENGTH}
+            </span>
+            <button
+              type="button"
+              className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm disabled:opacity-50"
+              disabled={draft === null || saveBio.isPending}
+              onClick={() => saveBio.mutate(bio)}
+            >
+              {saveBio.isPending ? "Saving…" : "Save bio"}
+            </button>
+          </div>
+        </>
+      )}
+
+      {error ? (
+        <div className="mt-3 text-sm text-red-300">
+          {(error as Error).message || "Could not update your profile."}
+        </div>
+      ) : null}
+    </div>
+  );
+}
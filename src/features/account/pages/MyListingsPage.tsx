@@ -1,18 +1,25 @@
-import { useQuery } from "@tanstack/react-query";
-import { Link } from "react-router-dom";
-import { supabase } from "../../../lib/supabase";
-import { fetchAuthUser } from "../../../lib/auth";
-
-type Listing = {
-  id: string;
-  make: string;
-  model: string;
-  year: number;
-  price: number;
-  mileage: number;
-  is_active: boolean | null;
-  created_at: string;
-};
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link, useSearchParams } from "react-router-dom";
+import { fetchSellerListings } from "../../../lib/db/listings";
+import {
+  allowedTransitions,
+  changeListingStatus,
+  LISTING_STATUSES,
+} from "../../../lib/db/listingStatus";
+import { featuredLabel, featuredState } from "../../../lib/db/featured";
+import {
+  daysUntilExpiry,
+  isExpiringSoon,
+  renewListing,
+} from "../../../lib/db/listingExpiry";
+import type { ListingStatus } from "../../../types/car";
+import {
+  expiryLabel,
+  STATUS_ACTIONS,
+  STATUS_BADGE_CLASSES,
+  STATUS_LABELS,
+} from "../../listings/statusOptions";
+import { useSignedInUser } from "../../auth/authContext";
 
 function formatPrice(n: number) {
   return new Intl.NumberFormat(undefined, {
@@ -22,41 +29,56 @@ function formatPrice(n: number) {
   }).format(n);
 }
 
+function isStatus(value: string | null): value is ListingStatus {
+  return LISTING_STATUSES.includes(value as ListingStatus);
+}
+
 export function MyListingsPage() {
-  const { data: user, isLoading: authLoading } = useQuery({
-    queryKey: ["auth-user"],
-    queryFn: fetchAuthUser,
-    staleTime: 1000 * 30,
-  });
+  const qc = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const statusParam = searchParams.get("status");
+  const statusFilter = isStatus(statusParam) ? statusParam : null;
+
+  const userId = useSignedInUser().id;
 
   const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ["my-listings", user?.id],
-    enabled: !!user?.id,
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("listings")
-        .select("id, make, model, year, price, mileage, is_active, created_at")
-        .eq("seller_id", user!.id)
-        .order("created_at", { ascending: false });
-
-      if (error) throw error;
-      return (data ?? []) as Listing[];
+    queryKey: ["my-listings", userId],
+    queryFn: () => fetchSellerListings(userId),
+  });
+
+  const setStatus = useMutation({
+    mutationFn: (args: { id: string; to: ListingStatus }) =>
+      changeListingStatus(args.id, args.to),
+    onSuccess: async (_res, { id }) => {
+      await qc.invalidateQueries({ queryKey: ["my-listings"] });
+      await qc.invalidateQueries({ queryKey: ["listing", id] });
+      await qc.invalidateQueries({ queryKey: ["listings"] });
     },
   });
 
-  if (authLoading) {
-    return (
-      <div className="max-w-5xl mx-auto px-6 py-8 text-slate-400">Loading…</div>
-    );
-  }
+  const renew = useMutation({
+    mutationFn: renewListing,
+    onSuccess: async (_res, id) => {
+      await qc.invalidateQueries({ queryKey: ["my-listings"] });
+      await qc.invalidateQueries({ queryKey: ["listing", id] });
+      await qc.invalidateQueries({ queryKey: ["listings"] });
+    },
+  });
 
-  if (!user) {
-    return (
-      <div className="max-w-5xl mx-auto px-6 py-8 text-slate-300">
-        You must be logged in to view your listings.
-      </div>
-    );
+  const counts = new Map<ListingStatus, number>();
+  for (const l of data ?? []) {
+    counts.set(l.status, (counts.get(l.status) ?? 0) + 1);
   }
+  const visible = statusFilter
+    ? (data ?? []).filter((l) => l.status === statusFilter)
+    : (data ?? []);
+
+  const pickStatus = (status: ListingStatus | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (status) next.set("status", status);
+    else next.delete("status");
+    setSearchParams(next, { replace: true });
+  };
 
   return (
     <div className="max-w-5xl mx-auto px-6 py-8">
@@ -85,6 +107,31 @@ export function MyListingsPage() {
         </div>
       </div>
 
+      {data?.length ? (
+        <div className="mt-6 flex flex-wrap gap-2">
+          <StatusChip
+            label={`All (${data.length})`}
+            on={!statusFilter}
+            onClick={() => pickStatus(null)}
+          />
+          {LISTING_STATUSES.filter((s) => counts.has(s)).map((s) => (
+            <StatusChip
+              key={s}
+              label={`${STATUS_LABELS[s]} (${counts.get(s)})`}
+              on={statusFilter === s}
+              onClick={() => pickStatus(s)}
+            />
+          ))}
+        </div>
+      ) : null}
+
+      {setStatus.isError || renew.isError ? (
+        <div className="mt-4 text-red-300">
+          {((setStatus.error ?? renew.error) as Error).message ||
+            "Could not update status."}
+        </div>
+      ) : null}
+
       {isLoading ? (
         <div className="mt-6 text-slate-400">Loading…</div>
       ) : error ? (
@@ -106,7 +153,7 @@ export function MyListingsPage() {
         </div>
       ) : (
         <div className="mt-6 grid grid-cols-1 md:grid-cols-2 gap-4">
-          {data.map((l) => (
+          {visible.map((l) => (
             <div
               key={l.id}
               className="rounded-2xl border border-slate-800 bg-slate-900/40 p-5"
@@ -119,20 +166,36 @@ export function MyListingsPage() {
                   <div className="text-sm text-slate-400 mt-1">
                     {formatPrice(l.price)} • {l.mileage.toLocaleString()} mi
                   </div>
+                  {l.status === "active" ? (
+                    <div
+                      className={`text-xs mt-1 ${
+                        isExpiringSoon(l) ? "text-amber-300" : "text-slate-500"
+                      }`}
+                    >
+                      {expiryLabel(daysUntilExpiry(l))}
+                    </div>
+                  ) : null}
+                  {l.is_featured ? (
+                    <div
+                      className={`text-xs mt-1 ${
+                        featuredState(l) === "ended"
+                          ? "text-slate-500"
+                          : "text-amber-300"
+                      }`}
+                    >
+                      ★ {featuredLabel(l)}
+                    </div>
+                  ) : null}
                 </div>
 
                 <span
-                  className={`text-xs px-2 py-1 rounded-lg ${
-                    l.is_active
-                      ? "bg-emerald-600/20 text-emerald-200 border border-emerald-700/50"
-                      : "bg-slate-800 text-slate-300 border border-slate-700"
-                  }`}
+                  className={`text-xs px-2 py-1 rounded-lg ${STATUS_BADGE_CLASSES[l.status]}`}
                 >
-                  {l.is_active ? "Active" : "Hidden"}
+                  {STATUS_LABELS[l.status]}
                 </span>
               </div>
 
-              <div className="mt-4 flex gap-2">
+              <div className="mt-4 flex gap-2 flex-wrap">
                 <Link
                   to={`/listings/${l.id}`}
                   className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700"
@@ -145,6 +208,38 @@ export function MyListingsPage() {
                 >
                   Edit
                 </Link>
+                {l.status === "active" || l.status === "expired" ? (
+                  <button
+                    type="button"
+                    className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+                    disabled={renew.isPending}
+                    onClick={() => renew.mutate(l.id)}
+                  >
+                    Renew
+                  </button>
+                ) : null}
+                {/* Expiry is automatic, and Renew covers expired → active */}
+                {allowedTransitions(l.status)
+                  .filter(
+                    (to) =>
+                      to !== "expired" &&
+                      !(l.status === "expired" && to === "active"),
+                  )
+                  .map((to) => (
+                    <button
+                      key={to}
+                      type="button"
+                      className={`px-3 py-2 rounded-lg disabled:opacity-50 ${
+                        to === "removed"
+                          ? "bg-slate-800 hover:bg-red-900/60"
+                          : "bg-slate-800 hover:bg-slate-700"
+                      }`}
+                      disabled={setStatus.isPending}
+                      onClick={() => setStatus.mutate({ id: l.id, to })}
+                    >
+                      {STATUS_ACTIONS[to]}
+                    </button>
+                  ))}
               </div>
             </div>
           ))}
@@ -153,3 +248,28 @@ export function MyListingsPage() {
     </div>
   );
 }
+
+function StatusChip({
+  label,
+  on,
+  onClick,
+}: {
+  label: string;
+  on: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      type="button"
+      aria-pressed={on}
+      className={`px-3 py-1.5 rounded-full text-sm border ${
+        on
+          ? "bg-blue-600/30 border-blue-500/60 text-white"
+          : "bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700"
+      }`}
+      onClick={onClick}
+    >
+      {label}
+    </button>
+  );
+}
@@ -0,0 +1,8 @@
+import { useOutletContext } from "react-router-dom";
+
+// What AdminLayout passes down to the /admin pages
+export type AdminContext = { adminId: string };
+
+export function useAdminId() {
+  return useOutletContext<AdminContext>().adminId;
+}
@@ -0,0 +1,46 @@
+import { NavLink, Outlet } from "react-router-dom";
+import { useSignedInUser } from "../../auth/authContext";
+import type { AdminContext } from "../adminContext";
+
+const TABS = [
+  { to: "/admin", label: "Reports", end: true },
+  { to: "/admin/listings", label: "Listings", end: false },
+  { to: "/admin/catalog", label: "Catalog", end: false },
+  { to: "/admin/audit", label: "Audit log", end: false },
+];
+
+/**
+ * Shell for every /admin route (gated by `<RequireAuth role="admin">`); hands
+ * the admin's id to the page through the outlet context.
+ */
+export function AdminLayout() {
+  const userId = useSignedInUser().id;
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 py-8">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <h1 className="text-2xl font-semibold">Moderation</h1>
+        <nav className="flex gap-2">
+          {TABS.map((t) => (
+            <NavLink
+              key={t.to}
+              to={t.to}
+              end={t.end}
+              className={({ isActive }) =>
+                `px-3 py-1.5 rounded-lg text-sm border ${
+                  isActive
+                    ? "border-blue-500 bg-blue-500/15 text-blue-200"
+                    : "border-slate-800 bg-slate-900/40 text-slate-300 hover:bg-slate-800"
+                }`
+              }
+            >
+              {t.label}
+            </NavLink>
+          ))}
+        </nav>
+      </div>
+
+      <Outlet context={{ adminId: userId } satisfies AdminContext} />
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import { Link } from "react-router-dom";
+import { AUDIT_ACTION_LABELS } from "../../../lib/db/moderation";
+import type { AdminAction } from "../../../types/car";
+
+function targetLink(a: AdminAction) {
+  if (a.target_type === "listing" && a.action !== "delete_listing")
+    return `/listings/${a.target_id}`;
+  if (a.target_type === "user") return `/admin/sellers/${a.target_id}`;
+  if (a.target_type === "brand" || a.target_type === "model")
+    return "/admin/catalog";
+  return null;
+}
+
+// Deleted listings and catalog changes keep a title in `details`
+function detailsTitle(a: AdminAction) {
+  const d = a.details;
+  if (d && typeof d === "object" && !Array.isArray(d)) {
+    const title = d.title;
+    if (typeof title === "string") return title;
+  }
+  return null;
+}
+
+export function AuditLogTable({ actions }: { actions: AdminAction[] }) {
+  if (!actions.length) {
+    return <div className="text-slate-400">No admin actions yet.</div>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-2xl border border-slate-800">
+      <table className="w-full text-sm">
+        <thead className="bg-slate-900/60 text-slate-400 text-left">
+          <tr>
+            <th className="px-3 py-2 font-normal">When</th>
+            <th className="px-3 py-2 font-normal">Admin</th>
+            <th className="px-3 py-2 font-normal">Action</th>
+            <th className="px-3 py-2 font-normal">Target</th>
+          </tr>
+        </thead>
+        <tbody>
+          {actions.map((a) => {
+            const link = targetLink(a);
+            const label =
+              detailsTitle(a) ?? `${a.target_type} ${a.target_id.slice(0, 8)}`;
+            return (
+              <tr key={a.id} className="border-t border-slate-800">
+                <td className="px-3 py-2 text-slate-400 whitespace-nowrap">
+                  {new Date(a.created_at).toLocaleString()}
+                </td>
+                <td className="px-3 py-2 text-slate-300">
+                  {a.admin_id.slice(0, 8)}
+                </td>
+                <td className="px-3 py-2">{AUDIT_ACTION_LABELS[a.action]}</td>
+                <td className="px-3 py-2">
+                  {link ? (
+                    <Link to={link} className="text-blue-300 hover:underline">
+                      {label}
+                    </Link>
+                  ) : (
+                    <span className="text-slate-300">{label}</span>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import type { ReactNode } from "react";
+
+type Entry = { id: string; name: string };
+
+type Props = {
+  entry: Entry;
+  count: number;
+  // Where this entry can be merged into (excluding itself)
+  mergeTargets: Entry[];
+  busy: boolean;
+  onRename: (name: string) => void;
+  onMerge: (targetId: string) => void;
+  onDelete: () => void;
+  children?: ReactNode;
+};
+
+type Mode = "view" | "rename" | "merge" | "delete";
+
+/**
+ * One brand or model with inline rename / merge / delete.
+ */
+export function CatalogEntryRow({
+  entry,
+  count,
+  mergeTargets,
+  busy,
+  onRename,
+  onMerge,
+  onDelete,
+  children,
+}: Props) {
+  const [mode, setMode] = useState<Mode>("view");
+  const [name, setName] = useState(entry.name);
+  const [targetId, setTargetId] = useState("");
+
+  const reset = () => {
+    setMode("view");
+    setName(entry.name);
+    setTargetId("");
+  };
+
+  const buttonClass =
+    "px-2 py-1 rounded-lg bg-slate-800 hover:bg-slate-700 text-xs disabled:opacity-50";
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-3 flex-wrap py-1.5">
+        {mode === "rename" ? (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              onRename(name);
+              setMode("view");
+            }}
+          >
+            <input
+              className="rounded-lg border border-slate-800 bg-slate-900/40 px-2 py-1 text-sm text-slate-100 outline-none focus:border-slate-600"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              autoFocus
+            />
+            <button type="submit" className={buttonClass} disabled={busy}>
+              Save
+            </button>
+            <button type="button" className={buttonClass} onClick={reset}>
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <div className="text-sm">
+            <span className="text-slate-100">{entry.name}</span>{" "}
+            <span className="text-slate-500">
+              · {count} listing{count === 1 ? "" : "s"}
+            </span>
+          </div>
+        )}
+
+        {mode === "view" ? (
+          <div className="flex gap-1.5">
+            <button
+              type="button"
+              className={buttonClass}
+              disabled={busy}
+              onClick={() => {
+                setName(entry.name);
+                setMode("rename");
+              }}
+            >
+              Rename
+            </button>
+            {mergeTargets.length ? (
+              <button
+                type="button"
+                className={buttonClass}
+                disabled={busy}
+                onClick={() => setMode("merge")}
+              >
+                Merge…
+              </button>
+            ) : null}
+            <button
+              type="button"
+              className={`${buttonClass} text-red-300`}
+              disabled={busy}
+              onClick={() => setMode("delete")}
+            >
+              Delete…
+            </button>
+          </div>
+        ) : mode === "merge" ? (
+          <div className="flex items-center gap-1.5">
+            <select
+              className="rounded-lg border border-slate-800 bg-slate-900 px-2 py-1 text-xs text-slate-100"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+            >
+              <option value="">Merge into…</option>
+              {mergeTargets.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className={buttonClass}
+              disabled={busy || !targetId}
+              onClick={() => {
+                onMerge(targetId);
+                reset();
+              }}
+            >
+              Merge
+            </button>
+            <button type="button" className={buttonClass} onClick={reset}>
+              Cancel
+            </button>
+          </div>
+        ) : mode === "delete" ? (
+          <div className="flex items-center gap-1.5">
+            <button
+              type="button"
+              className="px-2 py-1 rounded-lg bg-red-600 hover:bg-red-500 text-xs disabled:opacity-50"
+              disabled={busy}
+              onClick={() => {
+                onDelete();
+                reset();
+              }}
+            >
+              Delete {entry.name}
+            </button>
+            <button type="button" className={buttonClass} onClick={reset}>
+              Cancel
+            </button>
+          </div>
+        ) : null}
+      </div>
+      {children}
+    </div>
+  );
+}
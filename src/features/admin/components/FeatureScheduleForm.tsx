@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { MAX_FEATURED_PRIORITY } from "../../../lib/db/featured";
+import type { FeatureSchedule } from "../../../lib/db/moderation";
+import type { Listing } from "../../../types/car";
+
+type Props = {
+  listing: Pick<
+    Listing,
+    "is_featured" | "featured_from" | "featured_until" | "featured_priority"
+  >;
+  busy: boolean;
+  onSave: (schedule: FeatureSchedule) => void;
+  onUnfeature: () => void;
+  onCancel: () => void;
+};
+
+// <input type="date"> works in local days; the window runs from the start of
+// the first day to the end of the last.
+function toDateInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function startOfDay(value: string) {
+  return value ? new Date(`${value}T00:00:00`) : null;
+}
+
+function endOfDay(value: string) {
+  return value ? new Date(`${value}T23:59:59.999`) : null;
+}
+
+export function FeatureScheduleForm({
+  listing,
+  busy,
+  onSave,
+  onUnfeature,
+  onCancel,
+}: Props) {
+  const [from, setFrom] = useState(toDateInput(listing.featured_from));
+  const [until, setUntil] = useState(toDateInput(listing.featured_until));
+  const [priority, setPriority] = useState(listing.featured_priority);
+
+  const inputClass =
+    "rounded-lg border border-slate-800 bg-slate-900 px-2 py-1 text-sm text-slate-100 outline-none focus:border-slate-600";
+
+  return (
+    <form
+      className="flex items-end gap-3 flex-wrap"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSave({
+          from: startOfDay(from),
+          until: endOfDay(until),
+          priority,
+        });
+      }}
+    >
+      <label className="text-xs text-slate-400 flex flex-col gap-1">
+        From (blank = now)
+        <input
+          type="date"
+          className={inputClass}
+          value={from}
+          onChange={(e) => setFrom(e.target.value)}
+        />
+      </label>
+      <label className="text-xs text-slate-400 flex flex-col gap-1">
+        Until (blank = no end)
+        <input
+          type="date"
+          className={inputClass}
+          value={until}
+          onChange={(e) => setUntil(e.target.value)}
+        />
+      </label>
+      <label className="text-xs text-slate-400 flex flex-col gap-1">
+        Priority (0–{MAX_FEATURED_PRIORITY})
+        <input
+          type="number"
+          min={0}
+          max={MAX_FEATURED_PRIORITY}
+          step={1}
+          className={`${inputClass} w-20`}
+          value={priority}
+          onChange={(e) => setPriority(Number(e.target.value))}
+        />
+      </label>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm disabled:opacity-50"
+          disabled={busy}
+        >
+          {listing.is_featured ? "Update" : "Feature"}
+        </button>
+        {listing.is_featured ? (
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm text-red-300 disabled:opacity-50"
+            disabled={busy}
+            onClick={onUnfeature}
+          >
+            Unfeature
+          </button>
+        ) : null}
+        <button
+          type="button"
+          className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { REPORT_REASONS, reportedMessages } from "../../../lib/db/reports";
+import type { ReportWithListing } from "../../../lib/db/moderation";
+
+type Props = {
+  report: ReportWithListing;
+  busy: boolean;
+  onClose: (status: "resolved" | "dismissed") => void;
+  onHideListing: () => void;
+};
+
+function formatDateTime(iso: string) {
+  return new Date(iso).toLocaleString();
+}
+
+export function ReportCard({ report, busy, onClose, onHideListing }: Props) {
+  const [showThread, setShowThread] = useState(false);
+  const messages = reportedMessages(report);
+  const listing = report.listings;
+  const isOpen = report.status === "open";
+
+  return (
+    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4">
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs px-2 py-1 rounded-lg bg-slate-800 text-slate-300">
+              {report.buyer_id ? "Conversation" : "Listing"}
+            </span>
+            <span className="font-semibold">
+              {REPORT_REASONS[report.reason]}
+            </span>
+          </div>
+          <div className="text-sm text-slate-400 mt-1">
+            {listing ? (
+              <Link
+                to={`/listings/${listing.id}`}
+                className="text-blue-300 hover:underline"
+              >
+                {listing.year} {listing.make} {listing.model}
+              </Link>
+            ) : (
+              "Listing deleted"
+            )}{" "}
+            · Reported user{" "}
+            <Link
+              to={`/admin/sellers/${report.reported_user_id}`}
+              className="text-blue-300 hover:underline"
+            >
+              {report.reported_user_id.slice(0, 8)}
+            </Link>{" "}
+            · {formatDateTime(report.created_at)}
+          </div>
+          {report.details ? (
+            <p className="text-slate-200 mt-2 whitespace-pre-line">
+              {report.details}
+            </p>
+          ) : null}
+        </div>
+
+        <div className="flex gap-2 flex-wrap">
+          {isOpen ? (
+            <>
+              {listing ? (
+                <button
+                  type="button"
+                  className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50"
+                  disabled={busy}
+                  onClick={onHideListing}
+                >
+                  Hide listing
+                </button>
+              ) : null}
+              <button
+                type="button"
+                className="px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 text-sm disabled:opacity-50"
+                disabled={busy}
+                onClick={() => onClose("resolved")}
+              >
+                Resolve
+              </button>
+              <button
+                type="button"
+                className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50"
+                disabled={busy}
+                onClick={() => onClose("dismissed")}
+              >
+                Dismiss
+              </button>
+            </>
+          ) : (
+            <span className="text-xs text-slate-400">
+              {report.status === "resolved" ? "Resolved" : "Dismissed"}
+              {report.resolved_at
+                ? ` ${formatDateTime(report.resolved_at)}`
+                : ""}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {messages.length ? (
+        <div className="mt-3">
+          <button
+            type="button"
+            className="text-sm text-slate-300 hover:text-white underline"
+            onClick={() => setShowThread((v) => !v)}
+          >
+            {showThread ? "Hide" : "Show"} conversation ({messages.length})
+          </button>
+          {showThread ? (
+            <div className="mt-2 flex flex-col gap-2 max-h-80 overflow-y-auto">
+              {messages.map((m) => (
+                <div
+                  key={m.id}
+                  className={`rounded-xl border px-3 py-2 text-sm ${
+                    m.sender_id === report.reported_user_id
+                      ? "border-red-500/30 bg-red-500/5"
+                      : "border-slate-800 bg-slate-950/40"
+                  }`}
+                >
+                  <div className="text-xs text-slate-500">
+                    {m.sender_id === report.reported_user_id
+                      ? "Reported user"
+                      : "Reporter"}{" "}
+                    · {formatDateTime(m.created_at)}
+                  </div>
+                  <div className="text-slate-200 whitespace-pre-line">
+                    {m.message || "📎 Attachment"}
+                  </div>
+                  {m.attachments.length ? (
+                    <div className="text-xs text-slate-500 mt-1">
+                      {m.attachments.length} attachment
+                      {m.attachments.length === 1 ? "" : "s"}
+                    </div>
+                  ) : null}
+                </div>
+              ))}
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchAuditLog } from "../../../lib/db/moderation";
+import { AuditLogTable } from "../components/AuditLogTable";
+
+export function AdminAuditPage() {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin-audit"],
+    queryFn: () => fetchAuditLog(),
+  });
+
+  return (
+    <div className="mt-6">
+      <p className="text-sm text-slate-400 mb-4">
+        Every moderation action, newest first.
+      </p>
+      {isLoading ? (
+        <div className="text-slate-400">Loading…</div>
+      ) : error ? (
+        <div className="text-red-300">
+          {(error as Error).message ?? "Could not load the audit log."}
+        </div>
+      ) : (
+        <AuditLogTable actions={data ?? []} />
+      )}
+    </div>
+  );
+}
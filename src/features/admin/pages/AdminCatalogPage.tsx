@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  createBrand,
+  createModel,
+  deleteBrand,
+  deleteModel,
+  fetchCatalogOverview,
+  mergeBrands,
+  mergeModels,
+  normalizeListings,
+  renameBrand,
+  renameModel,
+} from "../../../lib/db/catalogAdmin";
+import type { CatalogMismatch } from "../../../lib/db/catalogAdmin";
+import { useAdminId } from "../adminContext";
+import { CatalogEntryRow } from "../components/CatalogEntryRow";
+
+export function AdminCatalogPage() {
+  const adminId = useAdminId();
+  const qc = useQueryClient();
+  const [openBrandId, setOpenBrandId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin-catalog"],
+    queryFn: fetchCatalogOverview,
+  });
+
+  // Every catalog change can also relabel listings
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey: ["admin-catalog"] });
+    await qc.invalidateQueries({ queryKey: ["admin-audit"] });
+    await qc.invalidateQueries({ queryKey: ["brands"] });
+    await qc.invalidateQueries({ queryKey: ["models"] });
+    await qc.invalidateQueries({ queryKey: ["listing-makes"] });
+    await qc.invalidateQueries({ queryKey: ["admin-listings"] });
+    await qc.invalidateQueries({ queryKey: ["listings"] });
+    await qc.invalidateQueries({ queryKey: ["listing"] });
+  };
+
+  const change = useMutation({
+    mutationFn: (run: () => Promise<unknown>) => run(),
+    onMutate: () => setNotice(null),
+    onSuccess: refresh,
+  });
+
+  const normalize = useMutation({
+    mutationFn: (mismatches: CatalogMismatch[]) =>
+      normalizeListings(adminId, mismatches),
+    onMutate: () => setNotice(null),
+    onSuccess: async (changed) => {
+      setNotice(`Normalized ${changed} listing${changed === 1 ? "" : "s"}.`);
+      await refresh();
+    },
+  });
+
+  if (isLoading) return <div className="mt-6 text-slate-400">Loading…</div>;
+
+  if (error || !data) {
+    return (
+      <div className="mt-6 text-red-300">
+        {(error as Error)?.message ?? "Could not load the catalog."}
+      </div>
+    );
+  }
+
+  const busy = change.isPending || normalize.isPending;
+  const fixable = data.mismatches.filter((m) => m.suggestion);
+  const fixableCount = fixable.reduce((n, m) => n + m.count, 0);
+
+  return (
+    <div className="mt-6 flex flex-col gap-8">
+      {change.isError || normalize.isError ? (
+        <div className="text-red-300">
+          {((change.error ?? normalize.error) as Error).message ||
+            "Could not update the catalog."}
+        </div>
+      ) : null}
+      {notice ? <div className="text-emerald-300">{notice}</div> : null}
+
+      <section>
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div>
+            <h2 className="text-lg font-semibold">Listings not in catalog</h2>
+            <p className="text-sm text-slate-400 mt-1">
+              Make/model text that doesn’t exactly match a catalog entry.
+            </p>
+          </div>
+          {fixable.length ? (
+            <button
+              type="button"
+              className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm disabled:opacity-50"
+              disabled={busy}
+              onClick={() => normalize.mutate(fixable)}
+            >
+              Normalize {fixableCount} listing{fixableCount === 1 ? "" : "s"}
+            </button>
+          ) : null}
+        </div>
+
+        {data.mismatches.length ? (
+          <div className="mt-3 overflow-x-auto rounded-2xl border border-slate-800">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-900/60 text-slate-400 text-left">
+                <tr>
+                  <th className="px-3 py-2 font-normal">Make</th>
+                  <th className="px-3 py-2 font-normal">Model</th>
+                  <th className="px-3 py-2 font-normal">Listings</th>
+                  <th className="px-3 py-2 font-normal">Catalog match</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.mismatches.map((m) => (
+                  <tr
+                    key={`${m.make}\u0000${m.model}`}
+                    className="border-t border-slate-800"
+                  >
+                    <td className="px-3 py-2">{m.make}</td>
+                    <td className="px-3 py-2">{m.model}</td>
+                    <td className="px-3 py-2 text-slate-300">{m.count}</td>
+                    <td className="px-3 py-2">
+                      {m.suggestion ? (
+                        <span className="text-emerald-300">
+                          {m.suggestion.brand.name} {m.suggestion.model.name}
+                        </span>
+                      ) : (
+                        <span className="text-slate-500">
+                          None — add it below
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="mt-3 text-slate-400">
+            Every listing matches the catalog.
+          </div>
+        )}
+      </section>
+
+      <section>
+        <h2 className="text-lg font-semibold">Brands & models</h2>
+        <div className="mt-3">
+          <AddForm
+            placeholder="New brand"
+            busy={busy}
+            onAdd={(name) => change.mutate(() => createBrand(adminId, name))}
+          />
+        </div>
+
+        <div className="mt-4 flex flex-col gap-2">
+          {data.brands.map((brand) => {
+            const models = data.models.filter((m) => m.brand_id === brand.id);
+            const expanded = openBrandId === brand.id;
+            return (
+              <div
+                key={brand.id}
+                className="rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-2"
+              >
+                <CatalogEntryRow
+                  entry={brand}
+                  count={data.brandCounts[brand.id] ?? 0}
+                  mergeTargets={data.brands.filter((b) => b.id !== brand.id)}
+                  busy={busy}
+                  onRename={(name) =>
+                    change.mutate(() => renameBrand(adminId, brand, name))
+                  }
+                  onMerge={(targetId) =>
+                    change.mutate(() =>
+                      mergeBrands(
+                        adminId,
+                        brand,
+                        data.brands.find((b) => b.id === targetId)!,
+                      ),
+                    )
+                  }
+                  onDelete={() =>
+                    change.mutate(() => deleteBrand(adminId, brand))
+                  }
+                >
+                  <button
+                    type="button"
+                    className="text-xs text-slate-400 hover:text-white underline"
+                    onClick={() => setOpenBrandId(expanded ? null : brand.id)}
+                  >
+                    {expanded ? "Hide" : "Show"} models ({models.length})
+                  </button>
+                </CatalogEntryRow>
+
+                {expanded ? (
+                  <div className="mt-2 ml-4 pl-4 border-l border-slate-800">
+                    {models.map((model) => (
+                      <CatalogEntryRow
+                        key={model.id}
+                        entry={model}
+                        count={data.modelCounts[model.id] ?? 0}
+                        mergeTargets={models.filter((m) => m.id !== model.id)}
+                        busy={busy}
+                        onRename={(name) =>
+                          change.mutate(() =>
+                            renameModel(adminId, brand, model, name),
+                          )
+                        }
+                        onMerge={(targetId) =>
+                          change.mutate(() =>
+                            mergeModels(
+                              adminId,
+                              brand,
+                              model,
+                              models.find((m) => m.id === targetId)!,
+                            ),
+                          )
+                        }
+                        onDelete={() =>
+                          change.mutate(() =>
+                            deleteModel(adminId, brand, model),
+                          )
+                        }
+                      />
+                    ))}
+                    <div className="mt-2 mb-1">
+                      <AddForm
+                        placeholder={`New ${brand.name} model`}
+                        busy={busy}
+                        onAdd={(name) =>
+                          change.mutate(() => createModel(adminId, brand, name))
+                        }
+                      />
+                    </div>
+                  </div>
+                ) : null}
+              </div>
+            );
+          })}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function AddForm({
+  placeholder,
+  busy,
+  onAdd,
+}: {
+  placeholder: string;
+  busy: boolean;
+  onAdd: (name: string) => void;
+}) {
+  const [name, setName] = useState("");
+
+  return (
+    <form
+      className="flex items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        onAdd(name);
+        setName("");
+      }}
+    >
+      <input
+        className="rounded-lg border border-slate-800 bg-slate-900/40 px-3 py-1.5 text-sm text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600"
+        placeholder={placeholder}
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+      <button
+        type="submit"
+        className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50"
+        disabled={busy || !name.trim()}
+      >
+        Add
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,312 @@
+import { Fragment, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { featuredLabel, featuredState } from "../../../lib/db/featured";
+import {
+  deleteListings,
+  featureListing,
+  fetchAdminListings,
+  hideListings,
+  restoreListings,
+  unfeatureListing,
+} from "../../../lib/db/moderation";
+import type { FeatureSchedule } from "../../../lib/db/moderation";
+import {
+  STATUS_BADGE_CLASSES,
+  STATUS_LABELS,
+} from "../../listings/statusOptions";
+import { useAdminId } from "../adminContext";
+import { FeatureScheduleForm } from "../components/FeatureScheduleForm";
+
+const PAGE_SIZE = 25;
+
+type BulkAction = "hide" | "restore" | "delete";
+
+export function AdminListingsPage() {
+  const adminId = useAdminId();
+  const qc = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [schedulingId, setSchedulingId] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin-listings", search, page],
+    queryFn: () => fetchAdminListings({ search, page, pageSize: PAGE_SIZE }),
+  });
+
+  const rows = data?.rows ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE));
+  const selectedRows = rows.filter((r) => selected.has(r.id));
+
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey: ["admin-listings"] });
+    await qc.invalidateQueries({ queryKey: ["admin-audit"] });
+    await qc.invalidateQueries({ queryKey: ["admin-seller"] });
+    await qc.invalidateQueries({ queryKey: ["listings"] });
+    await qc.invalidateQueries({ queryKey: ["listing"] });
+    await qc.invalidateQueries({ queryKey: ["featured-listings"] });
+    await qc.invalidateQueries({ queryKey: ["my-listings"] });
+  };
+
+  const bulk = useMutation({
+    mutationFn: async (action: BulkAction) => {
+      const ids = selectedRows.map((r) => r.id);
+      if (action === "hide") await hideListings(adminId, ids);
+      else if (action === "restore") await restoreListings(adminId, ids);
+      else await deleteListings(adminId, selectedRows);
+    },
+    onSuccess: async () => {
+      setSelected(new Set());
+      setConfirmDelete(false);
+      await refresh();
+    },
+  });
+
+  const feature = useMutation({
+    mutationFn: (args: { id: string; schedule: FeatureSchedule | null }) =>
+      args.schedule
+        ? featureListing(adminId, args.id, args.schedule)
+        : unfeatureListing(adminId, args.id),
+    onSuccess: async () => {
+      setSchedulingId(null);
+      await refresh();
+    },
+  });
+
+  const toggle = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const allSelected = rows.length > 0 && selectedRows.length === rows.length;
+  const busy = bulk.isPending || feature.isPending;
+
+  return (
+    <div className="mt-6">
+      <input
+        className="w-full max-w-md rounded-lg border border-slate-800 bg-slate-900/40 px-3 py-2 text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600"
+        placeholder="Search make or model"
+        value={search}
+        onChange={(e) => {
+          setSearch(e.target.value);
+          setPage(1);
+          setSelected(new Set());
+        }}
+      />
+
+      <div className="mt-4 flex items-center gap-2 flex-wrap min-h-[40px]">
+        <span className="text-sm text-slate-400">
+          {selectedRows.length} selected
+        </span>
+        <button
+          type="button"
+          className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50"
+          disabled={!selectedRows.length || busy}
+          onClick={() => bulk.mutate("hide")}
+        >
+          Hide
+        </button>
+        <button
+          type="button"
+          className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm disabled:opacity-50"
+          disabled={!selectedRows.length || busy}
+          onClick={() => bulk.mutate("restore")}
+        >
+          Restore
+        </button>
+        {confirmDelete ? (
+          <>
+            <button
+              type="button"
+              className="px-3 py-1.5 rounded-lg bg-red-600 hover:bg-red-500 text-sm disabled:opacity-50"
+              disabled={!selectedRows.length || busy}
+              onClick={() => bulk.mutate("delete")}
+            >
+              Delete {selectedRows.length} permanently
+            </button>
+            <button
+              type="button"
+              className="text-sm text-slate-300 hover:text-white underline"
+              onClick={() => setConfirmDelete(false)}
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm text-red-300 disabled:opacity-50"
+            disabled={!selectedRows.length || busy}
+            onClick={() => setConfirmDelete(true)}
+          >
+            Delete…
+          </button>
+        )}
+      </div>
+
+      {bulk.isError || feature.isError ? (
+        <div className="mt-2 text-red-300">
+          {((bulk.error ?? feature.error) as Error).message ||
+            "Could not update listings."}
+        </div>
+      ) : null}
+
+      {isLoading ? (
+        <div className="mt-6 text-slate-400">Loading…</div>
+      ) : error ? (
+        <div className="mt-6 text-red-300">
+          {(error as Error).message ?? "Could not load listings."}
+        </div>
+      ) : !rows.length ? (
+        <div className="mt-6 text-slate-400">No listings found.</div>
+      ) : (
+        <>
+          <div className="mt-4 overflow-x-auto rounded-2xl border border-slate-800">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-900/60 text-slate-400 text-left">
+                <tr>
+                  <th className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all"
+                      checked={allSelected}
+                      onChange={() =>
+                        setSelected(
+                          allSelected
+                            ? new Set()
+                            : new Set(rows.map((r) => r.id)),
+                        )
+                      }
+                    />
+                  </th>
+                  <th className="px-3 py-2 font-normal">Listing</th>
+                  <th className="px-3 py-2 font-normal">Seller</th>
+                  <th className="px-3 py-2 font-normal">Status</th>
+                  <th className="px-3 py-2 font-normal">Featured</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((l) => (
+                  <Fragment key={l.id}>
+                    <tr className="border-t border-slate-800">
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          aria-label={`Select ${l.make} ${l.model}`}
+                          checked={selected.has(l.id)}
+                          onChange={() => toggle(l.id)}
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <Link
+                          to={`/listings/${l.id}`}
+                          className="text-blue-300 hover:underline"
+                        >
+                          {l.year} {l.make} {l.model}
+                        </Link>
+                        <div className="text-xs text-slate-500">
+                          ${Number(l.price).toLocaleString()} · listed{" "}
+                          {new Date(l.created_at).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="px-3 py-2">
+                        <Link
+                          to={`/admin/sellers/${l.seller_id}`}
+                          className="text-slate-300 hover:text-white underline"
+                        >
+                          {l.seller_id.slice(0, 8)}
+                        </Link>
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span
+                          className={`text-xs px-2 py-1 rounded-lg ${STATUS_BADGE_CLASSES[l.status]}`}
+                        >
+                          {STATUS_LABELS[l.status]}
+                        </span>
+                        {l.hidden_at ? (
+                          <span className="ml-2 text-xs px-2 py-1 rounded-lg bg-red-500/15 text-red-200">
+                            Hidden
+                          </span>
+                        ) : null}
+                      </td>
+                      <td className="px-3 py-2">
+                        <button
+                          type="button"
+                          className={`px-2 py-1 rounded-lg text-xs border disabled:opacity-50 ${
+                            featuredState(l) === "live"
+                              ? "border-amber-500/40 bg-amber-500/15 text-amber-200"
+                              : "border-slate-800 bg-slate-900/40 text-slate-400 hover:bg-slate-800"
+                          }`}
+                          disabled={busy}
+                          onClick={() =>
+                            setSchedulingId(schedulingId === l.id ? null : l.id)
+                          }
+                        >
+                          {l.is_featured
+                            ? `★ ${featuredLabel(l)} · P${l.featured_priority}`
+                            : "☆ Feature…"}
+                        </button>
+                      </td>
+                    </tr>
+                    {schedulingId === l.id ? (
+                      <tr className="bg-slate-900/40">
+                        <td />
+                        <td colSpan={4} className="px-3 py-3">
+                          <FeatureScheduleForm
+                            listing={l}
+                            busy={busy}
+                            onSave={(schedule) =>
+                              feature.mutate({ id: l.id, schedule })
+                            }
+                            onUnfeature={() =>
+                              feature.mutate({ id: l.id, schedule: null })
+                            }
+                            onCancel={() => setSchedulingId(null)}
+                          />
+                        </td>
+                      </tr>
+                    ) : null}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between mt-6">
+            <button
+              className="px-4 py-2 rounded-lg bg-slate-800 disabled:opacity-50"
+              disabled={page <= 1}
+              onClick={() => {
+                setPage(page - 1);
+                setSelected(new Set());
+              }}
+            >
+              Prev
+            </button>
+
+            <div className="text-sm text-slate-300">
+              Page {page} / {totalPages}
+            </div>
+
+            <button
+              className="px-4 py-2 rounded-lg bg-slate-800 disabled:opacity-50"
+              disabled={page >= totalPages}
+              onClick={() => {
+                setPage(page + 1);
+                setSelected(new Set());
+              }}
+            >
+              Next
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
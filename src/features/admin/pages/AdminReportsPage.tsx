@@ -0,0 +1,111 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import {
+  closeReport,
+  fetchReports,
+  hideListings,
+} from "../../../lib/db/moderation";
+import type { ReportStatus } from "../../../types/car";
+import { useAdminId } from "../adminContext";
+import { ReportCard } from "../components/ReportCard";
+
+const STATUS_TABS: { value: ReportStatus; label: string }[] = [
+  { value: "open", label: "Open" },
+  { value: "resolved", label: "Resolved" },
+  { value: "dismissed", label: "Dismissed" },
+];
+
+function isStatus(value: string | null): value is ReportStatus {
+  return STATUS_TABS.some((t) => t.value === value);
+}
+
+export function AdminReportsPage() {
+  const adminId = useAdminId();
+  const qc = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const statusParam = searchParams.get("status");
+  const status = isStatus(statusParam) ? statusParam : "open";
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin-reports", status],
+    queryFn: () => fetchReports(status),
+  });
+
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey: ["admin-reports"] });
+    await qc.invalidateQueries({ queryKey: ["admin-audit"] });
+  };
+
+  const close = useMutation({
+    mutationFn: (args: { id: string; status: "resolved" | "dismissed" }) =>
+      closeReport(adminId, args.id, args.status),
+    onSuccess: refresh,
+  });
+
+  const hide = useMutation({
+    mutationFn: (listingId: string) => hideListings(adminId, [listingId]),
+    onSuccess: async (_res, listingId) => {
+      await refresh();
+      await qc.invalidateQueries({ queryKey: ["admin-listings"] });
+      await qc.invalidateQueries({ queryKey: ["listing", listingId] });
+      await qc.invalidateQueries({ queryKey: ["listings"] });
+    },
+  });
+
+  const pickStatus = (next: ReportStatus) => {
+    const params = new URLSearchParams(searchParams);
+    if (next === "open") params.delete("status");
+    else params.set("status", next);
+    setSearchParams(params, { replace: true });
+  };
+
+  return (
+    <div className="mt-6">
+      <div className="flex flex-wrap gap-2">
+        {STATUS_TABS.map((t) => (
+          <button
+            key={t.value}
+            type="button"
+            onClick={() => pickStatus(t.value)}
+            className={`px-3 py-1.5 rounded-full text-sm border ${
+              status === t.value
+                ? "border-blue-500 bg-blue-500/15 text-blue-200"
+                : "border-slate-800 bg-slate-900/40 text-slate-300 hover:bg-slate-800"
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      {close.isError || hide.isError ? (
+        <div className="mt-4 text-red-300">
+          {((close.error ?? hide.error) as Error).message ||
+            "Could not update report."}
+        </div>
+      ) : null}
+
+      {isLoading ? (
+        <div className="mt-6 text-slate-400">Loading…</div>
+      ) : error ? (
+        <div className="mt-6 text-red-300">
+          {(error as Error).message ?? "Could not load reports."}
+        </div>
+      ) : !data?.length ? (
+        <div className="mt-6 text-slate-400">No {status} reports.</div>
+      ) : (
+        <div className="mt-6 flex flex-col gap-3">
+          {data.map((r) => (
+            <ReportCard
+              key={r.id}
+              report={r}
+              busy={close.isPending || hide.isPending}
+              onClose={(next) => close.mutate({ id: r.id, status: next })}
+              onHideListing={() => hide.mutate(r.listing_id)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
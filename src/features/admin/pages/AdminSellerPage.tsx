@@ -0,0 +1,150 @@
+import { Link, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  closeReport,
+  fetchSellerHistory,
+  hideListings,
+} from "../../../lib/db/moderation";
+import { featuredLabel } from "../../../lib/db/featured";
+import {
+  STATUS_BADGE_CLASSES,
+  STATUS_LABELS,
+} from "../../listings/statusOptions";
+import { useAdminId } from "../adminContext";
+import { AuditLogTable } from "../components/AuditLogTable";
+import { ReportCard } from "../components/ReportCard";
+
+export function AdminSellerPage() {
+  const { id } = useParams<{ id: string }>();
+  const adminId = useAdminId();
+  const qc = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["admin-seller", id],
+    enabled: !!id,
+    queryFn: () => fetchSellerHistory(id!),
+  });
+
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey: ["admin-seller", id] });
+    await qc.invalidateQueries({ queryKey: ["admin-reports"] });
+    await qc.invalidateQueries({ queryKey: ["admin-audit"] });
+  };
+
+  const close = useMutation({
+    mutationFn: (args: { id: string; status: "resolved" | "dismissed" }) =>
+      closeReport(adminId, args.id, args.status),
+    onSuccess: refresh,
+  });
+
+  const hide = useMutation({
+    mutationFn: (listingId: string) => hideListings(adminId, [listingId]),
+    onSuccess: async () => {
+      await refresh();
+      await qc.invalidateQueries({ queryKey: ["admin-listings"] });
+      await qc.invalidateQueries({ queryKey: ["listings"] });
+      await qc.invalidateQueries({ queryKey: ["listing"] });
+    },
+  });
+
+  if (isLoading) return <div className="mt-6 text-slate-400">Loading…</div>;
+
+  if (error || !data) {
+    return (
+      <div className="mt-6 text-red-300">
+        {(error as Error)?.message ?? "Could not load seller."}
+      </div>
+    );
+  }
+
+  const openReports = data.reports.filter((r) => r.status === "open").length;
+
+  return (
+    <div className="mt-6 flex flex-col gap-8">
+      <div>
+        <h2 className="text-xl font-semibold">Seller {id?.slice(0, 8)}</h2>
+        <p className="text-sm text-slate-400 mt-1">
+          {data.listings.length} listing{data.listings.length === 1 ? "" : "s"}{" "}
+          · {data.reports.length} report{data.reports.length === 1 ? "" : "s"} (
+          {openReports} open)
+        </p>
+      </div>
+
+      <section>
+        <h3 className="font-semibold">Listings</h3>
+        {data.listings.length ? (
+          <div className="mt-3 flex flex-col gap-2">
+            {data.listings.map((l) => (
+              <div
+                key={l.id}
+                className="rounded-xl border border-slate-800 bg-slate-900/40 px-4 py-3 flex items-center justify-between gap-4 flex-wrap"
+              >
+                <div>
+                  <Link
+                    to={`/listings/${l.id}`}
+                    className="text-blue-300 hover:underline"
+                  >
+                    {l.year} {l.make} {l.model}
+                  </Link>
+                  <div className="text-xs text-slate-500">
+                    ${Number(l.price).toLocaleString()} · listed{" "}
+                    {new Date(l.created_at).toLocaleDateString()}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <span
+                    className={`text-xs px-2 py-1 rounded-lg ${STATUS_BADGE_CLASSES[l.status]}`}
+                  >
+                    {STATUS_LABELS[l.status]}
+                  </span>
+                  {l.hidden_at ? (
+                    <span className="text-xs px-2 py-1 rounded-lg bg-red-500/15 text-red-200">
+                      Hidden
+                    </span>
+                  ) : null}
+                  {l.is_featured ? (
+                    <span className="text-xs px-2 py-1 rounded-lg bg-amber-500/15 text-amber-200">
+                      {featuredLabel(l)}
+                    </span>
+                  ) : null}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="mt-3 text-slate-400">No listings.</div>
+        )}
+      </section>
+
+      <section>
+        <h3 className="font-semibold">Reports</h3>
+        {close.isError || hide.isError ? (
+          <div className="mt-2 text-red-300">
+            {((close.error ?? hide.error) as Error).message ||
+              "Could not update report."}
+          </div>
+        ) : null}
+        {data.reports.length ? (
+          <div className="mt-3 flex flex-col gap-3">
+            {data.reports.map((r) => (
+              <ReportCard
+                key={r.id}
+                report={r}
+                busy={close.isPending || hide.isPending}
+                onClose={(next) => close.mutate({ id: r.id, status: next })}
+                onHideListing={() => hide.mutate(r.listing_id)}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="mt-3 text-slate-400">No reports.</div>
+        )}
+      </section>
+
+      <section>
+        <h3 className="font-semibold mb-3">Admin actions</h3>
+        <AuditLogTable actions={data.actions} />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  canChange,
+  canConfirm,
+  cancelAppointment,
+  confirmAppointment,
+  fetchOpenSlots,
+  formatSlot,
+  rescheduleAppointment,
+} from "../../../lib/db/appointments";
+import type { Slot } from "../../../lib/db/appointments";
+import type { Appointment, AppointmentStatus } from "../../../types/car";
+import { appointmentIcs } from "../ics";
+import { downloadFile } from "../../../lib/download";
+import { SlotPicker } from "./SlotPicker";
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  requested: "Awaiting confirmation",
+  confirmed: "Confirmed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_CLASSES: Record<AppointmentStatus, string> = {
+  requested: "bg-amber-500/15 text-amber-200 border-amber-500/30",
+  confirmed: "bg-emerald-500/15 text-emerald-200 border-emerald-500/30",
+  cancelled: "bg-slate-700/40 text-slate-400 border-slate-600",
+};
+
+type Props = {
+  appointment: Appointment;
+  userId: string;
+  /** e.g. "2019 Honda Civic"; used for the calendar entry. */
+  listingTitle: string;
+  onChanged: () => void | Promise<void>;
+};
+
+export function AppointmentCard({
+  appointment: appt,
+  userId,
+  listingTitle,
+  onChanged,
+}: Props) {
+  const [rescheduling, setRescheduling] = useState(false);
+  const [slot, setSlot] = useState<Slot | null>(null);
+
+  const { data: slots } = useQuery({
+    queryKey: ["open-slots", appt.listing_id],
+    queryFn: () => fetchOpenSlots(appt.listing_id),
+    enabled: rescheduling,
+  });
+
+  const action = useMutation({
+    mutationFn: async (
+      a: { kind: "confirm" | "cancel" } | { kind: "reschedule"; slot: Slot },
+    ) => {
+      if (a.kind === "reschedule")
+        await rescheduleAppointment(appt, userId, a.slot);
+      else if (a.kind === "confirm") await confirmAppointment(appt, userId);
+      else await cancelAppointment(appt, userId);
+    },
+    onSuccess: async () => {
+      setRescheduling(false);
+      setSlot(null);
+      await onChanged();
+    },
+  });
+
+  const exportIcs = () =>
+    downloadFile(
+      `test-drive-${appt.starts_at.slice(0, 10)}.ics`,
+      "text/calendar;charset=utf-8",
+      appointmentIcs(appt, {
+        title: `Test drive: ${listingTitle}`,
+        description: appt.note ?? undefined,
+      }),
+    );
+
+  return (
+    <div className="rounded-xl border border-sky-500/30 bg-sky-500/5 p-3 min-w-[240px]">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-xs uppercase tracking-wide text-slate-400">
+            Test drive
+          </div>
+          <div className="font-semibold">{formatSlot(appt)}</div>
+        </div>
+        <span
+          className={`text-xs px-2 py-0.5 rounded-full border ${STATUS_CLASSES[appt.status]}`}
+        >
+          {STATUS_LABELS[appt.status]}
+        </span>
+      </div>
+
+      {appt.note ? (
+        <div className="mt-2 text-sm text-slate-200 whitespace-pre-line">
+          {appt.note}
+        </div>
+      ) : null}
+
+      {!rescheduling ? (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {canConfirm(appt, userId) ? (
+            <button
+              className="px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-sm"
+              onClick={() => action.mutate({ kind: "confirm" })}
+              disabled={action.isPending}
+            >
+              Confirm
+            </button>
+          ) : null}
+          {canChange(appt, userId) ? (
+            <>
+              <button
+                className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-sm"
+                onClick={() => setRescheduling(true)}
+                disabled={action.isPending}
+              >
+                Reschedule
+              </button>
+              <button
+                className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-sm"
+                onClick={() => action.mutate({ kind: "cancel" })}
+                disabled={action.isPending}
+              >
+                Cancel
+              </button>
+            </>
+          ) : null}
+          {appt.status === "confirmed" ? (
+            <button
+              className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+              onClick={exportIcs}
+            >
+              Add to calendar (.ics)
+            </button>
+          ) : null}
+        </div>
+      ) : (
+        <div className="mt-3">
+          <SlotPicker
+            slots={slots ?? []}
+            selected={slot}
+            onSelect={setSlot}
+            disabled={action.isPending}
+          />
+          <div className="mt-3 flex gap-2">
+            <button
+              className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+              onClick={() => setRescheduling(false)}
+              disabled={action.isPending}
+            >
+              Back
+            </button>
+            <button
+              className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-sm"
+              onClick={() =>
+                slot && action.mutate({ kind: "reschedule", slot })
+              }
+              disabled={!slot || action.isPending}
+            >
+              Propose this time
+            </button>
+          </div>
+        </div>
+      )}
+
+      {action.isError ? (
+        <div className="mt-2 text-sm text-amber-200">
+          {(action.error as Error)?.message ?? "Could not update"}
+        </div>
+      ) : null}
+    </div>
+  );
+}
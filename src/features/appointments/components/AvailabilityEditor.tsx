@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  addAvailabilityWindow,
+  fetchAvailability,
+  formatSlot,
+  removeAvailabilityWindow,
+} from "../../../lib/db/appointments";
+
+type Props = {
+  listingId: string;
+  sellerId: string;
+};
+
+/**
+ * Seller-side list of availability windows with a small add form.
+ */
+export function AvailabilityEditor({ listingId, sellerId }: Props) {
+  const qc = useQueryClient();
+  const [date, setDate] = useState("");
+  const [from, setFrom] = useState("10:00");
+  const [to, setTo] = useState("12:00");
+
+  const { data: windows, isLoading } = useQuery({
+    queryKey: ["availability", listingId],
+    queryFn: () => fetchAvailability(listingId),
+  });
+
+  const refresh = async () => {
+    await qc.invalidateQueries({ queryKey: ["availability", listingId] });
+    await qc.invalidateQueries({ queryKey: ["open-slots", listingId] });
+  };
+
+  const add = useMutation({
+    mutationFn: () =>
+      // Local wall-clock times; Date turns them into the right instant
+      addAvailabilityWindow(
+        listingId,
+        sellerId,
+        new Date(`${date}T${from}`),
+        new Date(`${date}T${to}`),
+      ),
+    onSuccess: refresh,
+  });
+
+  const remove = useMutation({
+    mutationFn: removeAvailabilityWindow,
+    onSuccess: refresh,
+  });
+
+  return (
+    <div>
+      <div className="text-sm text-slate-400">
+        Add times you can show the car. Buyers pick 30-minute slots inside them.
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-end gap-2">
+        <label className="text-xs text-slate-400">
+          Date
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="mt-1 block rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm text-slate-100"
+          />
+        </label>
+        <label className="text-xs text-slate-400">
+          From
+          <input
+            type="time"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className="mt-1 block rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm text-slate-100"
+          />
+        </label>
+        <label className="text-xs text-slate-400">
+          To
+          <input
+            type="time"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className="mt-1 block rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm text-slate-100"
+          />
+        </label>
+        <button
+          type="button"
+          className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-sm"
+          onClick={() => add.mutate()}
+          disabled={!date || add.isPending}
+        >
+          Add window
+        </button>
+      </div>
+
+      {add.isError ? (
+        <div className="mt-2 text-sm text-amber-200">
+          {(add.error as Error)?.message ?? "Could not add window"}
+        </div>
+      ) : null}
+
+      <div className="mt-4 flex flex-col gap-2">
+        {isLoading ? (
+          <div className="text-sm text-slate-400">Loading…</div>
+        ) : !windows?.length ? (
+          <div className="text-sm text-slate-400">
+            No upcoming availability.
+          </div>
+        ) : (
+          windows.map((w) => (
+            <div
+              key={w.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-slate-800 px-3 py-2 text-sm"
+            >
+              <span>{formatSlot(w)}</span>
+              <button
+                type="button"
+                className="text-xs px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+                onClick={() => remove.mutate(w.id)}
+                disabled={remove.isPending}
+              >
+                Remove
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
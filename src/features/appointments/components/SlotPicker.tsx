@@ -0,0 +1,68 @@
+import type { Slot } from "../../../lib/db/appointments";
+
+type Props = {
+  slots: Slot[];
+  selected: Slot | null;
+  onSelect: (slot: Slot) => void;
+  disabled?: boolean;
+};
+
+function dayLabel(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+/**
+ * Open slots grouped by day, one button per start time.
+ */
+export function SlotPicker({ slots, selected, onSelect, disabled }: Props) {
+  if (!slots.length) {
+    return (
+      <div className="text-sm text-slate-400">
+        No open times right now. Message the seller to suggest one.
+      </div>
+    );
+  }
+
+  const days = new Map<string, Slot[]>();
+  for (const s of slots) {
+    const day = dayLabel(s.starts_at);
+    days.set(day, [...(days.get(day) ?? []), s]);
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      {Array.from(days.entries()).map(([day, daySlots]) => (
+        <div key={day}>
+          <div className="text-xs text-slate-400">{day}</div>
+          <div className="mt-1 flex flex-wrap gap-2">
+            {daySlots.map((s) => {
+              const active = selected?.starts_at === s.starts_at;
+              return (
+                <button
+                  key={s.starts_at}
+                  type="button"
+                  className={`px-3 py-1.5 rounded-lg text-sm border ${
+                    active
+                      ? "bg-blue-600 border-blue-500 text-white"
+                      : "bg-slate-900/40 border-slate-800 text-slate-200 hover:bg-slate-800"
+                  }`}
+                  onClick={() => onSelect(s)}
+                  disabled={disabled}
+                >
+                  {new Date(s.starts_at).toLocaleTimeString(undefined, {
+                    hour: "numeric",
+                    minute: "2-digit",
+                  })}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchOpenSlots,
+  formatSlot,
+  requestAppointment,
+} from "../../../lib/db/appointments";
+import type { Slot } from "../../../lib/db/appointments";
+import type { CarListing } from "../../../types/car";
+import { useLoginPath } from "../../auth/useLoginPath";
+import { AvailabilityEditor } from "./AvailabilityEditor";
+import { SlotPicker } from "./SlotPicker";
+
+type Props = {
+  listing: CarListing;
+  userId: string | null | undefined;
+};
+
+/**
+ * "Schedule a test drive" on ListingDetailsPage: the seller manages their
+ * availability, everyone else picks a slot and sends a request to the thread.
+ */
+export function TestDriveSection({ listing, userId }: Props) {
+  const qc = useQueryClient();
+  const isOwner = !!userId && userId === listing.seller_id;
+  const [slot, setSlot] = useState<Slot | null>(null);
+  const [note, setNote] = useState("");
+  const [requested, setRequested] = useState<Slot | null>(null);
+  const loginTo = useLoginPath();
+
+  const { data: slots, isLoading } = useQuery({
+    queryKey: ["open-slots", listing.id],
+    queryFn: () => fetchOpenSlots(listing.id),
+    enabled: !isOwner && listing.status === "active" && !listing.hidden_at,
+  });
+
+  const request = useMutation({
+    mutationFn: async () => {
+      if (!userId) throw new Error("Please sign in to book a test drive.");
+      if (!slot) throw new Error("Pick a time.");
+      await requestAppointment(
+        { listingId: listing.id, buyerId: userId, sellerId: listing.seller_id },
+        userId,
+        slot,
+        note,
+      );
+      return slot;
+    },
+    onSuccess: async (booked) => {
+      setRequested(booked);
+      setSlot(null);
+      setNote("");
+      await qc.invalidateQueries({ queryKey: ["open-slots", listing.id] });
+      await qc.invalidateQueries({ queryKey: ["inbox", userId] });
+    },
+  });
+
+  if (!isOwner && (listing.status !== "active" || listing.hidden_at))
+    return null;
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <h2 className="font-semibold">
+        {isOwner ? "Test-drive availability" : "Schedule a test drive"}
+      </h2>
+
+      <div className="mt-3">
+        {isOwner ? (
+          <AvailabilityEditor
+            listingId={listing.id}
+            sellerId={listing.seller_id}
+          />
+        ) : requested ? (
+          <div className="text-sm text-emerald-200">
+            Requested {formatSlot(requested)}. The seller will confirm in{" "}
+            <Link
+              to={`/messages/${listing.id}/${userId}`}
+              className="underline hover:text-white"
+            >
+              your conversation
+            </Link>
+            .
+          </div>
+        ) : isLoading ? (
+          <div className="text-sm text-slate-400">Loading times…</div>
+        ) : (
+          <>
+            <SlotPicker
+              slots={slots ?? []}
+              selected={slot}
+              onSelect={setSlot}
+              disabled={request.isPending}
+            />
+            {slot ? (
+              <div className="mt-4 flex flex-col gap-2">
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Note for the seller (optional)"
+                  className="rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600"
+                  maxLength={200}
+                  disabled={request.isPending}
+                />
+                <div>
+                  {userId ? (
+                    <button
+                      type="button"
+                      className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
+                      onClick={() => request.mutate()}
+                      disabled={request.isPending}
+                    >
+                      {request.isPending
+                        ? "Requesting…"
+                        : `Request ${formatSlot(slot)}`}
+                    </button>
+                  ) : (
+                    <Link
+                      to={loginTo}
+                      className="inline-block px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500"
+                    >
+                      Sign in to book
+                    </Link>
+                  )}
+                </div>
+              </div>
+            ) : null}
+          </>
+        )}
+
+        {request.isError ? (
+          <div className="mt-2 text-sm text-amber-200">
+            {(request.error as Error)?.message ?? "Could not request a time"}
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { appointmentIcs } from "./ics";
+import type { Appointment } from "../../types/car";
+
+const appt = {
+  id: "a1",
+  starts_at: "2024-05-01T17:30:00.000Z",
+  ends_at: "2024-05-01T18:00:00.000Z",
+} as Appointment;
+
+const encoder = new TextEncoder();
+
+function unfold(ics: string) {
+  return ics.replace(/\r\n /g, "");
+}
+
+describe("appointmentIcs", () => {
+  it("escapes line breaks, including bare CRs", () => {
+    const ics = appointmentIcs(appt, {
+      title: "Test drive",
+      description: "Bring your licence\r\nPark out front\rThanks",
+    });
+
+    expect(unfold(ics)).toContain(
+      "DESCRIPTION:Bring your licence\\nPark out front\\nThanks\r\n",
+    );
+  });
+
+  it("folds lines longer than 75 octets without splitting characters", () => {
+    const description = "Ünïcödé ".repeat(30).trim();
+    const ics = appointmentIcs(appt, { title: "Test drive", description });
+
+    for (const line of ics.split("\r\n")) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description}\r\n`);
+  });
+
+  it("writes database timestamps as UTC date-times", () => {
+    const ics = appointmentIcs(
+      {
+        ...appt,
+        starts_at: "2024-05-01T19:30:00.123456+02:00",
+        ends_at: "2024-05-01T18:00:00.654321+00:00",
+      },
+      { title: "Test drive" },
+    );
+
+    expect(ics).toContain("DTSTART:20240501T173000Z\r\n");
+    expect(ics).toContain("DTEND:20240501T180000Z\r\n");
+  });
+});
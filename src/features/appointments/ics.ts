@@ -0,0 +1,78 @@
+// src/features/appointments/ics.ts
+import type { Appointment } from "../../types/car";
+
+// Minimal RFC 5545 calendar file for one confirmed appointment; enough for
+// Google Calendar, Apple Calendar and Outlook to import.
+
+function icsDate(iso: string) {
+  // DB timestamps come as 2024-05-01T17:30:00.123456+00:00, so normalise to
+  // UTC first: -> 2024-05-01T17:30:00.123Z -> 20240501T173000Z
+  return new Date(iso)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+function escapeText(text: string) {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/\r\n|\r|\n/g, "\\n")
+    .replace(/[,;]/g, (c) => `\\${c}`);
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Folds a content line into chunks of at most 75 octets, each continuation
+ * starting with a space. Never splits a multi-byte character.
+ */
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const ch of line) {
+    const size = encoder.encode(ch).length;
+    // the leading space counts towards a continuation line's 75
+    const limit = parts.length ? 74 : 75;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = "";
+      octets = 0;
+    }
+    current += ch;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+export function appointmentIcs(
+  appt: Appointment,
+  details: { title: string; description?: string; location?: string },
+) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Nexus Cars//Test drives//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${appt.id}@nexus-cars`,
+    `DTSTAMP:${icsDate(new Date().toISOString())}`,
+    `DTSTART:${icsDate(appt.starts_at)}`,
+    `DTEND:${icsDate(appt.ends_at)}`,
+    `SUMMARY:${escapeText(details.title)}`,
+    details.description
+      ? `DESCRIPTION:${escapeText(details.description)}`
+      : null,
+    details.location ? `LOCATION:${escapeText(details.location)}` : null,
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return (
+    lines
+      .filter((l): l is string => l !== null)
+      .map(foldLine)
+      .join("\r\n") + "\r\n"
+  );
+}
@@ -0,0 +1,28 @@
+import { createContext, useContext } from "react";
+import type { AuthUser } from "../../lib/backend/types";
+
+export type AuthState = {
+  user: AuthUser | null;
+  userId: string | null;
+  /** True until the stored session has been read. */
+  loading: boolean;
+  /** `profiles.is_admin`; false while signed out or still loading. */
+  isAdmin: boolean;
+  roleLoading: boolean;
+};
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export function useAuth() {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error("useAuth must be used inside <AuthProvider>.");
+  return auth;
+}
+
+/** The signed-in user, for screens rendered under <RequireAuth>. */
+export function useSignedInUser() {
+  const { user } = useAuth();
+  if (!user)
+    throw new Error("useSignedInUser must be used under <RequireAuth>.");
+  return user;
+}
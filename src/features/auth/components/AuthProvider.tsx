@@ -0,0 +1,61 @@
+import { useEffect, useMemo } from "react";
+import type { ReactNode } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchIsAdmin } from "../../../lib/admin";
+import { fetchAuthUser, onAuthChange } from "../../../lib/auth";
+import type { AuthUser } from "../../../lib/backend/types";
+import { AuthContext } from "../authContext";
+import type { AuthState } from "../authContext";
+
+/**
+ * Single source of the current session. The user lives in the ["auth-user"]
+ * query and is replaced on every auth event, so signing in or out in any tab,
+ * or through an email link, updates every screen at once.
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const qc = useQueryClient();
+
+  const { data: user, isLoading } = useQuery({
+    queryKey: ["auth-user"],
+    queryFn: fetchAuthUser,
+    staleTime: Infinity,
+  });
+
+  useEffect(
+    () =>
+      onAuthChange((next) => {
+        const prev = qc.getQueryData<AuthUser | null>(["auth-user"]);
+        qc.setQueryData(["auth-user"], next);
+        // Drop the previous user's cached data (inbox, favorites, …) so the
+        // next person on this browser never sees it.
+        if (prev && prev.id !== next?.id) {
+          qc.removeQueries({
+            predicate: (q) => q.queryKey.includes(prev.id),
+          });
+        }
+      }),
+    [qc],
+  );
+
+  const userId = user?.id ?? null;
+
+  const { data: isAdmin, isLoading: roleLoading } = useQuery({
+    queryKey: ["is-admin", userId],
+    queryFn: () => fetchIsAdmin(userId),
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const value = useMemo<AuthState>(
+    () => ({
+      user: user ?? null,
+      userId,
+      loading: isLoading,
+      isAdmin: !!isAdmin,
+      roleLoading: !!userId && roleLoading,
+    }),
+    [user, userId, isLoading, isAdmin, roleLoading],
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { screen } from "@testing-library/react";
+import { useLocation } from "react-router-dom";
+import { signInWithPassword } from "../../../lib/auth";
+import { renderRoute } from "../../../test/render";
+import { RequireAuth } from "./RequireAuth";
+
+function LoginStandIn() {
+  const { search } = useLocation();
+  return <div>Login {search}</div>;
+}
+
+describe("RequireAuth", () => {
+  it("sends signed-out visitors to /login and back afterwards", async () => {
+    renderRoute(<RequireAuth>Saved cars</RequireAuth>, {
+      path: "/favorites",
+      routes: { "/login": <LoginStandIn /> },
+    });
+
+    expect(await screen.findByText("Login ?next=%2Ffavorites")).toBeDefined();
+    expect(screen.queryByText("Saved cars")).toBeNull();
+  });
+
+  it("renders the page for signed-in users", async () => {
+    await signInWithPassword("demo@nexus-cars.local", "password");
+
+    renderRoute(<RequireAuth>Saved cars</RequireAuth>, { path: "/favorites" });
+
+    expect(await screen.findByText("Saved cars")).toBeDefined();
+  });
+
+  it("keeps non-admins out of admin routes", async () => {
+    await signInWithPassword("demo@nexus-cars.local", "password");
+
+    renderRoute(<RequireAuth role="admin">Moderation</RequireAuth>, {
+      path: "/admin",
+    });
+
+    expect(
+      await screen.findByText("You don’t have access to this page."),
+    ).toBeDefined();
+  });
+});
@@ -0,0 +1,36 @@
+import { Navigate, Outlet } from "react-router-dom";
+import type { ReactNode } from "react";
+import { useAuth } from "../authContext";
+import { useLoginPath } from "../useLoginPath";
+
+type Props = {
+  role?: "admin";
+  children?: ReactNode; // defaults to the nested routes
+};
+
+/**
+ * Route guard: signed-out visitors go to /login and come back here afterwards;
+ * `role="admin"` additionally requires `profiles.is_admin`.
+ */
+export function RequireAuth({ role, children }: Props) {
+  const { userId, loading, isAdmin, roleLoading } = useAuth();
+  const loginTo = useLoginPath();
+
+  if (loading || (role && roleLoading)) {
+    return (
+      <div className="max-w-5xl mx-auto px-6 py-8 text-slate-400">Loading…</div>
+    );
+  }
+
+  if (!userId) return <Navigate to={loginTo} replace />;
+
+  if (role === "admin" && !isAdmin) {
+    return (
+      <div className="max-w-5xl mx-auto px-6 py-8 text-slate-300">
+        You don’t have access to this page.
+      </div>
+    );
+  }
+
+  return children ?? <Outlet />;
+}
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { Navigate, useSearchParams } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
+import {
+  MIN_PASSWORD_LENGTH,
+  safeNext,
+  sendMagicLink,
+  sendPasswordReset,
+  signInWithPassword,
+  signInWithProvider,
+  signUpWithPassword,
+} from "../../../lib/auth";
+import type { OAuthProvider } from "../../../lib/backend/types";
+import { useAuth } from "../authContext";
+
+type Mode = "link" | "password" | "signup" | "forgot";
+
+const PROVIDERS: { id: OAuthProvider; label: string }[] = [
+  { id: "google", label: "Continue with Google" },
+  { id: "github", label: "Continue with GitHub" },
+];
+
+const SUBMIT_LABEL: Record<Mode, string> = {
+  link: "Email me a sign-in link",
+  password: "Sign in",
+  signup: "Create account",
+  forgot: "Send reset link",
+};
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-slate-800 bg-slate-900/40 px-3 py-2 text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600";
+
+export function LoginPage() {
+  const [params] = useSearchParams();
+  const next = safeNext(params.get("next"));
+
+  const [mode, setMode] = useState<Mode>("link");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [sent, setSent] = useState<string | null>(null);
+
+  // Once a session appears (password sign-in, or an email link opened in this
+  // tab) the <Navigate> below takes the user back to `next`.
+  const { user, loading } = useAuth();
+
+  const provider = useMutation({
+    mutationFn: (id: OAuthProvider) => signInWithProvider(id, next),
+  });
+
+  const submit = useMutation({
+    mutationFn: async () => {
+      if (!email.trim()) throw new Error("Enter your email address.");
+      switch (mode) {
+        case "link":
+          await sendMagicLink(email, next);
+          return `Check ${email.trim()} for a sign-in link.`;
+        case "forgot":
+          await sendPasswordReset(email);
+          return `If ${email.trim()} has an account, a reset link is on its way.`;
+        case "signup": {
+          const { needsConfirmation } = await signUpWithPassword(
+            email,
+            password,
+            next,
+          );
+          if (needsConfirmation)
+            return `Confirm your address from the email we sent to ${email.trim()}.`;
+          return null;
+        }
+        case "password":
+          await signInWithPassword(email, password);
+          return null;
+      }
+    },
+    onSuccess: setSent,
+  });
+
+  const switchMode = (m: Mode) => {
+    setMode(m);
+    setSent(null);
+    submit.reset();
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-md mx-auto px-6 py-8 text-slate-400">Loading…</div>
+    );
+  }
+
+  if (user) return <Navigate to={next} replace />;
+
+  const busy = provider.isPending || submit.isPending;
+  const error = provider.error ?? submit.error;
+  const usesPassword = mode === "password" || mode === "signup";
+
+  return (
+    <div className="max-w-md mx-auto px-6 py-8">
+      <h1 className="text-2xl font-semibold">
+        {mode === "signup"
+          ? "Create an account"
+          : mode === "forgot"
+            ? "Reset your password"
+            : "Sign in"}
+      </h1>
+      {next !== "/" && mode !== "forgot" ? (
+        <p className="text-sm text-slate-400 mt-1">
+          You’ll be taken back where you were afterwards.
+        </p>
+      ) : null}
+
+      <div className="mt-6 flex flex-col gap-2">
+        {PROVIDERS.map((p) => (
+          <button
+            key={p.id}
+            type="button"
+            className="w-full px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+            disabled={busy}
+            onClick={() => provider.mutate(p.id)}
+          >
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="my-6 flex items-center gap-3 text-xs text-slate-500">
+        <div className="flex-1 border-t border-slate-800" />
+        or use your email
+        <div className="flex-1 border-t border-slate-800" />
+      </div>
+
+      {mode === "link" || mode === "password" ? (
+        <div className="flex gap-2 mb-4">
+          {(["link", "password"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              className={`px-3 py-1.5 rounded-lg text-sm border border-slate-800 ${
+                mode === m
+                  ? "bg-slate-800 text-white"
+                  : "bg-slate-900/40 text-slate-300 hover:bg-slate-800"
+              }`}
+              onClick={() => switchMode(m)}
+            >
+              {m === "link" ? "Email link" : "Password"}
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {sent ? (
+        <div className="rounded-xl border border-emerald-900 bg-emerald-950/40 p-4 text-sm text-emerald-200">
+          {sent}
+          <button
+            type="button"
+            className="block mt-2 text-emerald-300 hover:underline"
+            onClick={() => switchMode(mode === "forgot" ? "password" : mode)}
+          >
+            {mode === "forgot" ? "Back to sign in" : "Use a different email"}
+          </button>
+        </div>
+      ) : (
+        <form
+          className="flex flex-col gap-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit.mutate();
+          }}
+        >
+          <label className="text-sm text-slate-300">
+            Email
+            <input
+              type="email"
+              autoComplete="email"
+              className={inputClass}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              required
+            />
+          </label>
+
+          {usesPassword ? (
+            <label className="text-sm text-slate-300">
+              Password
+              <input
+                type="password"
+                autoComplete={
+                  mode === "signup" ? "new-password" : "current-password"
+                }
+                className={inputClass}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                minLength={mode === "signup" ? MIN_PASSWORD_LENGTH : undefined}
+                required
+              />
+            </label>
+          ) : null}
+
+          <button
+            type="submit"
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
+            disabled={busy}
+          >
+            {submit.isPending ? "Please wait…" : SUBMIT_LABEL[mode]}
+          </button>
+        </form>
+      )}
+
+      {error ? (
+        <div className="mt-3 text-sm text-red-300">
+          {(error as Error).message || "Something went wrong. Try again."}
+        </div>
+      ) : null}
+
+      <div className="mt-6 flex flex-col gap-1 text-sm">
+        {mode === "password" ? (
+          <button
+            type="button"
+            className="text-left text-blue-300 hover:underline"
+            onClick={() => switchMode("forgot")}
+          >
+            Forgot your password?
+          </button>
+        ) : null}
+        {mode === "signup" || mode === "forgot" ? (
+          <button
+            type="button"
+            className="text-left text-blue-300 hover:underline"
+            onClick={() => switchMode("password")}
+          >
+            Already have an account? Sign in
+          </button>
+        ) : (
+          <button
+            type="button"
+            className="text-left text-blue-300 hover:underline"
+            onClick={() => switchMode("signup")}
+          >
+            New here? Create an account with a password
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
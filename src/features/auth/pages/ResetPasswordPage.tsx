@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useMutation } from "@tanstack/react-query";
+import { MIN_PASSWORD_LENGTH, updatePassword } from "../../../lib/auth";
+import { useAuth } from "../authContext";
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-slate-800 bg-slate-900/40 px-3 py-2 text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600";
+
+/**
+ * Landing page for password recovery emails; following the link has already
+ * signed the user in.
+ */
+export function ResetPasswordPage() {
+  const navigate = useNavigate();
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  const { user, loading } = useAuth();
+
+  const save = useMutation({
+    mutationFn: async () => {
+      if (password !== confirm) throw new Error("Passwords don’t match.");
+      await updatePassword(password);
+    },
+    onSuccess: () => navigate("/account", { replace: true }),
+  });
+
+  if (loading) {
+    return (
+      <div className="max-w-md mx-auto px-6 py-8 text-slate-400">Loading…</div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="max-w-md mx-auto px-6 py-8">
+        <h1 className="text-2xl font-semibold">Reset your password</h1>
+        <p className="text-slate-400 mt-2">
+          This reset link has expired or was already used.
+        </p>
+        <Link
+          to="/login"
+          className="text-blue-400 hover:underline mt-4 inline-block"
+        >
+          Request a new one
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-md mx-auto px-6 py-8">
+      <h1 className="text-2xl font-semibold">Choose a new password</h1>
+      <p className="text-sm text-slate-400 mt-1">
+        For {user.email ?? "your account"}.
+      </p>
+
+      <form
+        className="mt-6 flex flex-col gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          save.mutate();
+        }}
+      >
+        <label className="text-sm text-slate-300">
+          New password
+          <input
+            type="password"
+            autoComplete="new-password"
+            className={inputClass}
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            minLength={MIN_PASSWORD_LENGTH}
+            required
+          />
+        </label>
+        <label className="text-sm text-slate-300">
+          Confirm password
+          <input
+            type="password"
+            autoComplete="new-password"
+            className={inputClass}
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            required
+          />
+        </label>
+        <button
+          type="submit"
+          className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
+          disabled={save.isPending}
+        >
+          {save.isPending ? "Saving…" : "Save password"}
+        </button>
+      </form>
+
+      {save.error ? (
+        <div className="mt-3 text-sm text-red-300">
+          {(save.error as Error).message}
+        </div>
+      ) : null}
+    </div>
+  );
+}
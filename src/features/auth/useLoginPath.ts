@@ -0,0 +1,8 @@
+import { useLocation } from "react-router-dom";
+import { loginPath } from "../../lib/auth";
+
+/** `/login` link that returns to the current page after signing in. */
+export function useLoginPath() {
+  const { pathname, search, hash } = useLocation();
+  return loginPath(`${pathname}${search}${hash}`);
+}
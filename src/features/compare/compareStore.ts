@@ -0,0 +1,68 @@
+// src/features/compare/compareStore.ts
+import { useSyncExternalStore } from "react";
+
+// Listing ids picked for side-by-side comparison. Lives outside React so the
+// card toggles, the tray and the compare page share it, and in localStorage
+// so the selection survives reloads.
+
+export const MAX_COMPARE = 4;
+export const MIN_COMPARE = 2;
+
+const STORAGE_KEY = "nexus-cars:compare";
+
+const listeners = new Set<() => void>();
+
+function read(): string[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((x): x is string => typeof x === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+let ids: string[] = read();
+
+function write(next: string[]) {
+  ids = next.slice(0, MAX_COMPARE);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+  } catch {
+    // private mode / quota: keep the in-memory selection
+  }
+  listeners.forEach((l) => l());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useCompareIds() {
+  return useSyncExternalStore(subscribe, () => ids);
+}
+
+/**
+ * Adds or removes a listing. Adding beyond MAX_COMPARE is ignored.
+ */
+export function toggleCompare(id: string) {
+  if (ids.includes(id)) write(ids.filter((x) => x !== id));
+  else if (ids.length < MAX_COMPARE) write([...ids, id]);
+}
+
+export function removeFromCompare(id: string) {
+  write(ids.filter((x) => x !== id));
+}
+
+export function clearCompare() {
+  write([]);
+}
+
+export function compareHref(list: string[]) {
+  return `/compare?ids=${list.map(encodeURIComponent).join(",")}`;
+}
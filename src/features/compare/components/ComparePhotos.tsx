@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { publicUrl, sortImages } from "../../../lib/db/images";
+import type { CarListing } from "../../../types/car";
+
+/**
+ * One compare column's photos: the selected image large, with a thumbnail
+ * row underneath to flip through the rest (cover first).
+ */
+export function ComparePhotos({ listing }: { listing: CarListing }) {
+  const images = sortImages(listing.listing_images);
+  const [selected, setSelected] = useState(0);
+  const current = images[Math.min(selected, images.length - 1)];
+  const name = `${listing.make} ${listing.model}`;
+
+  if (!current) {
+    return (
+      <div className="w-full h-32 rounded-xl border border-slate-800 bg-slate-950/40 flex items-center justify-center text-slate-500">
+        No image
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <img
+        src={publicUrl(current.bucket, current.path)}
+        alt={name}
+        className="w-full h-32 object-cover rounded-xl border border-slate-800"
+      />
+      {images.length > 1 ? (
+        <div className="mt-2 flex gap-1 overflow-x-auto">
+          {images.map((img, idx) => (
+            <button
+              key={`${img.path}-${idx}`}
+              type="button"
+              onClick={() => setSelected(idx)}
+              aria-label={`${name} photo ${idx + 1}`}
+              aria-pressed={img === current}
+              className={`shrink-0 rounded-md border ${
+                img === current
+                  ? "border-blue-400"
+                  : "border-slate-800 hover:border-slate-600"
+              }`}
+            >
+              <img
+                src={publicUrl(img.bucket, img.path)}
+                alt=""
+                className="w-12 h-9 object-cover rounded-md"
+                loading="lazy"
+              />
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { MAX_COMPARE, toggleCompare, useCompareIds } from "../compareStore";
+
+type Props = {
+  listingId: string;
+  className?: string;
+};
+
+// Sits inside card <Link>s, so clicks must not navigate.
+export function CompareToggle({ listingId, className = "" }: Props) {
+  const ids = useCompareIds();
+  const on = ids.includes(listingId);
+  const full = !on && ids.length >= MAX_COMPARE;
+
+  return (
+    <button
+      type="button"
+      aria-pressed={on}
+      disabled={full}
+      title={full ? `You can compare up to ${MAX_COMPARE} cars` : undefined}
+      className={`px-3 py-1.5 rounded-full text-xs border disabled:opacity-50 ${
+        on
+          ? "bg-blue-600/30 border-blue-500/60 text-white"
+          : "bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700"
+      } ${className}`}
+      onClick={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        toggleCompare(listingId);
+      }}
+    >
+      {on ? "✓ Comparing" : "Compare"}
+    </button>
+  );
+}
@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useLocation } from "react-router-dom";
+import { fetchListingsByIds } from "../../../lib/db/listings";
+import { coverUrl } from "../../../lib/db/images";
+import {
+  clearCompare,
+  compareHref,
+  MAX_COMPARE,
+  MIN_COMPARE,
+  removeFromCompare,
+  useCompareIds,
+} from "../compareStore";
+
+// Fixed bottom bar listing the cars picked for comparison, on every page
+// except /compare itself.
+export function CompareTray() {
+  const ids = useCompareIds();
+  const { pathname } = useLocation();
+
+  const { data: rows = [] } = useQuery({
+    queryKey: ["compare-listings", ids],
+    enabled: ids.length > 0,
+    queryFn: () => fetchListingsByIds(ids),
+    staleTime: 1000 * 30,
+  });
+
+  if (!ids.length || pathname === "/compare") return null;
+
+  const ready = ids.length >= MIN_COMPARE;
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-30 border-t border-slate-800 bg-slate-950/95 backdrop-blur">
+      <div className="max-w-7xl mx-auto px-6 py-3 flex items-center gap-4 flex-wrap">
+        <div className="text-sm text-slate-300">
+          Compare ({ids.length}/{MAX_COMPARE})
+        </div>
+
+        <div className="flex gap-2 flex-1 flex-wrap">
+          {rows.map((row) => {
+            const cover = coverUrl(row.listing_images);
+            return (
+              <div
+                key={row.id}
+                className="flex items-center gap-2 rounded-lg border border-slate-800 bg-slate-900/60 pl-1 pr-2 py-1"
+              >
+                {cover ? (
+                  <img
+                    src={cover}
+                    alt=""
+                    className="w-10 h-8 object-cover rounded"
+                  />
+                ) : null}
+                <span className="text-sm">
+                  {row.year} {row.make} {row.model}
+                </span>
+                <button
+                  type="button"
+                  className="text-slate-400 hover:text-white"
+                  title="Remove"
+                  onClick={() => removeFromCompare(row.id)}
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          type="button"
+          className="text-sm text-slate-300 hover:text-white"
+          onClick={clearCompare}
+        >
+          Clear
+        </button>
+        {ready ? (
+          <Link
+            to={compareHref(ids)}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm"
+          >
+            Compare now
+          </Link>
+        ) : (
+          <span className="text-sm text-slate-400">
+            Pick at least {MIN_COMPARE} cars
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+// src/features/compare/pages/ComparePage.tsx
+import { useMemo } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { fetchListingsByIds } from "../../../lib/db/listings";
+import type { CarListing } from "../../../types/car";
+import { MAX_COMPARE, removeFromCompare } from "../compareStore";
+import { ComparePhotos } from "../components/ComparePhotos";
+
+type Row = {
+  label: string;
+  display: (l: CarListing) => string;
+  // Numeric value to rank by (lower is better); null = not comparable
+  score?: (l: CarListing) => number | null;
+};
+
+function formatPrice(n: number) {
+  return new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency: "USD",
+    maximumFractionDigits: 0,
+  }).format(n);
+}
+
+function pricePerMile(l: CarListing) {
+  return l.mileage > 0 ? l.price / l.mileage : null;
+}
+
+const ROWS: Row[] = [
+  { label: "Year", display: (l) => String(l.year), score: (l) => -l.year },
+  {
+    label: "Price",
+    display: (l) => formatPrice(l.price),
+    score: (l) => l.price,
+  },
+  {
+    label: "Mileage",
+    display: (l) => `${l.mileage.toLocaleString()} mi`,
+    score: (l) => l.mileage,
+  },
+  { label: "Fuel", display: (l) => l.fuel_type },
+  { label: "Transmission", display: (l) => l.transmission },
+  { label: "Location", display: (l) => l.zip_code ?? "—" },
+  // Not scored: a low figure can mean a bargain or a worn-out car, so
+  // neither end is "best" on its own; Price and Mileage are ranked above
+  {
+    label: "Price per mile",
+    display: (l) => {
+      const ppm = pricePerMile(l);
+      return ppm === null ? "—" : `$${ppm.toFixed(2)}/mi`;
+    },
+  },
+];
+
+function parseIds(params: URLSearchParams) {
+  const raw = (params.get("ids") ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return Array.from(new Set(raw)).slice(0, MAX_COMPARE);
+}
+
+export function ComparePage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const ids = useMemo(() => parseIds(searchParams), [searchParams]);
+
+  const { data, isLoading, isError, error } = useQuery({
+    queryKey: ["compare-listings", ids],
+    enabled: ids.length > 0,
+    queryFn: () => fetchListingsByIds(ids),
+  });
+
+  const listings = data ?? [];
+
+  const remove = (id: string) => {
+    removeFromCompare(id);
+    const next = new URLSearchParams(searchParams);
+    const rest = ids.filter((x) => x !== id);
+    if (rest.length) next.set("ids", rest.join(","));
+    else next.delete("ids");
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="flex items-end justify-between gap-4 flex-wrap">
+          <div>
+            <h1 className="text-2xl font-semibold">Compare cars</h1>
+            <p className="text-slate-400 text-sm mt-1">
+              Differences are highlighted; the best value in each row is green.
+            </p>
+          </div>
+          <Link
+            to="/listings"
+            className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+          >
+            Browse
+          </Link>
+        </div>
+
+        {!ids.length ? (
+          <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/40 p-8 text-slate-300">
+            Nothing to compare yet. Tap “Compare” on up to {MAX_COMPARE}{" "}
+            listings while you{" "}
+            <Link to="/listings" className="text-blue-400 hover:underline">
+              browse
+            </Link>
+            .
+          </div>
+        ) : isLoading ? (
+          <div className="mt-6 text-slate-300">Loading…</div>
+        ) : isError ? (
+          <div className="mt-6 text-red-300">
+            {(error as Error).message || "Failed to load listings."}
+          </div>
+        ) : (
+          <div className="mt-6 overflow-x-auto">
+            <table className="w-full border-separate border-spacing-0 text-sm">
+              <thead>
+                <tr>
+                  <th className="w-40" />
+                  {listings.map((l) => (
+                    <th
+                      key={l.id}
+                      className="p-3 text-left align-top font-normal min-w-[200px]"
+                    >
+                      <ComparePhotos listing={l} />
+                      <Link
+                        to={`/listings/${l.id}`}
+                        className="block mt-2 font-semibold hover:underline"
+                      >
+                        {l.make} {l.model}
+                      </Link>
+                      <button
+                        type="button"
+                        className="mt-1 text-xs text-slate-400 hover:text-white"
+                        onClick={() => remove(l.id)}
+                      >
+                        Remove
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {ROWS.map((row) => (
+                  <CompareRow key={row.label} row={row} listings={listings} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function CompareRow({ row, listings }: { row: Row; listings: CarListing[] }) {
+  const values = listings.map(row.display);
+  const differs = new Set(values).size > 1;
+
+  const scores = row.score ? listings.map(row.score) : [];
+  const ranked = scores.filter((s): s is number => s !== null);
+  const best = differs && ranked.length > 1 ? Math.min(...ranked) : null;
+
+  return (
+    <tr className={differs ? "bg-amber-500/5" : undefined}>
+      <th className="p-3 text-left font-normal text-slate-400 border-t border-slate-800">
+        {row.label}
+        {differs ? <span className="ml-1 text-amber-300">•</span> : null}
+      </th>
+      {listings.map((l, i) => (
+        <td
+          key={l.id}
+          className={`p-3 border-t border-slate-800 ${
+            best !== null && scores[i] === best
+              ? "text-emerald-300 font-semibold"
+              : "text-slate-100"
+          }`}
+        >
+          {values[i]}
+        </td>
+      ))}
+    </tr>
+  );
+}
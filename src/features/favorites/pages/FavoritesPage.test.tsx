@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { screen } from "@testing-library/react";
+import { signInWithPassword } from "../../../lib/auth";
+import { addFavorite } from "../../../lib/db/favorites";
+import { DEMO_USER_ID } from "../../../lib/backend/memory/seed";
+import { renderRoute } from "../../../test/render";
+import { RequireAuth } from "../../auth/components/RequireAuth";
+import { FavoritesPage } from "./FavoritesPage";
+
+const TESLA_ID = "10000000-0000-4000-8000-000000000003";
+
+function renderFavorites() {
+  return renderRoute(
+    <RequireAuth>
+      <FavoritesPage />
+    </RequireAuth>,
+    { path: "/favorites" },
+  );
+}
+
+describe("FavoritesPage", () => {
+  it("explains how to save cars when there are none", async () => {
+    await signInWithPassword("demo@nexus-cars.local", "password");
+
+    renderFavorites();
+
+    expect(await screen.findByText(/No favorites yet/)).toBeDefined();
+  });
+
+  it("lists the user's saved cars", async () => {
+    await signInWithPassword("demo@nexus-cars.local", "password");
+    await addFavorite(DEMO_USER_ID, TESLA_ID);
+
+    renderFavorites();
+
+    expect(await screen.findByText("Tesla Model 3")).toBeDefined();
+    expect(screen.getByText("$32,900")).toBeDefined();
+  });
+});
@@ -1,81 +1,18 @@
 // src/features/favorites/pages/FavoritesPage.tsx
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "react-router-dom";
-import { supabase } from "../../../lib/supabase";
-
-type ListingImage = {
-  bucket: string;
-  path: string;
-  position: number;
-};
-
-type ListingRow = {
-  id: string;
-  make: string;
-  model: string;
-  year: number | null;
-  price: number | string;
-  mileage: number | null;
-  created_at: string | null;
-  listing_images?: ListingImage[] | null;
-};
-
-type FavoriteRow = {
-  id: string;
-  listing_id: string;
-  created_at: string;
-  listings: ListingRow;
-};
-
-function publicUrl(bucket: string, path: string) {
-  const { data } = supabase.storage.from(bucket).getPublicUrl(path);
-  return data.publicUrl;
-}
-
-async function fetchFavorites() {
-  const { data: userRes, error: userErr } = await supabase.auth.getUser();
-  if (userErr) throw userErr;
-  if (!userRes?.user)
-    throw new Error("You must be logged in to view favorites.");
-
-  const userId = userRes.user.id;
-
-  // Requires a favorites table:
-  // favorites: id, user_id, listing_id, created_at
-  // with FK listing_id -> listings.id
-  // and FK/relationship from favorites -> listings
-  const { data, error } = await supabase
-    .from("favorites")
-    .select(
-      `
-      id,
-      listing_id,
-      created_at,
-      listings (
-        id,
-        make,
-        model,
-        year,
-        price,
-        mileage,
-        created_at,
-        listing_images ( bucket, path, position )
-      )
-    `,
-    )
-    .eq("user_id", userId)
-    .order("created_at", { ascending: false });
-
-  if (error) throw error;
-
-  // Supabase returns nested listings object; cast for TS convenience
-  return (data ?? []) as unknown as FavoriteRow[];
-}
+import { fetchFavorites } from "../../../lib/db/favorites";
+import { coverUrl } from "../../../lib/db/images";
+import { PriceDropBadge } from "../../listings/components/PriceDropBadge";
+import { CompareToggle } from "../../compare/components/CompareToggle";
+import { useSignedInUser } from "../../auth/authContext";
 
 export function FavoritesPage() {
+  const userId = useSignedInUser().id;
+
   const { data, isLoading, isError, error } = useQuery({
-    queryKey: ["favorites"],
-    queryFn: fetchFavorites,
+    queryKey: ["favorites", userId],
+    queryFn: () => fetchFavorites(userId),
     staleTime: 1000 * 20,
   });
 
@@ -116,13 +53,9 @@ export function FavoritesPage() {
           <div className="mt-6 grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
             {(data ?? []).map((fav) => {
               const row = fav.listings;
-              const images = (row.listing_images ?? [])
-                .slice()
-                .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
-              const cover = images[0];
-              const coverUrl = cover
-                ? publicUrl(cover.bucket, cover.path)
-                : null;
+              // Listing may have been deleted (or hidden by RLS)
+              if (!row) return null;
+              const cover = coverUrl(row.listing_images);
 
               return (
                 <Link
@@ -130,9 +63,9 @@ export function FavoritesPage() {
                   to={`/listings/${row.id}`}
                   className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4 hover:border-slate-700 transition"
                 >
-                  {coverUrl ? (
+                  {cover ? (
                     <img
-                      src={coverUrl}
+                      src={cover}
                       alt={`${row.make} ${row.model}`}
                       className="w-full h-40 object-cover rounded-xl border border-slate-800 mb-3"
                       loading="lazy"
@@ -150,12 +83,13 @@ export function FavoritesPage() {
                   <div className="text-slate-300 mt-1">
                     ${Number(row.price).toLocaleString()}
                   </div>
+                  <PriceDropBadge listing={row} className="mt-2" />
 
-                  <div className="text-xs text-slate-400 mt-2">
-                    {row.year ?? "—"} •{" "}
-                    {typeof row.mileage === "number"
-                      ? `${row.mileage.toLocaleString()} mi`
-                      : (row.mileage ?? "—")}
+                  <div className="flex items-center justify-between gap-2 mt-2">
+                    <div className="text-xs text-slate-400">
+                      {row.year} • {row.mileage.toLocaleString()} mi
+                    </div>
+                    <CompareToggle listingId={row.id} />
                   </div>
                 </Link>
               );
@@ -0,0 +1,31 @@
+// src/features/listings/catalogQueries.ts
+import { queryOptions } from "@tanstack/react-query";
+import { fetchBrands, fetchModels } from "../../lib/db/catalog";
+import type { Brand } from "../../types/car";
+
+// Shared by ListingForm (cascading selects) and FilterBar (make → model filter)
+// so both hit the same cache entries.
+
+const CATALOG_STALE_TIME = 1000 * 60 * 10;
+
+export const brandsQueryOptions = queryOptions({
+  queryKey: ["brands"],
+  queryFn: fetchBrands,
+  staleTime: CATALOG_STALE_TIME,
+});
+
+export function modelsQueryOptions(brandId: string | null) {
+  return queryOptions({
+    queryKey: ["models", brandId],
+    enabled: !!brandId,
+    queryFn: () => fetchModels(brandId!),
+    staleTime: CATALOG_STALE_TIME,
+  });
+}
+
+/**
+ * Catalog id for a make name, or null when the brands table doesn't list it.
+ */
+export function brandIdForMake(brands: Brand[] | undefined, make: string) {
+  return (brands ?? []).find((b) => b.name === make)?.id ?? null;
+}
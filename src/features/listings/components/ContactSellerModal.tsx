@@ -1,6 +1,11 @@
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
 import { useState } from "react";
-import { supabase } from "../../../lib/supabase";
+import { useAuth } from "../../auth/authContext";
+import { sendInquiry } from "../../../lib/db/inquiries";
+import { makeOffer } from "../../../lib/db/offers";
+import type { OfferInput } from "../../../lib/db/offers";
+import { AttachmentPicker } from "../../messages/components/AttachmentPicker";
+import { OfferForm } from "../../messages/components/OfferForm";
 
 type Props = {
   open: boolean;
@@ -16,17 +21,11 @@ export function ContactSellerModal({
   sellerId,
 }: Props) {
   // ✅ hooks are always called; render can be conditional
-  const { data: userId } = useQuery({
-    queryKey: ["auth-user-id"],
-    queryFn: async () => {
-      const { data, error } = await supabase.auth.getUser();
-      if (error) return null;
-      return data?.user?.id ?? null;
-    },
-    staleTime: 30_000,
-  });
+  const { userId } = useAuth();
 
   const [message, setMessage] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [mode, setMode] = useState<"message" | "offer">("message");
   const [notice, setNotice] = useState<string | null>(null);
 
   const send = useMutation({
@@ -35,19 +34,22 @@ export function ContactSellerModal({
       if (!listingId) throw new Error("Missing listing id.");
       if (!message.trim()) throw new Error("Please enter a message.");
 
-      const { error } = await supabase.from("inquiries").insert({
-        listing_id: listingId,
-        buyer_id: userId,
-        seller_id: sellerId,
-        message: message.trim(),
-      });
-
-      if (error) throw error;
+      await sendInquiry(
+        {
+          listing_id: listingId,
+          buyer_id: userId,
+          seller_id: sellerId,
+          sender_id: userId,
+          message: message.trim(),
+        },
+        files,
+      );
       return true;
     },
     onSuccess: () => {
       setNotice("Message sent!");
       setMessage("");
+      setFiles([]);
       // close after a moment; keep it simple + reliable
       setTimeout(() => onClose(), 600);
     },
@@ -56,6 +58,20 @@ export function ContactSellerModal({
     },
   });
 
+  const offer = useMutation({
+    mutationFn: async (input: OfferInput) => {
+      if (!userId) throw new Error("Please sign in to make an offer.");
+      await makeOffer({ listingId, buyerId: userId, sellerId }, userId, input);
+    },
+    onSuccess: () => {
+      setNotice("Offer sent! The seller can accept, decline or counter.");
+      setTimeout(() => onClose(), 900);
+    },
+    onError: (e: Error) => {
+      setNotice(e.message || "Could not send offer.");
+    },
+  });
+
   if (!open) return null;
 
   return (
@@ -89,46 +105,95 @@ export function ContactSellerModal({
           </div>
         ) : null}
 
-        <div className="mt-4">
-          <label className="text-sm text-slate-300">Message</label>
-          <textarea
-            className="mt-2 w-full rounded-xl border border-slate-800 bg-slate-900/40 p-3 text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600 min-h-[120px]"
-            placeholder={
-              userId
-                ? "Hi! Is this still available? Can we schedule a time to see it?"
-                : "Please sign in to send a message."
-            }
-            value={message}
-            onChange={(e) => setMessage(e.target.value)}
-            disabled={send.isPending}
-          />
+        <div className="mt-4 flex gap-2">
+          {(["message", "offer"] as const).map((m) => (
+            <button
+              key={m}
+              type="button"
+              className={`px-3 py-1.5 rounded-lg text-sm ${
+                mode === m
+                  ? "bg-slate-700 text-white"
+                  : "bg-slate-900/40 text-slate-300 hover:bg-slate-800"
+              }`}
+              onClick={() => {
+                setMode(m);
+                setNotice(null);
+              }}
+            >
+              {m === "message" ? "Message" : "Make an offer"}
+            </button>
+          ))}
         </div>
 
-        <div className="mt-4 flex justify-end gap-2">
-          <button
-            className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700"
-            onClick={onClose}
-            type="button"
-            disabled={send.isPending}
-          >
-            Cancel
-          </button>
-          <button
-            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
-            onClick={() => {
-              setNotice(null);
-              if (!userId) {
-                setNotice("Please sign in to contact sellers.");
-                return;
-              }
-              send.mutate();
-            }}
-            type="button"
-            disabled={send.isPending}
-          >
-            {send.isPending ? "Sending…" : "Send message"}
-          </button>
-        </div>
+        {mode === "offer" ? (
+          <div className="mt-4">
+            {userId ? (
+              <OfferForm
+                submitLabel="Send offer"
+                pending={offer.isPending}
+                onSubmit={(input) => {
+                  setNotice(null);
+                  offer.mutate(input);
+                }}
+                onCancel={onClose}
+              />
+            ) : (
+              <div className="text-sm text-slate-400">
+                Please sign in to make an offer.
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="mt-4">
+              <label className="text-sm text-slate-300">Message</label>
+              <textarea
+                className="mt-2 w-full rounded-xl border border-slate-800 bg-slate-900/40 p-3 text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600 min-h-[120px]"
+                placeholder={
+                  userId
+                    ? "Hi! Is this still available? Can we schedule a time to see it?"
+                    : "Please sign in to send a message."
+                }
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+                disabled={send.isPending}
+              />
+              <div className="mt-2">
+                <AttachmentPicker
+                  files={files}
+                  onChange={setFiles}
+                  disabled={send.isPending || !userId}
+                />
+              </div>
+            </div>
+
+            <div className="mt-4 flex justify-end gap-2">
+              <button
+                className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700"
+                onClick={onClose}
+                type="button"
+                disabled={send.isPending}
+              >
+                Cancel
+              </button>
+              <button
+                className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
+                onClick={() => {
+                  setNotice(null);
+                  if (!userId) {
+                    setNotice("Please sign in to contact sellers.");
+                    return;
+                  }
+                  send.mutate();
+                }}
+                type="button"
+                disabled={send.isPending}
+              >
+                {send.isPending ? "Sending…" : "Send message"}
+              </button>
+            </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -1,70 +1,20 @@
 // src/features/listings/components/FeaturedListings.tsx
 import { useQuery } from "@tanstack/react-query";
 import { Link } from "react-router-dom";
-import { supabase } from "../../../lib/supabase";
-
-type Filters = {
-  search: string;
-  make: string;
-  maxPrice: number;
-  zip: string;
-  radiusMiles: number;
-};
-
-type ListingImage = {
-  bucket: string;
-  path: string;
-  position: number;
-};
-
-type ListingRow = {
-  id: string;
-  make: string;
-  model: string;
-  year: number | null;
-  price: number | string;
-  mileage: number | null;
-  created_at: string | null;
-  listing_images?: ListingImage[] | null;
-};
+import { fetchFeaturedListings } from "../../../lib/db/listings";
+import type { ListingFilters } from "../../../lib/db/listings";
+import { FEATURED_SLOTS } from "../../../lib/db/featured";
+import { coverUrl } from "../../../lib/db/images";
+import { CompareToggle } from "../../compare/components/CompareToggle";
 
 type Props = {
-  filters: Filters;
+  filters: ListingFilters;
 };
 
-function publicUrl(bucket: string, path: string) {
-  const { data } = supabase.storage.from(bucket).getPublicUrl(path);
-  return data.publicUrl;
-}
-
-async function fetchFeatured(filters: Filters) {
-  const DEFAULT_MAX_PRICE = Number.MAX_SAFE_INTEGER;
-  let q = supabase
-    .from("listings")
-    .select("*, listing_images(bucket, path, position)")
-    .eq("is_active", true)
-    .eq("is_featured", true)
-    .order("created_at", { ascending: false })
-    .limit(6);
-
-  const term = filters.search.trim();
-  if (term) {
-    q = q.or(`make.ilike.%${term}%,model.ilike.%${term}%`);
-  }
-
-  if (filters.make) q = q.eq("make", filters.make);
-  if (filters.maxPrice !== DEFAULT_MAX_PRICE) q = q.lte("price", filters.maxPrice);
-
-  const { data, error } = await q;
-  if (error) throw error;
-
-  return (data ?? []) as ListingRow[];
-}
-
 export function FeaturedListings({ filters }: Props) {
   const { data, isLoading, isError, error } = useQuery({
     queryKey: ["featured-listings", filters],
-    queryFn: () => fetchFeatured(filters),
+    queryFn: () => fetchFeaturedListings(filters, FEATURED_SLOTS),
     staleTime: 1000 * 20,
   });
 
@@ -94,11 +44,7 @@ export function FeaturedListings({ filters }: Props) {
       ) : (
         <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
           {(data ?? []).map((row) => {
-            const images = (row.listing_images ?? [])
-              .slice()
-              .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
-            const cover = images[0];
-            const coverUrl = cover ? publicUrl(cover.bucket, cover.path) : null;
+            const cover = coverUrl(row.listing_images);
 
             return (
               <Link
@@ -106,9 +52,9 @@ export function FeaturedListings({ filters }: Props) {
                 to={`/listings/${row.id}`}
                 className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4 hover:border-slate-700 transition"
               >
-                {coverUrl ? (
+                {cover ? (
                   <img
-                    src={coverUrl}
+                    src={cover}
                     alt={`${row.make} ${row.model}`}
                     className="w-full h-40 object-cover rounded-xl border border-slate-800 mb-3"
                     loading="lazy"
@@ -127,11 +73,11 @@ export function FeaturedListings({ filters }: Props) {
                   ${Number(row.price).toLocaleString()}
                 </div>
 
-                <div className="text-xs text-slate-400 mt-2">
-                  {row.year ?? "—"} •{" "}
-                  {typeof row.mileage === "number"
-                    ? `${row.mileage.toLocaleString()} mi`
-                    : (row.mileage ?? "—")}
+                <div className="flex items-center justify-between gap-2 mt-2">
+                  <div className="text-xs text-slate-400">
+                    {row.year} • {row.mileage.toLocaleString()} mi
+                  </div>
+                  <CompareToggle listingId={row.id} />
                 </div>
               </Link>
             );
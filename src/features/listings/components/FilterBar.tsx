@@ -1,60 +1,80 @@
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { supabase } from "../../../lib/supabase";
 import { geocodeZip, getZipFromIp } from "../../../lib/location";
-
-type Filters = {
-  search: string;
-  make: string;
-  maxPrice: number;
-  zip: string;
-  radiusMiles: number; // 0 = ignore
-};
+import { fetchMakeNames } from "../../../lib/db/catalog";
+import { fetchProfile } from "../../../lib/db/profiles";
+import { DEFAULT_MAX_PRICE } from "../../../lib/db/listings";
+import type { ListingFilters } from "../../../lib/db/listings";
+import { FUEL_TYPES, TRANSMISSIONS } from "../vehicleOptions";
+import {
+  brandIdForMake,
+  brandsQueryOptions,
+  modelsQueryOptions,
+} from "../catalogQueries";
+import { useAuth } from "../../auth/authContext";
 
 type Props = {
-  filters: Filters;
-  setFilters: React.Dispatch<React.SetStateAction<Filters>>;
+  filters: ListingFilters;
+  setFilters: React.Dispatch<React.SetStateAction<ListingFilters>>;
 };
 
+const MILEAGE_CAPS = [25000, 50000, 75000, 100000, 150000];
+
+function toggle(list: string[], value: string) {
+  return list.includes(value)
+    ? list.filter((v) => v !== value)
+    : [...list, value];
+}
+
+// Empty input means "any" (0 sentinel)
+function toWholeNumber(value: string) {
+  const n = Math.floor(Number(value));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
 export function FilterBar({ filters, setFilters }: Props) {
   const [zipStatus, setZipStatus] = useState<"idle" | "loading" | "ready">(
     "idle",
   );
+  const [showMore, setShowMore] = useState(false);
 
-  const { data, isLoading, isError } = useQuery({
+  const {
+    data: makes = [],
+    isLoading,
+    isError,
+  } = useQuery({
     queryKey: ["listing-makes"],
-    queryFn: async () => {
-      // Prefer a dedicated brands table if present.
-      // brands: id, name
-      const brands = await supabase.from("brands").select("name");
-      if (!brands.error && brands.data?.length) return brands.data;
-
-      // Fallback: infer from listings
-      const { data, error } = await supabase
-        .from("listings")
-        .select("make")
-        .eq("is_active", true);
-
-      if (error) throw error;
-      return data ?? [];
-    },
+    queryFn: fetchMakeNames,
     staleTime: 1000 * 60 * 10,
   });
 
-  const makes = useMemo(() => {
-    const uniq = new Set<string>();
-    for (const row of data ?? []) {
-      const make = ((row as any).name ?? (row as any).make) as string | null;
-      if (make && make.trim()) uniq.add(make.trim());
-    }
-    return Array.from(uniq).sort((a, b) => a.localeCompare(b));
-  }, [data]);
+  // Model chips come from the catalog; makes that only exist on listings
+  // (not in brands) simply don't offer a model filter.
+  const { data: brands } = useQuery(brandsQueryOptions);
+  const brandId = filters.make ? brandIdForMake(brands, filters.make) : null;
+  const { data: models = [] } = useQuery(modelsQueryOptions(brandId));
+  const modelNames = models.map((m) => m.name);
 
-  // Default ZIP by IP (best effort) the first time the filter bar mounts.
+  const { userId, loading: authLoading } = useAuth();
+  const { data: profile, isPending: profilePending } = useQuery({
+    queryKey: ["profile", userId],
+    queryFn: () => fetchProfile(userId!),
+    enabled: !!userId,
+  });
+  const profileKnown = !authLoading && (!userId || !profilePending);
+
+  // Default ZIP the first time the filter bar mounts: the user's saved ZIP,
+  // otherwise a best-effort IP lookup.
   useEffect(() => {
+    if (!profileKnown) return;
     let cancelled = false;
     (async () => {
       if (filters.zip?.trim()) return;
+      const savedZip = profile?.default_zip;
+      if (savedZip) {
+        setFilters((prev) => ({ ...prev, zip: savedZip }));
+        return;
+      }
       setZipStatus("loading");
       const ipZip = await getZipFromIp();
       if (cancelled) return;
@@ -67,9 +87,8 @@ export function FilterBar({ filters, setFilters }: Props) {
       cancelled = true;
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [profileKnown]);
 
-  const DEFAULT_MAX_PRICE = Number.MAX_SAFE_INTEGER;
   const UI_MAX_PRICE = 200000;
 
   const sliderValue =
@@ -84,6 +103,16 @@ export function FilterBar({ filters, setFilters }: Props) {
           maximumFractionDigits: 0,
         }).format(filters.maxPrice);
 
+  const moreCount = [
+    filters.minPrice > 0,
+    filters.minYear > 0,
+    filters.maxYear > 0,
+    filters.maxMileage > 0,
+    filters.fuelTypes.length > 0,
+    filters.transmissions.length > 0,
+    filters.priceDropped,
+  ].filter(Boolean).length;
+
   return (
     <div className="max-w-7xl mx-auto px-6 py-8">
       <div className="bg-slate-900/50 p-4 rounded-2xl border border-slate-800 flex flex-wrap gap-4 items-center">
@@ -99,7 +128,10 @@ export function FilterBar({ filters, setFilters }: Props) {
           <select
             className="appearance-none bg-slate-800 border-none rounded-lg px-4 py-2 pr-10 text-white min-w-[150px] disabled:opacity-60"
             value={filters.make}
-            onChange={(e) => setFilters({ ...filters, make: e.target.value })}
+            // Picked models belong to the previous make
+            onChange={(e) =>
+              setFilters({ ...filters, make: e.target.value, models: [] })
+            }
             disabled={isLoading || isError}
           >
             <option value="">
@@ -169,8 +201,137 @@ export function FilterBar({ filters, setFilters }: Props) {
             }}
           />
         </div>
+
+        <button
+          type="button"
+          className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+          onClick={() => setShowMore((v) => !v)}
+          aria-expanded={showMore}
+        >
+          More filters{moreCount ? ` (${moreCount})` : ""}{" "}
+          {showMore ? "▲" : "▼"}
+        </button>
       </div>
 
+      {filters.make && modelNames.length ? (
+        <div className="mt-3 bg-slate-900/50 p-4 rounded-2xl border border-slate-800">
+          <ChipGroup
+            label={`${filters.make} models`}
+            options={modelNames}
+            selected={filters.models}
+            onToggle={(v) =>
+              setFilters({ ...filters, models: toggle(filters.models, v) })
+            }
+          />
+        </div>
+      ) : null}
+
+      {showMore ? (
+        <div className="mt-3 bg-slate-900/50 p-4 rounded-2xl border border-slate-800 flex flex-wrap gap-6 items-start">
+          <div className="flex flex-col gap-1">
+            <div className="text-sm text-slate-300">Min Price</div>
+            <input
+              type="number"
+              min={0}
+              step={1000}
+              placeholder="No min"
+              className="bg-slate-800 border-none rounded-lg px-4 py-2 text-white w-[140px]"
+              value={filters.minPrice || ""}
+              onChange={(e) =>
+                setFilters({
+                  ...filters,
+                  minPrice: toWholeNumber(e.target.value),
+                })
+              }
+            />
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <div className="text-sm text-slate-300">Year</div>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                placeholder="From"
+                className="bg-slate-800 border-none rounded-lg px-4 py-2 text-white w-[110px]"
+                value={filters.minYear || ""}
+                onChange={(e) =>
+                  setFilters({
+                    ...filters,
+                    minYear: toWholeNumber(e.target.value),
+                  })
+                }
+              />
+              <span className="text-slate-500">–</span>
+              <input
+                type="number"
+                placeholder="To"
+                className="bg-slate-800 border-none rounded-lg px-4 py-2 text-white w-[110px]"
+                value={filters.maxYear || ""}
+                onChange={(e) =>
+                  setFilters({
+                    ...filters,
+                    maxYear: toWholeNumber(e.target.value),
+                  })
+                }
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <div className="text-sm text-slate-300">Max Mileage</div>
+            <select
+              className="bg-slate-800 border-none rounded-lg px-4 py-2 text-white"
+              value={String(filters.maxMileage)}
+              onChange={(e) =>
+                setFilters({ ...filters, maxMileage: Number(e.target.value) })
+              }
+            >
+              <option value="0">Any mileage</option>
+              {MILEAGE_CAPS.map((cap) => (
+                <option key={cap} value={cap}>
+                  Under {cap.toLocaleString()} mi
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <ChipGroup
+            label="Fuel"
+            options={FUEL_TYPES}
+            selected={filters.fuelTypes}
+            onToggle={(v) =>
+              setFilters({
+                ...filters,
+                fuelTypes: toggle(filters.fuelTypes, v),
+              })
+            }
+          />
+
+          <ChipGroup
+            label="Transmission"
+            options={TRANSMISSIONS}
+            selected={filters.transmissions}
+            onToggle={(v) =>
+              setFilters({
+                ...filters,
+                transmissions: toggle(filters.transmissions, v),
+              })
+            }
+          />
+
+          <label className="flex items-center gap-2 text-sm text-slate-300 self-center">
+            <input
+              type="checkbox"
+              checked={filters.priceDropped}
+              onChange={(e) =>
+                setFilters({ ...filters, priceDropped: e.target.checked })
+              }
+            />
+            Price drops only
+          </label>
+        </div>
+      ) : null}
+
       {/* Background geocode hint to keep UI snappy */}
       {/* When ZIP changes, we pre-warm the geocode cache by calling the endpoint once. */}
       <ZipPrewarm zip={filters.zip} />
@@ -178,6 +339,44 @@ export function FilterBar({ filters, setFilters }: Props) {
   );
 }
 
+function ChipGroup({
+  label,
+  options,
+  selected,
+  onToggle,
+}: {
+  label: string;
+  options: string[];
+  selected: string[];
+  onToggle: (value: string) => void;
+}) {
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="text-sm text-slate-300">{label}</div>
+      <div className="flex flex-wrap gap-2">
+        {options.map((opt) => {
+          const on = selected.includes(opt);
+          return (
+            <button
+              key={opt}
+              type="button"
+              aria-pressed={on}
+              className={`px-3 py-1.5 rounded-full text-sm border ${
+                on
+                  ? "bg-blue-600/30 border-blue-500/60 text-white"
+                  : "bg-slate-800 border-slate-700 text-slate-300 hover:bg-slate-700"
+              }`}
+              onClick={() => onToggle(opt)}
+            >
+              {opt}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 function ZipPrewarm({ zip }: { zip: string }) {
   useEffect(() => {
     let cancelled = false;
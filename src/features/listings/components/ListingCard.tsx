@@ -1,13 +1,16 @@
 import type { CarListing } from "../../../types/car.ts";
-import { getCarImageUrl } from "../../../lib/supabase";
+import { coverUrl } from "../../../lib/db/images";
+
+const PLACEHOLDER_IMAGE =
+  "https://images.unsplash.com/photo-1494976388531-d1058494cdd8?w=800";
 
 interface ListingCardProps {
   car: CarListing;
 }
 
 export function ListingCard({ car }: ListingCardProps) {
-  // Resolve the first ID in the array to a real URL
-  const imageUrl = getCarImageUrl(car.image_ids?.[0]);
+  // Cover is the lowest-position image; fall back to a stock photo
+  const imageUrl = coverUrl(car.listing_images) ?? PLACEHOLDER_IMAGE;
 
   return (
     <div className="group bg-slate-800 rounded-2xl overflow-hidden border border-slate-700 hover:border-blue-500/50 transition-all duration-300 shadow-lg">
@@ -1,18 +1,57 @@
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
+import {
+  LISTING_IMAGE_TYPES,
+  prepareImage,
+  savedPercent,
+} from "../../../lib/imageProcessing";
+import type { PreparedImage } from "../../../lib/imageProcessing";
+import { formatBytes } from "../../../lib/format";
 
 type Props = {
-  files: File[];
-  onChange: (files: File[]) => void;
+  images: PreparedImage[];
+  // updaters rather than values: picks finish asynchronously, after the
+  // seller may have removed or reordered what was already there
+  onChange: (update: (images: PreparedImage[]) => PreparedImage[]) => void;
+  // true while picked files are still being resized
+  onBusyChange?: (busy: boolean) => void;
+  // the listing already has images, so none of these becomes the cover
+  hasExisting?: boolean;
 };
 
-export function ListingImagePicker({ files, onChange }: Props) {
+function SizeNote({ image }: { image: PreparedImage }) {
+  const pct = savedPercent(image);
+  return (
+    <div className="mt-1 text-[11px] text-slate-500">
+      {formatBytes(image.originalSize)} → {formatBytes(image.file.size)}{" "}
+      {pct > 0 ? (
+        <span className="text-emerald-300">−{pct}%</span>
+      ) : (
+        <span>(no savings)</span>
+      )}
+    </div>
+  );
+}
+
+/**
+ * New photos for ListingForm. Each pick is resized and re-encoded in the
+ * browser before it joins the list, so what's shown is what gets uploaded.
+ */
+export function ListingImagePicker({
+  images,
+  onChange,
+  onBusyChange,
+  hasExisting = false,
+}: Props) {
+  const [busy, setBusy] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
   const previews = useMemo(
     () =>
-      files.map((f) => ({
-        file: f,
-        url: URL.createObjectURL(f),
+      images.map((image) => ({
+        image,
+        url: URL.createObjectURL(image.file),
       })),
-    [files],
+    [images],
   );
 
   // cleanup object urls
@@ -20,91 +59,144 @@ export function ListingImagePicker({ files, onChange }: Props) {
     return () => previews.forEach((p) => URL.revokeObjectURL(p.url));
   }, [previews]);
 
-  const onPick = (list: FileList | null) => {
-    if (!list) return;
-    const arr = Array.from(list).filter((f) => f.type.startsWith("image/"));
-    onChange([...files, ...arr]);
+  const onPick = async (list: FileList | null) => {
+    if (!list?.length) return;
+    const picked = Array.from(list);
+    const problems = picked
+      .filter((f) => !LISTING_IMAGE_TYPES.has(f.type))
+      .map((f) => `${f.name}: only JPG, PNG and WebP images can be added.`);
+
+    setBusy(true);
+    onBusyChange?.(true);
+    const prepared: PreparedImage[] = [];
+    // one at a time: full-size phone photos are large once decoded
+    for (const f of picked.filter((f) => LISTING_IMAGE_TYPES.has(f.type))) {
+      try {
+        prepared.push(await prepareImage(f));
+      } catch (e) {
+        problems.push((e as Error).message);
+      }
+    }
+    setBusy(false);
+    onBusyChange?.(false);
+
+    setErrors(problems);
+    if (prepared.length) onChange((prev) => [...prev, ...prepared]);
   };
 
   const removeAt = (idx: number) => {
-    onChange(files.filter((_, i) => i !== idx));
+    onChange((prev) => prev.filter((_, i) => i !== idx));
   };
 
   const move = (from: number, to: number) => {
-    if (to < 0 || to >= files.length) return;
-    const next = [...files];
-    const [it] = next.splice(from, 1);
-    next.splice(to, 0, it);
-    onChange(next);
+    onChange((prev) => {
+      if (to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      const [it] = next.splice(from, 1);
+      next.splice(to, 0, it);
+      return next;
+    });
   };
 
+  const originalTotal = images.reduce((n, i) => n + i.originalSize, 0);
+  const preparedTotal = images.reduce((n, i) => n + i.file.size, 0);
+
   return (
-    <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4">
+    <div className="mt-4">
       <div className="flex items-center justify-between gap-3 flex-wrap">
-        <div>
-          <div className="font-medium">Photos</div>
-          <div className="text-sm text-slate-400">
-            Add images now; they’ll upload when you save the listing.
-          </div>
+        <div className="text-sm text-slate-300">
+          {busy
+            ? "Optimizing photos…"
+            : previews.length
+              ? `Ready to upload (${previews.length}) · ${formatBytes(preparedTotal)} of ${formatBytes(originalTotal)}`
+              : "No new images selected."}
         </div>
 
-        <label className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 cursor-pointer">
+        <label
+          className={`px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 cursor-pointer ${
+            busy ? "pointer-events-none opacity-50" : ""
+          }`}
+        >
           Add images
           <input
             type="file"
             accept="image/jpeg,image/png,image/webp"
             multiple
             className="hidden"
-            onChange={(e) => onPick(e.target.files)}
+            disabled={busy}
+            onChange={(e) => {
+              void onPick(e.target.files);
+              // allow picking the same file again after removing it
+              e.target.value = "";
+            }}
           />
         </label>
       </div>
 
+      {errors.length ? (
+        <ul className="mt-2 text-sm text-red-300">
+          {errors.map((msg, i) => (
+            <li key={i}>{msg}</li>
+          ))}
+        </ul>
+      ) : null}
+
       {previews.length ? (
-        <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 gap-3">
-          {previews.map((p, idx) => (
-            <div key={idx} className="rounded-xl border border-slate-800 p-2">
-              <img
-                src={p.url}
-                className="w-full h-32 object-cover rounded-lg"
-                alt=""
-              />
-              <div className="mt-2 flex items-center justify-between gap-2">
-                <div className="text-xs text-slate-400">
-                  {idx === 0 ? "Cover" : `#${idx + 1}`}
+        <>
+          <div className="mt-3 grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {previews.map((p, idx) => (
+              <div
+                key={`${p.image.originalName}-${idx}`}
+                className="rounded-xl border border-slate-800 p-2"
+              >
+                <img
+                  src={p.url}
+                  className="w-full h-32 object-cover rounded-lg"
+                  alt=""
+                />
+                <div className="mt-2 flex items-center justify-between gap-2">
+                  <div className="text-xs text-slate-400">
+                    {idx === 0 && !hasExisting ? "Cover" : `+${idx + 1}`}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      type="button"
+                      className="text-xs px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+                      onClick={() => move(idx, idx - 1)}
+                      disabled={idx === 0}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      className="text-xs px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+                      onClick={() => move(idx, idx + 1)}
+                      disabled={idx === previews.length - 1}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      className="text-xs px-2 py-1 rounded bg-red-600/80 hover:bg-red-600"
+                      onClick={() => removeAt(idx)}
+                    >
+                      Remove
+                    </button>
+                  </div>
                 </div>
-                <div className="flex gap-2">
-                  <button
-                    type="button"
-                    className="text-xs px-2 py-1 rounded bg-slate-800 hover:bg-slate-700"
-                    onClick={() => move(idx, idx - 1)}
-                    disabled={idx === 0}
-                  >
-                    ↑
-                  </button>
-                  <button
-                    type="button"
-                    className="text-xs px-2 py-1 rounded bg-slate-800 hover:bg-slate-700"
-                    onClick={() => move(idx, idx + 1)}
-                    disabled={idx === previews.length - 1}
-                  >
-                    ↓
-                  </button>
-                  <button
-                    type="button"
-                    className="text-xs px-2 py-1 rounded bg-red-600/80 hover:bg-red-600"
-                    onClick={() => removeAt(idx)}
-                  >
-                    Remove
-                  </button>
+                <div className="mt-1 text-[11px] text-slate-500 truncate">
+                  {p.image.originalName}
                 </div>
+                <SizeNote image={p.image} />
               </div>
-            </div>
-          ))}
-        </div>
-      ) : (
-        <div className="mt-4 text-sm text-slate-400">No images selected.</div>
-      )}
+            ))}
+          </div>
+          <div className="mt-2 text-xs text-slate-400">
+            Tip: the first image becomes the cover (after deletions/reorder),
+            then the rest follow.
+          </div>
+        </>
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,21 @@
+import { priceDropAmount } from "../../../lib/db/listings";
+import type { Listing } from "../../../types/car";
+
+type Props = {
+  listing: Pick<Listing, "price" | "previous_price" | "price_dropped_at">;
+  className?: string;
+};
+
+export function PriceDropBadge({ listing, className = "" }: Props) {
+  const drop = priceDropAmount(listing);
+  if (drop === null) return null;
+
+  return (
+    <span
+      className={`inline-block text-xs px-2 py-0.5 rounded-full bg-emerald-600/20 text-emerald-200 border border-emerald-700/50 ${className}`}
+      title={`Was $${listing.previous_price!.toLocaleString()}`}
+    >
+      Price dropped ${drop.toLocaleString()}
+    </span>
+  );
+}
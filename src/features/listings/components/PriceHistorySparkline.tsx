@@ -0,0 +1,74 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchPriceHistory } from "../../../lib/db/priceHistory";
+
+const WIDTH = 240;
+const HEIGHT = 48;
+const PAD = 4;
+
+// Tiny inline SVG chart of a listing's asking price over time. Renders nothing
+// until there are at least two prices to compare.
+export function PriceHistorySparkline({ listingId }: { listingId: string }) {
+  const { data: history = [] } = useQuery({
+    queryKey: ["price-history", listingId],
+    queryFn: () => fetchPriceHistory(listingId),
+    staleTime: 1000 * 60,
+  });
+
+  if (history.length < 2) return null;
+
+  const prices = history.map((h) => h.price);
+  const times = history.map((h) => new Date(h.created_at).getTime());
+  const [minP, maxP] = [Math.min(...prices), Math.max(...prices)];
+  const [minT, maxT] = [times[0], times[times.length - 1]];
+
+  // Flat series sit in the middle; a zero time span spreads points evenly.
+  const x = (i: number) =>
+    PAD +
+    (maxT > minT
+      ? ((times[i] - minT) / (maxT - minT)) * (WIDTH - 2 * PAD)
+      : (i / (history.length - 1)) * (WIDTH - 2 * PAD));
+  const y = (p: number) =>
+    maxP > minP
+      ? PAD + (1 - (p - minP) / (maxP - minP)) * (HEIGHT - 2 * PAD)
+      : HEIGHT / 2;
+
+  const points = prices.map((p, i) => `${x(i)},${y(p)}`).join(" ");
+  const first = prices[0];
+  const last = prices[prices.length - 1];
+  const stroke =
+    last < first ? "#34d399" : last > first ? "#f87171" : "#94a3b8";
+
+  return (
+    <div className="rounded-xl border border-slate-800 bg-slate-950/30 p-4">
+      <div className="text-xs text-slate-400">Price history</div>
+      <svg
+        width={WIDTH}
+        height={HEIGHT}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="mt-2"
+        role="img"
+        aria-label={`Price went from $${first.toLocaleString()} to $${last.toLocaleString()}`}
+      >
+        <polyline
+          points={points}
+          fill="none"
+          stroke={stroke}
+          strokeWidth={2}
+          strokeLinejoin="round"
+        />
+        {prices.map((p, i) => (
+          <circle key={history[i].id} cx={x(i)} cy={y(p)} r={2.5} fill={stroke}>
+            <title>
+              ${p.toLocaleString()} ·{" "}
+              {new Date(history[i].created_at).toLocaleDateString()}
+            </title>
+          </circle>
+        ))}
+      </svg>
+      <div className="text-xs text-slate-400 mt-1">
+        {history.length} prices since{" "}
+        {new Date(history[0].created_at).toLocaleDateString()}
+      </div>
+    </div>
+  );
+}
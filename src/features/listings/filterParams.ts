@@ -0,0 +1,98 @@
+// src/features/listings/filterParams.ts
+import { DEFAULT_MAX_PRICE, EMPTY_FILTERS } from "../../lib/db/listings";
+import type { ListingFilters } from "../../lib/db/listings";
+
+// URL query string <-> ListingFilters. Defaults are left out of the URL so
+// links stay short and "unlimited" never shows up as a giant number.
+
+export function toNumber(value: string | null, fallback: number) {
+  if (value === null || value === undefined || value === "") return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : fallback;
+}
+
+export function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+function toList(value: string | null) {
+  return (value ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+export function filtersFromParams(params: URLSearchParams): ListingFilters {
+  const year = (key: string) => clamp(toNumber(params.get(key), 0), 0, 3000);
+
+  return {
+    search: params.get("q") ?? "",
+    make: params.get("make") ?? "",
+    // Models only make sense under a make
+    models: params.get("make") ? toList(params.get("models")) : [],
+    zip: params.get("zip") ?? "",
+    radiusMiles: clamp(toNumber(params.get("radius"), 0), 0, 500),
+    minPrice: clamp(toNumber(params.get("minPrice"), 0), 0, DEFAULT_MAX_PRICE),
+    // If maxPrice is missing in URL => unlimited
+    maxPrice: clamp(
+      toNumber(params.get("maxPrice"), DEFAULT_MAX_PRICE),
+      0,
+      DEFAULT_MAX_PRICE,
+    ),
+    minYear: year("minYear"),
+    maxYear: year("maxYear"),
+    maxMileage: clamp(
+      toNumber(params.get("maxMileage"), 0),
+      0,
+      Number.MAX_SAFE_INTEGER,
+    ),
+    fuelTypes: toList(params.get("fuel")),
+    transmissions: toList(params.get("trans")),
+    priceDropped: params.get("drop") === "1",
+  };
+}
+
+/**
+ * Writes filters into `params` (in place), deleting keys at their default.
+ */
+export function writeFilterParams(
+  params: URLSearchParams,
+  filters: ListingFilters,
+) {
+  const put = (key: string, value: string, isDefault: boolean) => {
+    if (isDefault) params.delete(key);
+    else params.set(key, value);
+  };
+
+  put("q", filters.search, !filters.search);
+  put("make", filters.make, !filters.make);
+  put("models", filters.models.join(","), !filters.models.length);
+  put("zip", filters.zip, !filters.zip);
+  put("radius", String(filters.radiusMiles), !(filters.radiusMiles > 0));
+  put(
+    "minPrice",
+    String(filters.minPrice),
+    filters.minPrice === EMPTY_FILTERS.minPrice,
+  );
+  // Only store maxPrice in URL if it's not "unlimited"
+  put(
+    "maxPrice",
+    String(filters.maxPrice),
+    filters.maxPrice === DEFAULT_MAX_PRICE,
+  );
+  put("minYear", String(filters.minYear), !filters.minYear);
+  put("maxYear", String(filters.maxYear), !filters.maxYear);
+  put("maxMileage", String(filters.maxMileage), !filters.maxMileage);
+  put("fuel", filters.fuelTypes.join(","), !filters.fuelTypes.length);
+  put("trans", filters.transmissions.join(","), !filters.transmissions.length);
+  put("drop", "1", !filters.priceDropped);
+}
+
+/**
+ * Stable string for a filter set; handy as an effect dependency.
+ */
+export function filtersKey(filters: ListingFilters) {
+  const params = new URLSearchParams();
+  writeFilterParams(params, filters);
+  return params.toString();
+}
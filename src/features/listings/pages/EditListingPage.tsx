@@ -1,81 +1,31 @@
 // src/features/listings/pages/EditListingPage.tsx
 import { Link, useNavigate, useParams } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
-import { supabase } from "../../../lib/supabase";
 import { ListingForm } from "../components/ListingForm";
-import type { ListingRow } from "../components/ListingForm";
-import { fetchAuthUser } from "../../../lib/auth";
-import { fetchIsAdmin } from "../../../lib/admin";
-
-async function fetchListing(id: string) {
-  const { data, error } = await supabase
-    .from("listings")
-    .select("*")
-    .eq("id", id)
-    .single();
-
-  if (error) throw error;
-  return data as ListingRow;
-}
+import { fetchListing } from "../../../lib/db/listings";
+import { useAuth } from "../../auth/authContext";
 
 export function EditListingPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  // Routed under RequireAuth, so there is always a user here
+  const { userId, isAdmin, roleLoading } = useAuth();
 
-  if (!id) {
-    return (
-      <div className="min-h-screen bg-slate-950 text-white p-6">
-        <div className="text-red-300">Missing listing id.</div>
-        <Link to="/listings" className="text-blue-400 hover:underline">
-          Back to listings
-        </Link>
-      </div>
-    );
-  }
-
-  // 1) Load auth user
   const {
-    data: user,
-    isLoading: isAuthLoading,
-    isError: isAuthError,
-    error: authError,
+    data: listing,
+    isLoading: isListingLoading,
+    isError: isListingError,
+    error: listingError,
   } = useQuery({
-    queryKey: ["auth-user"],
-    queryFn: fetchAuthUser,
-    staleTime: 1000 * 30,
+    queryKey: ["listing-edit", id],
+    queryFn: () => fetchListing(id!),
+    enabled: !!id,
   });
 
-  const userId = user?.id ?? null;
-
-  // Auth loading / error states
-  if (isAuthLoading) {
-    return (
-      <div className="min-h-screen bg-slate-950 text-white p-6">
-        Loading session…
-      </div>
-    );
-  }
-
-  if (isAuthError) {
-    return (
-      <div className="min-h-screen bg-slate-950 text-white p-6">
-        <div className="text-red-300">
-          Auth error: {(authError as any)?.message ?? "Unknown error"}
-        </div>
-        <Link to="/listings" className="text-blue-400 hover:underline">
-          Back to listings
-        </Link>
-      </div>
-    );
-  }
-
-  // Require login for edit page
-  if (!userId) {
+  if (!id) {
     return (
       <div className="min-h-screen bg-slate-950 text-white p-6">
-        <div className="text-slate-300">
-          You need to be logged in to edit listings.
-        </div>
+        <div className="text-red-300">Missing listing id.</div>
         <Link to="/listings" className="text-blue-400 hover:underline">
           Back to listings
         </Link>
@@ -83,31 +33,7 @@ export function EditListingPage() {
     );
   }
 
-  // 2) Load admin flag (only once user is known)
-  const {
-    data: isAdmin,
-    isLoading: isAdminLoading,
-    isError: isAdminError,
-  } = useQuery({
-    queryKey: ["is-admin", userId],
-    enabled: !!userId,
-    queryFn: () => fetchIsAdmin(userId),
-    staleTime: 1000 * 30,
-  });
-
-  // 3) Load the listing
-  const {
-    data: listing,
-    isLoading: isListingLoading,
-    isError: isListingError,
-    error: listingError,
-  } = useQuery({
-    queryKey: ["listing-edit", id],
-    queryFn: () => fetchListing(id),
-    enabled: !!id && !!userId,
-  });
-
-  if (isListingLoading || isAdminLoading) {
+  if (isListingLoading || roleLoading) {
     return (
       <div className="min-h-screen bg-slate-950 text-white p-6">
         Loading listing…
@@ -140,10 +66,7 @@ export function EditListingPage() {
     );
   }
 
-  // If admin lookup errored, default to non-admin (but don't crash)
-  const admin = !!isAdmin && !isAdminError;
-
-  const canEdit = admin || listing.seller_id === userId;
+  const canEdit = isAdmin || listing.seller_id === userId;
 
   if (!canEdit) {
     return (
@@ -0,0 +1,43 @@
+// src/features/listings/pages/HomePage.tsx
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { FilterBar } from "../components/FilterBar";
+import { FeaturedListings } from "../components/FeaturedListings";
+import {
+  filtersFromParams,
+  filtersKey,
+  writeFilterParams,
+} from "../filterParams";
+import type { ListingFilters } from "../../../lib/db/listings";
+
+export function HomePage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Same URL format and defaults as the Browse page, so links are shareable
+  // and filters survive a reload or Back
+  const urlFilters = useMemo<ListingFilters>(
+    () => filtersFromParams(searchParams),
+    [searchParams],
+  );
+
+  const [filters, setFilters] = useState<ListingFilters>(urlFilters);
+
+  useEffect(() => setFilters(urlFilters), [urlFilters]);
+
+  const currentFiltersKey = filtersKey(filters);
+
+  // Push local state -> URL
+  useEffect(() => {
+    const next = new URLSearchParams(searchParams);
+    writeFilterParams(next, filters);
+    setSearchParams(next, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentFiltersKey]);
+
+  return (
+    <main>
+      <FilterBar filters={filters} setFilters={setFilters} />
+      <FeaturedListings filters={filters} />
+    </main>
+  );
+}
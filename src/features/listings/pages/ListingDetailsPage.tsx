@@ -1,55 +1,32 @@
-import { Link, useParams } from "react-router-dom";
+import { Link, useNavigate, useParams } from "react-router-dom";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useState } from "react";
-import { supabase } from "../../../lib/supabase";
-import { fetchIsAdmin } from "../../../lib/admin";
+import { displayName, fetchPublicProfile } from "../../../lib/db/profiles";
+import { fetchListing } from "../../../lib/db/listings";
+import { canTransition, markListingSold } from "../../../lib/db/listingStatus";
+import { withExpiry } from "../../../lib/db/listingExpiry";
+import {
+  addFavorite,
+  isFavorite,
+  removeFavorite,
+} from "../../../lib/db/favorites";
+import { publicUrl, sortImages } from "../../../lib/db/images";
+import { ReportModal } from "../../../components/ReportModal";
+import { SellerAvatar } from "../../sellers/components/SellerAvatar";
+import { useAuth } from "../../auth/authContext";
+import { useLoginPath } from "../../auth/useLoginPath";
 import { ContactSellerModal } from "../components/ContactSellerModal";
+import { TestDriveSection } from "../../appointments/components/TestDriveSection";
+import { PriceDropBadge } from "../components/PriceDropBadge";
+import { PriceHistorySparkline } from "../components/PriceHistorySparkline";
+import { STATUS_BADGE_CLASSES, STATUS_LABELS } from "../statusOptions";
 
-type ListingImage = {
-  bucket: string;
-  path: string;
-  position: number;
-};
-
-type ListingRow = {
-  id: string;
-  seller_id: string;
-  make: string;
-  model: string;
-  year: number | null;
-  price: number | string;
-  mileage: number | null;
-  fuel_type: string | null;
-  transmission: string | null;
-  description: string | null;
-  location: string | null;
-  created_at: string | null;
-  listing_images?: ListingImage[] | null;
-};
-
-async function fetchListing(id: string) {
-  const { data, error } = await supabase
-    .from("listings")
-    .select("*, listing_images(bucket, path, position)")
-    .eq("id", id)
-    .single();
-
-  if (error) throw error;
-  return data as ListingRow;
-}
-
-function publicUrl(bucket: string, path: string) {
-  return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
-}
-
-function formatMileage(mileage: any) {
-  if (typeof mileage === "number") return `${mileage.toLocaleString()} mi`;
+function formatMileage(mileage: number | null | undefined) {
   if (mileage === null || mileage === undefined) return "—";
-  const n = Number(mileage);
-  return Number.isFinite(n) ? `${n.toLocaleString()} mi` : String(mileage);
+  return `${mileage.toLocaleString()} mi`;
 }
 
-function formatDate(date: any) {
+function formatDate(date: string | null | undefined) {
   if (!date) return "—";
   const d = new Date(date);
   return Number.isNaN(d.getTime()) ? "—" : d.toLocaleDateString();
@@ -64,6 +41,7 @@ export function ListingDetailsPage() {
   // ✅ ALL HOOKS AT TOP (no hooks after early returns)
   const [notice, setNotice] = useState<string | null>(null);
   const [isContactOpen, setIsContactOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
 
   const {
     data: row,
@@ -76,36 +54,22 @@ export function ListingDetailsPage() {
     enabled: !!listingId,
   });
 
-  const { data: userId } = useQuery({
-    queryKey: ["auth-user-id"],
-    queryFn: async () => {
-      const { data, error } = await supabase.auth.getUser();
-      if (error) return null;
-      return data?.user?.id ?? null;
-    },
-    staleTime: 30_000,
-  });
+  const { userId, isAdmin } = useAuth();
+  const navigate = useNavigate();
+  const loginTo = useLoginPath();
 
-  const { data: isAdmin } = useQuery({
-    queryKey: ["is-admin", userId],
-    queryFn: () => fetchIsAdmin(userId ?? null),
-    enabled: !!userId,
+  const sellerId = row?.seller_id;
+  const { data: seller } = useQuery({
+    queryKey: ["public-profile", sellerId],
+    enabled: !!sellerId,
+    queryFn: () => fetchPublicProfile(sellerId!),
     staleTime: 60_000,
   });
 
   const { data: isFav } = useQuery({
     queryKey: ["favorite", userId, listingId],
     enabled: !!userId && !!listingId,
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("favorites")
-        .select("id")
-        .eq("user_id", userId!)
-        .eq("listing_id", listingId!)
-        .maybeSingle();
-      if (error) throw error;
-      return !!data?.id;
-    },
+    queryFn: () => isFavorite(userId!, listingId!),
     staleTime: 10_000,
   });
 
@@ -115,19 +79,11 @@ export function ListingDetailsPage() {
       if (!listingId) throw new Error("Missing listing id.");
 
       if (isFav) {
-        const { error } = await supabase
-          .from("favorites")
-          .delete()
-          .eq("user_id", userId)
-          .eq("listing_id", listingId);
-        if (error) throw error;
+        await removeFavorite(userId, listingId);
         return false;
       }
 
-      const { error } = await supabase
-        .from("favorites")
-        .insert({ user_id: userId, listing_id: listingId });
-      if (error) throw error;
+      await addFavorite(userId, listingId);
       return true;
     },
     onSuccess: async () => {
@@ -139,6 +95,18 @@ export function ListingDetailsPage() {
     },
   });
 
+  const markSold = useMutation({
+    mutationFn: () => markListingSold(listingId!),
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["listing", listingId] });
+      await qc.invalidateQueries({ queryKey: ["my-listings"] });
+      await qc.invalidateQueries({ queryKey: ["listings"] });
+    },
+    onError: (e: Error) => {
+      setNotice(e.message || "Could not mark as sold.");
+    },
+  });
+
   // ✅ EARLY RETURNS AFTER ALL HOOKS
   if (!listingId) {
     return (
@@ -181,14 +149,18 @@ export function ListingDetailsPage() {
   }
 
   // ✅ NOT A HOOK: safe to compute after early returns
-  const images = (row.listing_images ?? [])
-    .slice()
-    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+  const images = sortImages(row.listing_images);
 
   const cover = images[0];
   const coverUrl = cover ? publicUrl(cover.bucket, cover.path) : null;
 
   const canEdit = !!userId && (userId === row.seller_id || !!isAdmin);
+  const isOwner = !!userId && userId === row.seller_id;
+  // Lapsed listings read as expired even before the expiry job runs
+  const status = withExpiry(row).status;
+  // Sold/removed/expired/hidden stay viewable by link but can't be enquired about
+  const isOpen =
+    (status === "active" || status === "pending") && !row.hidden_at;
 
   return (
     <div className="min-h-screen bg-slate-950 text-white">
@@ -215,15 +187,30 @@ export function ListingDetailsPage() {
           <div className="flex items-start justify-between gap-4 flex-wrap">
             <div>
               <h1 className="text-2xl font-semibold">
-                {row.make} {row.model} {row.year ? `(${row.year})` : ""}
+                {row.make} {row.model} ({row.year})
               </h1>
+              {status !== "active" ? (
+                <span
+                  className={`inline-block mt-2 text-xs px-2 py-1 rounded-lg ${STATUS_BADGE_CLASSES[status]}`}
+                >
+                  {STATUS_LABELS[status]}
+                </span>
+              ) : null}
+              {row.hidden_at ? (
+                <span className="inline-block mt-2 ml-2 text-xs px-2 py-1 rounded-lg bg-red-500/15 text-red-200">
+                  Hidden by moderators
+                </span>
+              ) : null}
               <p className="text-slate-400 mt-1 text-sm">
                 Posted: {formatDate(row.created_at)}
               </p>
             </div>
 
-            <div className="text-2xl font-bold">
-              ${Number(row.price).toLocaleString()}
+            <div className="text-right">
+              <div className="text-2xl font-bold">
+                ${Number(row.price).toLocaleString()}
+              </div>
+              <PriceDropBadge listing={row} className="mt-1" />
             </div>
           </div>
 
@@ -265,9 +252,30 @@ export function ListingDetailsPage() {
             <Spec label="Mileage" value={formatMileage(row.mileage)} />
             <Spec label="Transmission" value={row.transmission ?? "—"} />
             <Spec label="Fuel" value={row.fuel_type ?? "—"} />
-            <Spec label="Location" value={row.location ?? "—"} />
+            <Spec label="Location" value={row.zip_code ?? "—"} />
           </div>
 
+          <div className="mt-4">
+            <PriceHistorySparkline listingId={row.id} />
+          </div>
+
+          {/* Seller */}
+          <Link
+            to={`/sellers/${row.seller_id}`}
+            className="mt-6 flex items-center gap-3 rounded-xl border border-slate-800 bg-slate-950/30 p-4 hover:border-slate-700"
+          >
+            <SellerAvatar profile={seller} userId={row.seller_id} />
+            <div>
+              <div className="text-xs text-slate-400">Sold by</div>
+              <div className="text-slate-100">
+                {displayName(seller, row.seller_id)}
+              </div>
+            </div>
+            <span className="ml-auto text-sm text-blue-300">
+              View profile →
+            </span>
+          </Link>
+
           {/* Description */}
           <div className="mt-6">
             <h2 className="font-semibold">Description</h2>
@@ -284,7 +292,7 @@ export function ListingDetailsPage() {
               onClick={() => {
                 setNotice(null);
                 if (!userId) {
-                  setNotice("Please sign in to save favorites.");
+                  navigate(loginTo);
                   return;
                 }
                 toggleFavorite.mutate();
@@ -295,11 +303,13 @@ export function ListingDetailsPage() {
             </button>
 
             <button
-              className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700"
+              className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+              disabled={!isOpen}
+              title={isOpen ? undefined : "This listing is no longer available"}
               onClick={() => {
                 setNotice(null);
                 if (!userId) {
-                  setNotice("Please sign in to contact sellers.");
+                  navigate(loginTo);
                   return;
                 }
                 if (userId === row.seller_id) {
@@ -313,6 +323,17 @@ export function ListingDetailsPage() {
               Contact seller
             </button>
 
+            {isOwner && canTransition(status, "sold") ? (
+              <button
+                className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+                disabled={markSold.isPending}
+                onClick={() => markSold.mutate()}
+                type="button"
+              >
+                Mark as sold
+              </button>
+            ) : null}
+
             {canEdit ? (
               <Link
                 to={`/listings/${row.id}/edit`}
@@ -321,8 +342,20 @@ export function ListingDetailsPage() {
                 Edit
               </Link>
             ) : null}
+
+            {userId && !isOwner ? (
+              <button
+                className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-red-300"
+                onClick={() => setIsReportOpen(true)}
+                type="button"
+              >
+                Report listing
+              </button>
+            ) : null}
           </div>
         </div>
+
+        <TestDriveSection listing={row} userId={userId} />
       </div>
 
       <ContactSellerModal
@@ -331,6 +364,15 @@ export function ListingDetailsPage() {
         listingId={row.id}
         sellerId={row.seller_id}
       />
+
+      {userId ? (
+        <ReportModal
+          open={isReportOpen}
+          onClose={() => setIsReportOpen(false)}
+          reporterId={userId}
+          target={{ kind: "listing", listing: row }}
+        />
+      ) : null}
     </div>
   );
 }
@@ -0,0 +1,14 @@
+import type { ListingSort } from "../../lib/db/listings";
+
+// Labels for the Browse sort select (and anywhere a saved sort is shown).
+
+export const SORT_LABELS: Record<ListingSort, string> = {
+  newest: "Newest",
+  price_asc: "Price: Low → High",
+  price_desc: "Price: High → Low",
+  mileage_asc: "Mileage: Lowest",
+  year_desc: "Year: Newest",
+  year_asc: "Year: Oldest",
+  distance_asc: "Distance: Nearest",
+  price_drop: "Recent price drops",
+};
@@ -0,0 +1,37 @@
+import type { ListingStatus } from "../../types/car";
+
+// Labels and badge colours for listing statuses (MyListingsPage, details page).
+
+export const STATUS_LABELS: Record<ListingStatus, string> = {
+  draft: "Draft",
+  active: "Active",
+  pending: "Sale pending",
+  sold: "Sold",
+  expired: "Expired",
+  removed: "Removed",
+};
+
+export const STATUS_BADGE_CLASSES: Record<ListingStatus, string> = {
+  draft: "bg-slate-800 text-slate-300 border border-slate-700",
+  active: "bg-emerald-600/20 text-emerald-200 border border-emerald-700/50",
+  pending: "bg-amber-500/20 text-amber-200 border border-amber-600/50",
+  sold: "bg-blue-600/20 text-blue-200 border border-blue-700/50",
+  expired: "bg-slate-800 text-slate-400 border border-slate-700",
+  removed: "bg-red-900/30 text-red-200 border border-red-800/50",
+};
+
+export function expiryLabel(daysLeft: number) {
+  if (daysLeft < 0) return "Expired";
+  if (daysLeft === 0) return "Expires today";
+  return `Expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`;
+}
+
+// Button text for moving a listing *to* a status
+export const STATUS_ACTIONS: Record<ListingStatus, string> = {
+  draft: "Move to drafts",
+  active: "Publish",
+  pending: "Mark sale pending",
+  sold: "Mark as sold",
+  expired: "Expire",
+  removed: "Remove",
+};
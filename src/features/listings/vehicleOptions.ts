@@ -0,0 +1,6 @@
+// Values stored in listings.fuel_type / listings.transmission.
+// ListingForm writes them; FilterBar filters on them.
+
+export const FUEL_TYPES = ["Gasoline", "Diesel", "Hybrid", "Electric"];
+
+export const TRANSMISSIONS = ["Automatic", "Manual", "CVT", "DCT"];
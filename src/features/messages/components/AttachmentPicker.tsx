@@ -0,0 +1,90 @@
+import { useState } from "react";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  attachmentError,
+} from "../../../lib/db/messageAttachments";
+import { formatBytes } from "../../../lib/format";
+
+type Props = {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+};
+
+/**
+ * "Attach" button plus chips for the picked files. Files that can't be sent
+ * are rejected here with a message instead of failing on send.
+ */
+export function AttachmentPicker({ files, onChange, disabled }: Props) {
+  const [rejected, setRejected] = useState<string[]>([]);
+
+  const onPick = (list: FileList | null) => {
+    if (!list) return;
+    const errors: string[] = [];
+    const next = [...files];
+    for (const f of Array.from(list)) {
+      const err = attachmentError(f);
+      if (err) errors.push(err);
+      else if (next.length >= MAX_ATTACHMENTS)
+        errors.push(`Attach at most ${MAX_ATTACHMENTS} files per message.`);
+      else next.push(f);
+    }
+    setRejected(errors);
+    onChange(next);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 flex-wrap">
+        <label
+          className={`px-3 py-1.5 rounded-lg bg-slate-800 text-sm ${
+            disabled ? "opacity-50" : "hover:bg-slate-700 cursor-pointer"
+          }`}
+          title="Photos or PDFs"
+        >
+          📎 Attach
+          <input
+            type="file"
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            className="hidden"
+            disabled={disabled}
+            onChange={(e) => {
+              onPick(e.target.files);
+              // allow picking the same file again after removing it
+              e.target.value = "";
+            }}
+          />
+        </label>
+
+        {files.map((f, idx) => (
+          <span
+            key={`${f.name}-${idx}`}
+            className="flex items-center gap-2 text-xs px-2 py-1 rounded-full border border-slate-700 bg-slate-900/60 text-slate-200"
+          >
+            {f.type === "application/pdf" ? "📄" : "🖼️"} {f.name}
+            <span className="text-slate-500">{formatBytes(f.size)}</span>
+            <button
+              type="button"
+              className="text-slate-400 hover:text-white"
+              onClick={() => onChange(files.filter((_, i) => i !== idx))}
+              disabled={disabled}
+              aria-label={`Remove ${f.name}`}
+            >
+              ✕
+            </button>
+          </span>
+        ))}
+      </div>
+
+      {rejected.length ? (
+        <div className="mt-2 text-xs text-amber-200">
+          {rejected.map((r) => (
+            <div key={r}>{r}</div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
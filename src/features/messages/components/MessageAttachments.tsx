@@ -0,0 +1,74 @@
+import { isImageAttachment } from "../../../lib/db/messageAttachments";
+import type { MessageAttachment } from "../../../lib/db/messageAttachments";
+import { formatBytes } from "../../../lib/format";
+
+/**
+ * Images as thumbnails that open full size, everything else as a download
+ * link. URLs are signed and short-lived, so they're never cached elsewhere.
+ */
+export function MessageAttachments({
+  attachments,
+}: {
+  attachments: MessageAttachment[];
+}) {
+  if (!attachments.length) return null;
+
+  const images = attachments.filter(isImageAttachment);
+  const files = attachments.filter((a) => !isImageAttachment(a));
+
+  return (
+    <div className="mt-2 flex flex-col gap-2">
+      {images.length ? (
+        <div className="flex flex-wrap gap-2">
+          {images.map((a) =>
+            a.url ? (
+              <a
+                key={a.id}
+                href={a.url}
+                target="_blank"
+                rel="noreferrer"
+                title={a.file_name}
+              >
+                <img
+                  src={a.url}
+                  alt={a.file_name}
+                  className="w-32 h-24 object-cover rounded-lg border border-slate-800"
+                />
+              </a>
+            ) : (
+              <Unavailable key={a.id} name={a.file_name} />
+            ),
+          )}
+        </div>
+      ) : null}
+
+      {files.map((a) =>
+        a.url ? (
+          <a
+            key={a.id}
+            href={a.url}
+            target="_blank"
+            rel="noreferrer"
+            download={a.file_name}
+            className="flex items-center gap-2 text-sm px-3 py-2 rounded-lg border border-slate-800 bg-slate-950/40 hover:bg-slate-900"
+          >
+            📄 <span className="underline">{a.file_name}</span>
+            <span className="text-xs text-slate-400">
+              {formatBytes(a.size_bytes)}
+            </span>
+          </a>
+        ) : (
+          <Unavailable key={a.id} name={a.file_name} />
+        ),
+      )}
+    </div>
+  );
+}
+
+function Unavailable({ name }: { name: string }) {
+  return (
+    <div className="text-xs text-slate-400 px-3 py-2 rounded-lg border border-dashed border-slate-700">
+      {name} (unavailable)
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Link } from "react-router-dom";
+import { useAuth } from "../../auth/authContext";
+import { useLiveInquiries, useUnreadCounts } from "../liveMessages";
+
+// Nav entry with the unread badge. Being always mounted, it also owns the
+// app-wide live message subscription that keeps the badge current.
+export function MessagesNavLink() {
+  const { userId } = useAuth();
+
+  useLiveInquiries(userId);
+  const { data: unread } = useUnreadCounts(userId);
+
+  if (!userId) return null;
+
+  const total = unread?.total ?? 0;
+
+  return (
+    <Link
+      to="/messages"
+      className="text-sm text-slate-300 hover:text-white flex items-center gap-1.5"
+    >
+      Messages
+      {total ? <UnreadBadge count={total} /> : null}
+    </Link>
+  );
+}
+
+export function UnreadBadge({ count }: { count: number }) {
+  return (
+    <span className="min-w-5 h-5 px-1.5 rounded-full bg-blue-600 text-white text-xs flex items-center justify-center">
+      {count > 99 ? "99+" : count}
+    </span>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  acceptOffer,
+  canRespond,
+  counterOffer,
+  declineOffer,
+  formatOfferAmount,
+  offerState,
+} from "../../../lib/db/offers";
+import type { OfferInput, OfferState } from "../../../lib/db/offers";
+import type { Offer } from "../../../types/car";
+import { OfferForm } from "./OfferForm";
+
+const STATE_LABELS: Record<OfferState, string> = {
+  pending: "Awaiting response",
+  accepted: "Accepted",
+  declined: "Declined",
+  countered: "Countered",
+  expired: "Expired",
+};
+
+const STATE_CLASSES: Record<OfferState, string> = {
+  pending: "bg-amber-500/15 text-amber-200 border-amber-500/30",
+  accepted: "bg-emerald-500/15 text-emerald-200 border-emerald-500/30",
+  declined: "bg-red-500/15 text-red-200 border-red-500/30",
+  countered: "bg-slate-700/40 text-slate-300 border-slate-600",
+  expired: "bg-slate-700/40 text-slate-400 border-slate-600",
+};
+
+type Props = {
+  offer: Offer;
+  userId: string;
+  /** Called after any response so the thread and listing can refresh. */
+  onChanged: () => void | Promise<void>;
+};
+
+export function OfferCard({ offer, userId, onChanged }: Props) {
+  const [countering, setCountering] = useState(false);
+  const state = offerState(offer);
+  const respond = canRespond(offer, userId);
+  const fromMe = offer.created_by === userId;
+
+  const action = useMutation({
+    mutationFn: async (
+      a:
+        | { kind: "accept" | "decline" }
+        | { kind: "counter"; input: OfferInput },
+    ) => {
+      if (a.kind === "counter") await counterOffer(offer, userId, a.input);
+      else if (a.kind === "accept") await acceptOffer(offer, userId);
+      else await declineOffer(offer, userId);
+    },
+    onSuccess: async () => {
+      setCountering(false);
+      await onChanged();
+    },
+  });
+
+  return (
+    <div className="rounded-xl border border-emerald-500/30 bg-emerald-500/5 p-3 min-w-[220px]">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="text-xs uppercase tracking-wide text-slate-400">
+            {offer.parent_offer_id ? "Counter-offer" : "Offer"}
+            {fromMe ? " · you" : ""}
+          </div>
+          <div className="text-2xl font-semibold">
+            {formatOfferAmount(offer.amount)}
+          </div>
+        </div>
+        <span
+          className={`text-xs px-2 py-0.5 rounded-full border ${STATE_CLASSES[state]}`}
+        >
+          {STATE_LABELS[state]}
+        </span>
+      </div>
+
+      {offer.note ? (
+        <div className="mt-2 text-sm text-slate-200 whitespace-pre-line">
+          {offer.note}
+        </div>
+      ) : null}
+
+      {state === "pending" ? (
+        <div className="mt-2 text-xs text-slate-400">
+          Open until {new Date(offer.expires_at).toLocaleString()}
+        </div>
+      ) : null}
+
+      {respond && !countering ? (
+        <div className="mt-3 flex gap-2">
+          <button
+            className="px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-sm"
+            onClick={() => action.mutate({ kind: "accept" })}
+            disabled={action.isPending}
+          >
+            Accept
+          </button>
+          <button
+            className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-sm"
+            onClick={() => action.mutate({ kind: "decline" })}
+            disabled={action.isPending}
+          >
+            Decline
+          </button>
+          <button
+            className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-sm"
+            onClick={() => setCountering(true)}
+            disabled={action.isPending}
+          >
+            Counter
+          </button>
+        </div>
+      ) : null}
+
+      {countering ? (
+        <div className="mt-3">
+          <OfferForm
+            submitLabel="Send counter"
+            pending={action.isPending}
+            onSubmit={(input) => action.mutate({ kind: "counter", input })}
+            onCancel={() => setCountering(false)}
+          />
+        </div>
+      ) : null}
+
+      {action.isError ? (
+        <div className="mt-2 text-sm text-amber-200">
+          {(action.error as Error)?.message ?? "Could not update the offer"}
+        </div>
+      ) : null}
+    </div>
+  );
+}
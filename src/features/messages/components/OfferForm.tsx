@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { OFFER_EXPIRY_DAYS } from "../../../lib/db/offers";
+import type { OfferInput } from "../../../lib/db/offers";
+
+type Props = {
+  submitLabel: string;
+  pending?: boolean;
+  onSubmit: (input: OfferInput) => void;
+  onCancel?: () => void;
+};
+
+export function OfferForm({ submitLabel, pending, onSubmit, onCancel }: Props) {
+  const [amount, setAmount] = useState("");
+  const [days, setDays] = useState<number>(2);
+  const [note, setNote] = useState("");
+
+  return (
+    <form
+      className="rounded-xl border border-slate-800 bg-slate-900/40 p-3 flex flex-col gap-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onSubmit({ amount: Number(amount), expiresInDays: days, note });
+      }}
+    >
+      <div className="flex gap-3 flex-wrap">
+        <label className="text-sm text-slate-300 flex-1 min-w-[140px]">
+          Amount ($)
+          <input
+            type="number"
+            min={1}
+            step={50}
+            inputMode="numeric"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            className="mt-1 w-full rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-slate-100 outline-none focus:border-slate-600"
+            disabled={pending}
+            required
+          />
+        </label>
+        <label className="text-sm text-slate-300">
+          Open for
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="mt-1 block rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-slate-100"
+            disabled={pending}
+          >
+            {OFFER_EXPIRY_DAYS.map((d) => (
+              <option key={d} value={d}>
+                {d === 1 ? "1 day" : `${d} days`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <input
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        placeholder="Note (optional), e.g. cash, can pick up this weekend"
+        className="rounded-lg border border-slate-800 bg-slate-950/40 px-3 py-2 text-sm text-slate-100 placeholder:text-slate-500 outline-none focus:border-slate-600"
+        disabled={pending}
+        maxLength={200}
+      />
+
+      <div className="flex justify-end gap-2">
+        {onCancel ? (
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+            onClick={onCancel}
+            disabled={pending}
+          >
+            Cancel
+          </button>
+        ) : null}
+        <button
+          type="submit"
+          className="px-3 py-1.5 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-sm"
+          disabled={pending}
+        >
+          {pending ? "Sending…" : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,105 @@
+// src/features/messages/liveMessages.ts
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchUnreadCounts,
+  joinThreadPresence,
+  subscribeToInquiries,
+} from "../../lib/db/inquiries";
+import type { ThreadMessage, ThreadPresence } from "../../lib/db/inquiries";
+
+// Stop showing "typing…" this long after the last keystroke
+const TYPING_IDLE_MS = 3000;
+
+/**
+ * Keeps the inbox and any cached thread in sync with new messages while the
+ * calling component is mounted.
+ */
+export function useLiveInquiries(userId: string | null | undefined) {
+  const qc = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    return subscribeToInquiries(userId, (row) => {
+      const threadKey = ["thread", row.listing_id, row.buyer_id, userId];
+      qc.setQueryData<ThreadMessage[]>(threadKey, (prev) =>
+        // Our own sends come back through the feed too
+        prev && !prev.some((m) => m.id === row.id)
+          ? [
+              ...prev,
+              { ...row, attachments: [], offer: null, appointment: null },
+            ]
+          : prev,
+      );
+      // Show the text right away; the refetch brings attachments and offers
+      void qc.invalidateQueries({ queryKey: threadKey });
+      void qc.invalidateQueries({ queryKey: ["inbox", userId] });
+      void qc.invalidateQueries({ queryKey: ["unread", userId] });
+    });
+  }, [qc, userId]);
+}
+
+/**
+ * Presence for one thread: whether the other participant has it open or is
+ * typing, plus a `notifyTyping` to call on every keystroke.
+ */
+export function useThreadPresence(
+  listingId: string | undefined,
+  buyerId: string | undefined,
+  userId: string | null | undefined,
+) {
+  const [presence, setPresence] = useState<ThreadPresence>({
+    online: [],
+    typing: [],
+  });
+  const handle = useRef<ReturnType<typeof joinThreadPresence> | null>(null);
+  const idleTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!listingId || !buyerId || !userId) return;
+
+    const h = joinThreadPresence({ listingId, buyerId }, userId, setPresence);
+    handle.current = h;
+
+    return () => {
+      if (idleTimer.current) clearTimeout(idleTimer.current);
+      idleTimer.current = null;
+      handle.current = null;
+      h.leave();
+      setPresence({ online: [], typing: [] });
+    };
+  }, [listingId, buyerId, userId]);
+
+  const others = (ids: string[]) => ids.some((id) => id !== userId);
+
+  return {
+    otherOnline: others(presence.online),
+    otherTyping: others(presence.typing),
+    notifyTyping() {
+      if (!idleTimer.current) handle.current?.setTyping(true);
+      else clearTimeout(idleTimer.current);
+      idleTimer.current = setTimeout(() => {
+        idleTimer.current = null;
+        handle.current?.setTyping(false);
+      }, TYPING_IDLE_MS);
+    },
+    stopTyping() {
+      if (idleTimer.current) clearTimeout(idleTimer.current);
+      idleTimer.current = null;
+      handle.current?.setTyping(false);
+    },
+  };
+}
+
+/**
+ * Unread counts for the signed-in user (total + per thread key).
+ */
+export function useUnreadCounts(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: ["unread", userId],
+    enabled: !!userId,
+    queryFn: () => fetchUnreadCounts(userId!),
+    staleTime: 1000 * 30,
+  });
+}
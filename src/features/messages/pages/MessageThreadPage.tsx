@@ -1,25 +1,27 @@
 import { Link, useParams } from "react-router-dom";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useEffect, useRef, useState } from "react";
-import { supabase } from "../../../lib/supabase";
-
-type InquiryRow = {
-  id: string;
-  listing_id: string;
-  buyer_id: string;
-  seller_id: string;
-  message: string;
-  created_at: string;
-};
-
-type ListingRow = {
-  id: string;
-  make: string;
-  model: string;
-  year: number | null;
-  price: number | string;
-  seller_id: string;
-};
+import {
+  blockUser,
+  fetchBlockedUsers,
+  unblockUser,
+} from "../../../lib/db/blocks";
+import {
+  fetchListingMini,
+  fetchThread,
+  markThreadRead,
+  sendInquiry,
+} from "../../../lib/db/inquiries";
+import { makeOffer } from "../../../lib/db/offers";
+import type { OfferInput } from "../../../lib/db/offers";
+import { useThreadPresence } from "../liveMessages";
+import { AttachmentPicker } from "../components/AttachmentPicker";
+import { MessageAttachments } from "../components/MessageAttachments";
+import { OfferCard } from "../components/OfferCard";
+import { OfferForm } from "../components/OfferForm";
+import { AppointmentCard } from "../../appointments/components/AppointmentCard";
+import { ReportModal } from "../../../components/ReportModal";
+import { useSignedInUser } from "../../auth/authContext";
 
 export function MessageThreadPage() {
   const { listingId, buyerId } = useParams<{
@@ -29,29 +31,16 @@ export function MessageThreadPage() {
   const qc = useQueryClient();
 
   const [text, setText] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [offering, setOffering] = useState(false);
+  const [reporting, setReporting] = useState(false);
   const bottomRef = useRef<HTMLDivElement | null>(null);
-
-  const { data: userId } = useQuery({
-    queryKey: ["auth-user-id"],
-    queryFn: async () => {
-      const { data } = await supabase.auth.getUser();
-      return data?.user?.id ?? null;
-    },
-    staleTime: 30_000,
-  });
+  const userId = useSignedInUser().id;
 
   const { data: listing } = useQuery({
     queryKey: ["listing-mini", listingId],
     enabled: !!listingId,
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("listings")
-        .select("id, make, model, year, price, seller_id")
-        .eq("id", listingId!)
-        .single();
-      if (error) throw error;
-      return data as ListingRow;
-    },
+    queryFn: () => fetchListingMini(listingId!),
   });
 
   const {
@@ -61,45 +50,57 @@ export function MessageThreadPage() {
     error,
   } = useQuery({
     queryKey: ["thread", listingId, buyerId, userId],
-    enabled: !!listingId && !!buyerId && !!userId,
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from("inquiries")
-        .select("id, listing_id, buyer_id, seller_id, message, created_at")
-        .eq("listing_id", listingId!)
-        .eq("buyer_id", buyerId!)
-        .order("created_at", { ascending: true });
-
-      if (error) throw error;
-      return (data ?? []) as InquiryRow[];
-    },
+    enabled: !!listingId && !!buyerId,
+    queryFn: () => fetchThread(listingId!, buyerId!),
+  });
+
+  const { data: blocks } = useQuery({
+    queryKey: ["blocked-users", userId],
+    queryFn: () => fetchBlockedUsers(userId),
   });
 
+  // new messages arrive through MessagesNavLink's app-wide subscription
+  const presence = useThreadPresence(listingId, buyerId, userId);
+
   useEffect(() => {
     bottomRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages?.length]);
 
+  // Opening the thread (and every message that arrives while it's open)
+  // counts as reading it.
+  useEffect(() => {
+    const newest = messages?.at(-1);
+    if (!listingId || !buyerId || !newest) return;
+    markThreadRead(userId, listingId, buyerId, newest.created_at)
+      .then(() => qc.invalidateQueries({ queryKey: ["unread", userId] }))
+      .catch(() => {
+        // read state is cosmetic; try again on the next message
+      });
+  }, [qc, userId, listingId, buyerId, messages]);
+
   const send = useMutation({
     mutationFn: async () => {
-      if (!userId) throw new Error("Please sign in to send messages.");
       if (!listingId || !buyerId) throw new Error("Missing thread params.");
       if (!listing) throw new Error("Listing not loaded yet.");
       const trimmed = text.trim();
-      if (!trimmed) throw new Error("Type a message.");
+      if (!trimmed && !files.length) throw new Error("Type a message.");
 
-      const payload = {
-        listing_id: listingId,
-        buyer_id: buyerId,
-        seller_id: listing.seller_id,
-        message: trimmed,
-      };
-
-      const { error } = await supabase.from("inquiries").insert(payload);
-      if (error) throw error;
+      await sendInquiry(
+        {
+          listing_id: listingId,
+          buyer_id: buyerId,
+          seller_id: listing.seller_id,
+          sender_id: userId,
+          message: trimmed,
+        },
+        files,
+      );
       return true;
     },
     onSuccess: async () => {
       setText("");
+      setFiles([]);
+      presence.stopTyping();
       await qc.invalidateQueries({
         queryKey: ["thread", listingId, buyerId, userId],
       });
@@ -107,16 +108,53 @@ export function MessageThreadPage() {
     },
   });
 
-  if (!userId) {
-    return (
-      <div className="min-h-screen bg-slate-950 text-white p-6">
-        Please sign in to view messages.
-      </div>
-    );
-  }
+  // Offers change the listing too (accepting makes it pending); appointment
+  // changes free or take slots
+  const refreshAfterAction = async () => {
+    await qc.invalidateQueries({
+      queryKey: ["thread", listingId, buyerId, userId],
+    });
+    await qc.invalidateQueries({ queryKey: ["inbox", userId] });
+    await qc.invalidateQueries({ queryKey: ["listing", listingId] });
+    await qc.invalidateQueries({ queryKey: ["my-listings"] });
+    await qc.invalidateQueries({ queryKey: ["open-slots", listingId] });
+  };
+
+  const offer = useMutation({
+    mutationFn: async (input: OfferInput) => {
+      if (!listingId || !buyerId || !listing)
+        throw new Error("Listing not loaded yet.");
+      await makeOffer(
+        { listingId, buyerId, sellerId: listing.seller_id },
+        userId,
+        input,
+      );
+    },
+    onSuccess: async () => {
+      setOffering(false);
+      await refreshAfterAction();
+    },
+  });
+
+  const otherId = userId === buyerId ? listing?.seller_id : buyerId;
+  const isBlocked =
+    !!otherId && !!blocks?.some((b) => b.blocked_id === otherId);
+
+  const toggleBlock = useMutation({
+    mutationFn: async () => {
+      if (!otherId) throw new Error("Listing not loaded yet.");
+      if (isBlocked) await unblockUser(userId, otherId);
+      else await blockUser(userId, otherId);
+    },
+    onSuccess: async () => {
+      await qc.invalidateQueries({ queryKey: ["blocked-users", userId] });
+      await qc.invalidateQueries({ queryKey: ["inbox", userId] });
+      await qc.invalidateQueries({ queryKey: ["unread", userId] });
+    },
+  });
 
   const title = listing
-    ? `${listing.make} ${listing.model}${listing.year ? ` (${listing.year})` : ""}`
+    ? `${listing.make} ${listing.model} (${listing.year})`
     : "Conversation";
 
   return (
@@ -128,22 +166,65 @@ export function MessageThreadPage() {
               ← Back to inbox
             </Link>
             <div className="mt-2 text-xl font-semibold">{title}</div>
+            <div className="text-xs mt-1 text-slate-400">
+              {presence.otherTyping ? (
+                <span className="text-emerald-300">typing…</span>
+              ) : presence.otherOnline ? (
+                <span className="text-emerald-300">● online</span>
+              ) : (
+                "offline"
+              )}
+            </div>
             {listing?.price ? (
               <div className="text-sm text-slate-400 mt-1">
                 ${Number(listing.price).toLocaleString()}
               </div>
             ) : null}
           </div>
-          {listingId ? (
-            <Link
-              to={`/listings/${listingId}`}
-              className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700"
-            >
-              View listing
-            </Link>
-          ) : null}
+          <div className="flex gap-2 flex-wrap justify-end">
+            {listingId ? (
+              <Link
+                to={`/listings/${listingId}`}
+                className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700"
+              >
+                View listing
+              </Link>
+            ) : null}
+            {listing && userId === buyerId ? (
+              <Link
+                to={`/sellers/${listing.seller_id}`}
+                className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700"
+              >
+                Seller profile
+              </Link>
+            ) : null}
+            {otherId ? (
+              <>
+                <button
+                  className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 disabled:opacity-50"
+                  onClick={() => toggleBlock.mutate()}
+                  disabled={toggleBlock.isPending}
+                >
+                  {isBlocked ? "Unblock user" : "Block user"}
+                </button>
+                <button
+                  className="px-4 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-red-300"
+                  onClick={() => setReporting(true)}
+                >
+                  Report
+                </button>
+              </>
+            ) : null}
+          </div>
         </div>
 
+        {isBlocked ? (
+          <div className="mt-4 rounded-xl border border-amber-500/40 bg-amber-500/10 px-4 py-3 text-amber-200">
+            You blocked this user. They can’t message you, and this conversation
+            is hidden from your inbox.
+          </div>
+        ) : null}
+
         <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/40 p-4 h-[60vh] overflow-y-auto">
           {isLoading ? (
             <div className="text-slate-300 p-3">Loading…</div>
@@ -156,7 +237,7 @@ export function MessageThreadPage() {
           ) : (
             <div className="flex flex-col gap-2">
               {messages!.map((m) => {
-                const isMine = userId === m.buyer_id ? true : userId === m.seller_id;
+                const isMine = m.sender_id === userId;
 
 return (
                   <div
@@ -167,9 +248,25 @@ return (
                         : "mr-auto bg-slate-950/30 border-slate-800"
                     }`}
                   >
-                    <div className="text-sm text-slate-100 whitespace-pre-line">
-                      {m.message}
-                    </div>
+                    {m.offer ? (
+                      <OfferCard
+                        offer={m.offer}
+                        userId={userId}
+                        onChanged={refreshAfterAction}
+                      />
+                    ) : m.appointment ? (
+                      <AppointmentCard
+                        appointment={m.appointment}
+                        userId={userId}
+                        listingTitle={title}
+                        onChanged={refreshAfterAction}
+                      />
+                    ) : m.message ? (
+                      <div className="text-sm text-slate-100 whitespace-pre-line">
+                        {m.message}
+                      </div>
+                    ) : null}
+                    <MessageAttachments attachments={m.attachments} />
                     <div className="text-xs text-slate-400 mt-2">
                       {new Date(m.created_at).toLocaleString()}
                     </div>
@@ -181,18 +278,53 @@ return (
           )}
         </div>
 
-        <div className="mt-4 flex gap-2">
+        {offering ? (
+          <div className="mt-4">
+            <OfferForm
+              submitLabel="Send offer"
+              pending={offer.isPending}
+              onSubmit={(input) => offer.mutate(input)}
+              onCancel={() => setOffering(false)}
+            />
+            {offer.isError ? (
+              <div className="mt-2 text-sm text-amber-200">
+                {(offer.error as Error)?.message ?? "Could not send offer"}
+              </div>
+            ) : null}
+          </div>
+        ) : null}
+
+        <div className="mt-4 flex items-start justify-between gap-2">
+          <AttachmentPicker
+            files={files}
+            onChange={setFiles}
+            disabled={send.isPending}
+          />
+          {userId === buyerId && !offering ? (
+            <button
+              className="px-3 py-1.5 rounded-lg bg-emerald-600/80 hover:bg-emerald-600 text-sm shrink-0"
+              onClick={() => setOffering(true)}
+            >
+              Make an offer
+            </button>
+          ) : null}
+        </div>
+
+        <div className="mt-2 flex gap-2">
           <textarea
             value={text}
-            onChange={(e) => setText(e.target.value)}
+            onChange={(e) => {
+              setText(e.target.value);
+              presence.notifyTyping();
+            }}
             className="flex-1 min-h-[48px] max-h-[120px] rounded-xl border border-slate-800 bg-slate-900/40 p-3 text-slate-100 outline-none focus:border-slate-600"
             placeholder="Write a message…"
-            disabled={send.isPending}
+            disabled={send.isPending || isBlocked}
           />
           <button
             className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 disabled:opacity-50"
             onClick={() => send.mutate()}
-            disabled={send.isPending}
+            disabled={send.isPending || isBlocked}
           >
             {send.isPending ? "Sending…" : "Send"}
           </button>
@@ -203,6 +335,20 @@ return (
             {(send.error as any)?.message ?? "Could not send"}
           </div>
         ) : null}
+
+        {otherId && listingId && buyerId ? (
+          <ReportModal
+            open={reporting}
+            onClose={() => setReporting(false)}
+            reporterId={userId}
+            target={{
+              kind: "conversation",
+              reportedUserId: otherId,
+              listingId,
+              buyerId,
+            }}
+          />
+        ) : null}
       </div>
     </div>
   );
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { createSavedSearch } from "../../../lib/db/savedSearches";
+
+type Props = {
+  userId: string;
+  query: string; // see savedSearchQuery()
+};
+
+export function SaveSearchButton({ userId, query }: Props) {
+  const qc = useQueryClient();
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const save = useMutation({
+    mutationFn: () => createSavedSearch(userId, name.trim(), query),
+    onSuccess: async () => {
+      setOpen(false);
+      setName("");
+      await qc.invalidateQueries({ queryKey: ["saved-searches", userId] });
+    },
+  });
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+        onClick={() => {
+          save.reset();
+          setOpen(true);
+        }}
+      >
+        {save.isSuccess ? "Search saved ✓" : "Save search"}
+      </button>
+    );
+  }
+
+  return (
+    <form
+      className="flex items-center gap-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (name.trim()) save.mutate();
+      }}
+    >
+      <input
+        autoFocus
+        type="text"
+        placeholder="Name this search"
+        className="bg-slate-800 rounded-lg px-3 py-2 text-white text-sm w-[180px]"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+      />
+      <button
+        type="submit"
+        className="px-3 py-2 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm disabled:opacity-60"
+        disabled={!name.trim() || save.isPending}
+      >
+        {save.isPending ? "Saving…" : "Save"}
+      </button>
+      <button
+        type="button"
+        className="px-3 py-2 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+        onClick={() => setOpen(false)}
+      >
+        Cancel
+      </button>
+      {save.isError ? (
+        <span className="text-sm text-red-300">
+          {(save.error as Error).message || "Could not save."}
+        </span>
+      ) : null}
+    </form>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "react-router-dom";
+import {
+  deleteSavedSearch,
+  fetchSavedSearches,
+  markSavedSearchSeen,
+  renameSavedSearch,
+} from "../../../lib/db/savedSearches";
+import type { SavedSearch } from "../../../types/car";
+import { countNewMatches, describeSavedSearch } from "../savedSearchQuery";
+
+export function SavedSearchesSection({ userId }: { userId: string }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["saved-searches", userId],
+    queryFn: () => fetchSavedSearches(userId),
+  });
+
+  return (
+    <div className="mt-6 rounded-2xl border border-slate-800 bg-slate-900/40 p-6">
+      <h2 className="text-lg font-semibold">Saved searches</h2>
+
+      {isLoading ? (
+        <div className="mt-3 text-slate-400">Loading…</div>
+      ) : error ? (
+        <div className="mt-3 text-red-300">
+          {(error as Error).message || "Failed to load saved searches."}
+        </div>
+      ) : !data?.length ? (
+        <div className="mt-3 text-sm text-slate-400">
+          Use “Save search” on the{" "}
+          <Link to="/listings" className="text-blue-400 hover:underline">
+            Browse
+          </Link>{" "}
+          page to get notified about new matches.
+        </div>
+      ) : (
+        <ul className="mt-3 divide-y divide-slate-800">
+          {data.map((s) => (
+            <SavedSearchRow key={s.id} search={s} userId={userId} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function SavedSearchRow({
+  search,
+  userId,
+}: {
+  search: SavedSearch;
+  userId: string;
+}) {
+  const qc = useQueryClient();
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(search.name);
+
+  const { data: newCount = 0 } = useQuery({
+    queryKey: ["saved-search-new", search.id, search.last_seen_at],
+    queryFn: () => countNewMatches(search),
+    staleTime: 1000 * 60,
+  });
+
+  const refresh = () =>
+    qc.invalidateQueries({ queryKey: ["saved-searches", userId] });
+
+  const rename = useMutation({
+    mutationFn: () => renameSavedSearch(search.id, name.trim()),
+    onSuccess: async () => {
+      setEditing(false);
+      await refresh();
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: () => deleteSavedSearch(search.id),
+    onSuccess: refresh,
+  });
+
+  // Opening the search counts as a visit; fire and forget.
+  const markSeen = () => {
+    void markSavedSearchSeen(search.id).then(refresh);
+  };
+
+  return (
+    <li className="py-3 flex items-center justify-between gap-3 flex-wrap">
+      <div className="min-w-0">
+        {editing ? (
+          <form
+            className="flex items-center gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (name.trim()) rename.mutate();
+            }}
+          >
+            <input
+              autoFocus
+              type="text"
+              className="bg-slate-800 rounded-lg px-3 py-1.5 text-white text-sm"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <button
+              type="submit"
+              className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-sm disabled:opacity-60"
+              disabled={!name.trim() || rename.isPending}
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+              onClick={() => {
+                setName(search.name);
+                setEditing(false);
+              }}
+            >
+              Cancel
+            </button>
+          </form>
+        ) : (
+          <div className="flex items-center gap-2">
+            <Link
+              to={`/listings?${search.query}`}
+              onClick={markSeen}
+              className="font-medium hover:underline truncate"
+            >
+              {search.name}
+            </Link>
+            {newCount > 0 ? (
+              <span className="text-xs px-2 py-0.5 rounded-full bg-emerald-600/20 text-emerald-200 border border-emerald-700/50">
+                {newCount} new since last visit
+              </span>
+            ) : null}
+          </div>
+        )}
+        <div className="text-sm text-slate-400 mt-1">
+          {describeSavedSearch(search.query)}
+        </div>
+      </div>
+
+      {!editing ? (
+        <div className="flex gap-2">
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-slate-700 text-sm"
+            onClick={() => setEditing(true)}
+          >
+            Rename
+          </button>
+          <button
+            type="button"
+            className="px-3 py-1.5 rounded-lg bg-slate-800 hover:bg-red-900/60 text-sm disabled:opacity-60"
+            onClick={() => remove.mutate()}
+            disabled={remove.isPending}
+          >
+            Delete
+          </button>
+        </div>
+      ) : null}
+    </li>
+  );
+}
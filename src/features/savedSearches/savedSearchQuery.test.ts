@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { describeSavedSearch } from "./savedSearchQuery";
+
+describe("describeSavedSearch", () => {
+  it("calls an empty query all listings", () => {
+    expect(describeSavedSearch("")).toBe("All listings");
+  });
+
+  it("mentions every filter", () => {
+    expect(
+      describeSavedSearch(
+        "make=Toyota&models=Camry&minPrice=10000&maxPrice=30000&minYear=2018" +
+          "&maxMileage=60000&fuel=Hybrid&trans=Automatic,CVT&drop=1" +
+          "&zip=10001&radius=25&sort=price_asc",
+      ),
+    ).toBe(
+      "Toyota Camry · $10,000–$30,000 · 2018 or newer · under 60,000 mi · " +
+        "Hybrid · Automatic/CVT · price dropped · within 25 mi of 10001 · " +
+        "Price: Low → High",
+    );
+  });
+
+  it("tells searches apart that only differ in year or fuel", () => {
+    const a = describeSavedSearch("make=Ford&maxYear=2015&fuel=Diesel");
+    const b = describeSavedSearch("make=Ford&minYear=2016&fuel=Gasoline");
+    expect(a).toBe("Ford · 2015 or older · Diesel");
+    expect(b).toBe("Ford · 2016 or newer · Gasoline");
+  });
+});
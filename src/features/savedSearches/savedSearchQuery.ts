@@ -0,0 +1,93 @@
+// src/features/savedSearches/savedSearchQuery.ts
+import { filtersFromParams } from "../listings/filterParams";
+import { SORT_LABELS } from "../listings/sortOptions";
+import {
+  DEFAULT_MAX_PRICE,
+  isListingSort,
+  searchListings,
+} from "../../lib/db/listings";
+import type { SavedSearch } from "../../types/car";
+
+/**
+ * The part of a Browse URL worth saving: filters + sort, without the page.
+ */
+export function savedSearchQuery(params: URLSearchParams) {
+  const next = new URLSearchParams(params);
+  next.delete("page");
+  return next.toString();
+}
+
+function parse(query: string) {
+  const params = new URLSearchParams(query);
+  const sort = params.get("sort");
+  return {
+    filters: filtersFromParams(params),
+    sort: isListingSort(sort) ? sort : "newest",
+  } as const;
+}
+
+/**
+ * Listings matching the search that were posted after its `last_seen_at`.
+ */
+export async function countNewMatches(search: SavedSearch) {
+  const { filters, sort } = parse(search.query);
+  const { count } = await searchListings({
+    filters,
+    sort,
+    page: 1,
+    pageSize: 1,
+    createdAfter: search.last_seen_at,
+  });
+  return count;
+}
+
+/**
+ * Short human summary covering every filter, e.g.
+ * "Toyota · under $30,000 · 2018 or newer · Hybrid · within 25 mi of 10001".
+ */
+export function describeSavedSearch(query: string) {
+  const { filters, sort } = parse(query);
+  const money = (n: number) =>
+    new Intl.NumberFormat(undefined, {
+      style: "currency",
+      currency: "USD",
+      maximumFractionDigits: 0,
+    }).format(n);
+
+  const parts: string[] = [];
+  if (filters.search) parts.push(`“${filters.search}”`);
+  if (filters.make) {
+    parts.push(
+      filters.models.length
+        ? `${filters.make} ${filters.models.join("/")}`
+        : filters.make,
+    );
+  }
+  const hasMaxPrice = filters.maxPrice !== DEFAULT_MAX_PRICE;
+  if (filters.minPrice > 0 && hasMaxPrice)
+    parts.push(`${money(filters.minPrice)}–${money(filters.maxPrice)}`);
+  else if (filters.minPrice > 0) parts.push(`over ${money(filters.minPrice)}`);
+  else if (hasMaxPrice) parts.push(`under ${money(filters.maxPrice)}`);
+
+  const { minYear, maxYear } = filters;
+  if (minYear && maxYear)
+    parts.push(minYear === maxYear ? `${minYear}` : `${minYear}–${maxYear}`);
+  else if (minYear) parts.push(`${minYear} or newer`);
+  else if (maxYear) parts.push(`${maxYear} or older`);
+
+  if (filters.maxMileage > 0)
+    parts.push(`under ${filters.maxMileage.toLocaleString()} mi`);
+  if (filters.fuelTypes.length) parts.push(filters.fuelTypes.join("/"));
+  if (filters.transmissions.length) parts.push(filters.transmissions.join("/"));
+  if (filters.priceDropped) parts.push("price dropped");
+  if (filters.zip) {
+    parts.push(
+      filters.radiusMiles > 0
+        ? `within ${filters.radiusMiles} mi of ${filters.zip}`
+        : `near ${filters.zip}`,
+    );
+  }
+  if (sort !== "newest") parts.push(SORT_LABELS[sort]);
+
+  return parts.length ? parts.join(" · ") : "All listings";
+}
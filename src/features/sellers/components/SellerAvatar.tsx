@@ -0,0 +1,32 @@
+import { avatarUrl, displayName } from "../../../lib/db/profiles";
+import type { Profile } from "../../../types/car";
+
+type Props = {
+  profile: Pick<Profile, "avatar_path" | "display_name"> | null | undefined;
+  userId: string;
+  className?: string; // size, e.g. "w-10 h-10 text-sm"
+};
+
+export function SellerAvatar({
+  profile,
+  userId,
+  className = "w-10 h-10 text-sm",
+}: Props) {
+  const url = avatarUrl(profile);
+  const name = displayName(profile, userId);
+
+  return url ? (
+    <img
+      src={url}
+      alt={name}
+      className={`rounded-full object-cover border border-slate-800 ${className}`}
+    />
+  ) : (
+    <div
+      className={`rounded-full border border-slate-800 bg-slate-800 flex items-center justify-center font-semibold text-slate-300 ${className}`}
+      aria-label={name}
+    >
+      {name.slice(0, 1).toUpperCase()}
+    </div>
+  );
+}
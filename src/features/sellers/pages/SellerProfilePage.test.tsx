@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { screen } from "@testing-library/react";
+import { backend } from "../../../lib/backend";
+import { DEMO_SELLER_ID } from "../../../lib/backend/memory/seed";
+import { renderRoute } from "../../../test/render";
+import { SellerProfilePage } from "./SellerProfilePage";
+
+function renderSeller() {
+  return renderRoute(<SellerProfilePage />, {
+    path: "/sellers/:id",
+    url: `/sellers/${DEMO_SELLER_ID}`,
+  });
+}
+
+describe("SellerProfilePage", () => {
+  it("shows the seller's public profile and active listings", async () => {
+    renderSeller();
+
+    expect(
+      await screen.findByRole("heading", { name: "Demo Motors" }),
+    ).toBeDefined();
+    expect(screen.getByText("Toyota Camry")).toBeDefined();
+    expect(screen.getByText("Tesla Model 3")).toBeDefined();
+  });
+
+  it("leaves out listings that are no longer active", async () => {
+    await backend.listings.update("10000000-0000-4000-8000-000000000003", {
+      status: "sold",
+    });
+
+    renderSeller();
+
+    expect(await screen.findByText("Toyota Camry")).toBeDefined();
+    expect(screen.queryByText("Tesla Model 3")).toBeNull();
+  });
+});
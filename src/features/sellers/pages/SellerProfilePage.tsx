@@ -0,0 +1,148 @@
+import { Link, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { coverUrl } from "../../../lib/db/images";
+import {
+  CONTACT_METHOD_LABELS,
+  displayName,
+  fetchSellerProfile,
+  formatPhone,
+  responseRateLabel,
+} from "../../../lib/db/profiles";
+import { CompareToggle } from "../../compare/components/CompareToggle";
+import { SellerAvatar } from "../components/SellerAvatar";
+
+function formatMemberSince(iso: string) {
+  return new Date(iso).toLocaleDateString(undefined, {
+    month: "long",
+    year: "numeric",
+  });
+}
+
+export function SellerProfilePage() {
+  const { id } = useParams<{ id: string }>();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ["seller-profile", id],
+    enabled: !!id,
+    queryFn: () => fetchSellerProfile(id!),
+  });
+
+  if (!id) return null;
+
+  if (isLoading) {
+    return (
+      <div className="max-w-5xl mx-auto px-6 py-8 text-slate-400">Loading…</div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="max-w-5xl mx-auto px-6 py-8 text-red-300">
+        {(error as Error)?.message ?? "Could not load this seller."}
+      </div>
+    );
+  }
+
+  const { profile, listings, stats } = data;
+  const name = displayName(profile, id);
+  const responseRate = responseRateLabel(stats);
+  const facts = [
+    profile?.created_at
+      ? `Member since ${formatMemberSince(profile.created_at)}`
+      : null,
+    responseRate,
+    profile?.default_zip ? `Near ${profile.default_zip}` : null,
+  ].filter(Boolean);
+
+  return (
+    <div className="max-w-5xl mx-auto px-6 py-8">
+      <div className="rounded-2xl border border-slate-800 bg-slate-900/40 p-6 flex items-start gap-5 flex-wrap">
+        <SellerAvatar
+          profile={profile}
+          userId={id}
+          className="w-20 h-20 text-2xl"
+        />
+        <div className="flex-1 min-w-[200px]">
+          <h1 className="text-2xl font-semibold">{name}</h1>
+          <div className="text-sm text-slate-400 mt-1">{facts.join(" · ")}</div>
+          {profile?.contact_method || profile?.phone ? (
+            <div className="text-sm text-slate-300 mt-2 flex gap-x-4 gap-y-1 flex-wrap">
+              {profile.contact_method ? (
+                <span>
+                  Preferred contact:{" "}
+                  {CONTACT_METHOD_LABELS[profile.contact_method]}
+                </span>
+              ) : null}
+              {profile.phone ? (
+                <a
+                  href={`tel:${profile.phone}`}
+                  className="text-blue-300 hover:underline"
+                >
+                  {formatPhone(profile.phone)}
+                </a>
+              ) : null}
+            </div>
+          ) : null}
+          {profile?.bio ? (
+            <p className="text-slate-200 mt-3 whitespace-pre-line">
+              {profile.bio}
+            </p>
+          ) : null}
+        </div>
+      </div>
+
+      <h2 className="text-xl font-semibold mt-8">
+        Listings{" "}
+        <span className="text-slate-400 font-normal">({listings.length})</span>
+      </h2>
+
+      {!listings.length ? (
+        <div className="mt-4 rounded-2xl border border-slate-800 bg-slate-900/40 p-8 text-slate-300">
+          {name} has no active listings right now.
+        </div>
+      ) : (
+        <div className="mt-4 grid sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {listings.map((row) => {
+            const cover = coverUrl(row.listing_images);
+
+            return (
+              <Link
+                key={row.id}
+                to={`/listings/${row.id}`}
+                className="rounded-2xl border border-slate-800 bg-slate-900/40 p-4 hover:border-slate-700 transition"
+              >
+                {cover ? (
+                  <img
+                    src={cover}
+                    alt={`${row.make} ${row.model}`}
+                    className="w-full h-40 object-cover rounded-xl border border-slate-800 mb-3"
+                    loading="lazy"
+                  />
+                ) : (
+                  <div className="w-full h-40 rounded-xl border border-slate-800 bg-slate-950/40 mb-3 flex items-center justify-center text-slate-500">
+                    No image
+                  </div>
+                )}
+
+                <div className="font-semibold">
+                  {row.make} {row.model}
+                </div>
+
+                <div className="text-slate-300 mt-1">
+                  ${Number(row.price).toLocaleString()}
+                </div>
+
+                <div className="flex items-center justify-between gap-2 mt-2">
+                  <div className="text-xs text-slate-400">
+                    {row.year} • {row.mileage.toLocaleString()} mi
+                  </div>
+                  <CompareToggle listingId={row.id} />
+                </div>
+              </Link>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,12 @@
-import { supabase } from "./supabase";
+import { fetchProfile } from "./db/profiles";
 
 export async function fetchIsAdmin(userId: string | null) {
   if (!userId) return false;
 
-  const { data, error } = await supabase
-    .from("profiles")
-    .select("is_admin")
-    .eq("id", userId)
-    .maybeSingle();
-
-  if (error) return false;
-  return !!data?.is_admin;
+  try {
+    const profile = await fetchProfile(userId);
+    return !!profile?.is_admin;
+  } catch {
+    return false;
+  }
 }
@@ -1,7 +1,87 @@
-import { supabase } from "./supabase";
+import { backend } from "./backend";
+import type { AuthUser, OAuthProvider } from "./backend/types";
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Where email recovery links land; the user is signed in by then and picks a
+// new password.
+export const RESET_PASSWORD_PATH = "/login/reset";
 
 export async function fetchAuthUser() {
-  const { data, error } = await supabase.auth.getUser();
-  if (error) return null;
-  return data.user ?? null;
+  return backend.auth.getUser();
+}
+
+/** Fires on every sign-in, sign-out and token refresh; returns unsubscribe. */
+export function onAuthChange(cb: (user: AuthUser | null) => void) {
+  return backend.auth.onAuthStateChange(cb);
+}
+
+/**
+ * Only same-site paths are followed after sign-in, so `?next=` can't be used
+ * to bounce users to another origin.
+ */
+export function safeNext(raw: string | null | undefined) {
+  // "//host" and "/\host" are protocol-relative to browsers
+  if (!raw || !raw.startsWith("/") || /^\/[/\\]/.test(raw)) return "/";
+  // never loop back into the login screen itself
+  if (/^\/login([/?#]|$)/.test(raw)) return "/";
+  return raw;
+}
+
+/** `/login` link that comes back to `next` afterwards. */
+export function loginPath(next: string) {
+  const target = safeNext(next);
+  return target === "/"
+    ? "/login"
+    : `/login?next=${encodeURIComponent(target)}`;
+}
+
+function absolute(path: string) {
+  return `${window.location.origin}${path}`;
+}
+
+export async function signInWithProvider(
+  provider: OAuthProvider,
+  next: string,
+) {
+  await backend.auth.signInWithOAuth(provider, absolute(safeNext(next)));
+}
+
+export async function sendMagicLink(email: string, next: string) {
+  await backend.auth.signInWithOtp(email.trim(), absolute(safeNext(next)));
+}
+
+export async function signInWithPassword(email: string, password: string) {
+  await backend.auth.signInWithPassword(email.trim(), password);
+}
+
+export async function signUpWithPassword(
+  email: string,
+  password: string,
+  next: string,
+) {
+  if (password.length < MIN_PASSWORD_LENGTH)
+    throw new Error(
+      `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`,
+    );
+  return backend.auth.signUp(email.trim(), password, absolute(safeNext(next)));
+}
+
+export async function sendPasswordReset(email: string) {
+  await backend.auth.resetPasswordForEmail(
+    email.trim(),
+    absolute(RESET_PASSWORD_PATH),
+  );
+}
+
+export async function updatePassword(password: string) {
+  if (password.length < MIN_PASSWORD_LENGTH)
+    throw new Error(
+      `Passwords need at least ${MIN_PASSWORD_LENGTH} characters.`,
+    );
+  await backend.auth.updatePassword(password);
+}
+
+export async function signOut() {
+  await backend.auth.signOut();
 }
@@ -0,0 +1,10 @@
+import type { Backend } from "./types";
+import { supabaseBackend } from "./supabase";
+
+// VITE_BACKEND=memory runs the whole app against an in-memory store
+// (persisted to localStorage) instead of a Supabase project. It is imported
+// lazily so production builds never ship it or its seed data.
+export const backend: Backend =
+  import.meta.env.VITE_BACKEND === "memory"
+    ? (await import("./memory")).memoryBackend
+    : supabaseBackend;
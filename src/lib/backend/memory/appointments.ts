@@ -0,0 +1,50 @@
+import type { AppointmentsBackend } from "../types";
+import { compareBy } from "./listings";
+import { newId } from "../../ids";
+import { nowIso, table } from "./store";
+
+export const memoryAppointments: AppointmentsBackend = {
+  async windows(listingId) {
+    return table("availability_windows")
+      .filter((w) => w.listing_id === listingId)
+      .sort(compareBy("starts_at", true));
+  },
+
+  async addWindow(payload) {
+    const row = { created_at: nowIso(), ...payload, id: payload.id ?? newId() };
+    table("availability_windows").insert(row);
+    return row;
+  },
+
+  async removeWindow(id) {
+    table("availability_windows").remove((w) => w.id === id);
+  },
+
+  async forThread(listingId, buyerId) {
+    return table("appointments")
+      .filter((a) => a.listing_id === listingId && a.buyer_id === buyerId)
+      .sort(compareBy("created_at", true));
+  },
+
+  async insert(payload) {
+    const now = nowIso();
+    const row = {
+      created_at: now,
+      updated_at: now,
+      note: null,
+      status: "requested" as const,
+      ...payload,
+      id: payload.id ?? newId(),
+    };
+    table("appointments").insert(row);
+    return row;
+  },
+
+  async update(id, patch) {
+    table("appointments").update((a) => a.id === id, patch);
+  },
+
+  async remove(id) {
+    table("appointments").remove((a) => a.id === id);
+  },
+};
@@ -0,0 +1,89 @@
+import type { AuthBackend, AuthUser } from "../types";
+import { DEMO_USER_ID } from "./seed";
+
+// Signing in always yields the demo user, whatever the method or
+// credentials; links that would be emailed are followed immediately. The
+// session is kept in localStorage so a reload behaves like a real OAuth
+// round-trip.
+
+const SESSION_KEY = "nexus-cars:memory-session";
+
+const DEMO_USER: AuthUser = {
+  id: DEMO_USER_ID,
+  aud: "authenticated",
+  email: "demo@nexus-cars.local",
+  app_metadata: { provider: "demo" },
+  user_metadata: { full_name: "Demo User", user_name: "demo" },
+  created_at: "2024-01-01T00:00:00.000Z",
+};
+
+const listeners = new Set<(user: AuthUser | null) => void>();
+
+let inMemorySession = false;
+
+function readSession() {
+  try {
+    return localStorage.getItem(SESSION_KEY) === DEMO_USER_ID;
+  } catch {
+    return inMemorySession;
+  }
+}
+
+function writeSession(signedIn: boolean) {
+  inMemorySession = signedIn;
+  try {
+    if (signedIn) localStorage.setItem(SESSION_KEY, DEMO_USER_ID);
+    else localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // no localStorage (tests): in-memory flag is enough
+  }
+  const user = signedIn ? DEMO_USER : null;
+  listeners.forEach((cb) => cb(user));
+}
+
+function signInAndGo(redirectTo: string) {
+  writeSession(true);
+  if (typeof window !== "undefined") window.location.assign(redirectTo);
+}
+
+export const memoryAuth: AuthBackend = {
+  async getUser() {
+    return readSession() ? DEMO_USER : null;
+  },
+
+  async signInWithOAuth(_provider, redirectTo) {
+    signInAndGo(redirectTo);
+  },
+
+  async signInWithOtp(_email, redirectTo) {
+    signInAndGo(redirectTo);
+  },
+
+  async signInWithPassword() {
+    writeSession(true);
+  },
+
+  async signUp() {
+    writeSession(true);
+    return { needsConfirmation: false };
+  },
+
+  async resetPasswordForEmail(_email, redirectTo) {
+    signInAndGo(redirectTo);
+  },
+
+  async updatePassword() {
+    if (!readSession()) throw new Error("Not signed in.");
+  },
+
+  async signOut() {
+    writeSession(false);
+  },
+
+  onAuthStateChange(cb) {
+    listeners.add(cb);
+    return () => {
+      listeners.delete(cb);
+    };
+  },
+};
@@ -0,0 +1,49 @@
+import type { CatalogBackend } from "../types";
+import { compareBy } from "./listings";
+import { newId } from "../../ids";
+import { table } from "./store";
+
+export const memoryCatalog: CatalogBackend = {
+  async brands() {
+    return table("brands").all().sort(compareBy("name", true));
+  },
+
+  async models(brandId) {
+    return table("models")
+      .filter((m) => m.brand_id === brandId)
+      .sort(compareBy("name", true));
+  },
+
+  async allModels() {
+    return table("models").all().sort(compareBy("name", true));
+  },
+
+  async insertBrand(payload) {
+    const row = { ...payload, id: payload.id ?? newId() };
+    table("brands").insert(row);
+    return row;
+  },
+
+  async updateBrand(id, patch) {
+    table("brands").update((b) => b.id === id, patch);
+  },
+
+  async removeBrand(id) {
+    table("models").remove((m) => m.brand_id === id);
+    table("brands").remove((b) => b.id === id);
+  },
+
+  async insertModel(payload) {
+    const row = { ...payload, id: payload.id ?? newId() };
+    table("models").insert(row);
+    return row;
+  },
+
+  async updateModel(id, patch) {
+    table("models").update((m) => m.id === id, patch);
+  },
+
+  async removeModel(id) {
+    table("models").remove((m) => m.id === id);
+  },
+};
@@ -0,0 +1,50 @@
+import type { FavoritesBackend } from "../types";
+import { compareBy, withImages } from "./listings";
+import { newId } from "../../ids";
+import { nowIso, table } from "./store";
+
+export const memoryFavorites: FavoritesBackend = {
+  async list(userId) {
+    return table("favorites")
+      .filter((f) => f.user_id === userId)
+      .sort(compareBy("created_at", false))
+      .map((f) => {
+        const listing = table("listings").find((l) => l.id === f.listing_id);
+        return { ...f, listings: listing ? withImages(listing) : null };
+      });
+  },
+
+  async listingIds(userId, listingIds) {
+    return table("favorites")
+      .filter((f) => f.user_id === userId && listingIds.includes(f.listing_id))
+      .map((f) => f.listing_id);
+  },
+
+  async exists(userId, listingId) {
+    return !!table("favorites").find(
+      (f) => f.user_id === userId && f.listing_id === listingId,
+    );
+  },
+
+  async add(userId, listingId) {
+    const exists = table("favorites").find(
+      (f) => f.user_id === userId && f.listing_id === listingId,
+    );
+    if (exists)
+      throw new Error(
+        'duplicate key value violates unique constraint "favorites_user_id_listing_id_key"',
+      );
+    table("favorites").insert({
+      id: newId(),
+      user_id: userId,
+      listing_id: listingId,
+      created_at: nowIso(),
+    });
+  },
+
+  async remove(userId, listingId) {
+    table("favorites").remove(
+      (f) => f.user_id === userId && f.listing_id === listingId,
+    );
+  },
+};
@@ -0,0 +1,60 @@
+import type { ListingImagesBackend, StorageBackend } from "../types";
+import { newId } from "../../ids";
+import { nowIso, table } from "./store";
+
+export const memoryImages: ListingImagesBackend = {
+  async list(listingId) {
+    return table("listing_images")
+      .filter((img) => img.listing_id === listingId)
+      .sort((a, b) => a.position - b.position);
+  },
+
+  async insert(rows) {
+    table("listing_images").insert(
+      ...rows.map((r) => ({ id: newId(), created_at: nowIso(), ...r })),
+    );
+  },
+
+  async remove(ids) {
+    table("listing_images").remove((img) => ids.includes(img.id));
+  },
+
+  async setPosition(id, position) {
+    table("listing_images").update((img) => img.id === id, { position });
+  },
+};
+
+// Uploaded files only live for the page session (object URLs); their rows
+// persist, so images uploaded before a reload render as broken links.
+const objects = new Map<string, string>();
+
+const key = (bucket: string, path: string) => `${bucket}/${path}`;
+
+export const memoryStorage: StorageBackend = {
+  async upload(bucket, path, file) {
+    if (objects.has(key(bucket, path)))
+      throw new Error("The resource already exists");
+    const url =
+      typeof URL.createObjectURL === "function"
+        ? URL.createObjectURL(file)
+        : `memory://${key(bucket, path)}`;
+    objects.set(key(bucket, path), url);
+  },
+
+  async remove(bucket, paths) {
+    for (const path of paths) {
+      const url = objects.get(key(bucket, path));
+      if (url?.startsWith("blob:")) URL.revokeObjectURL(url);
+      objects.delete(key(bucket, path));
+    }
+  },
+
+  publicUrl(bucket, path) {
+    return objects.get(key(bucket, path)) ?? `memory://${key(bucket, path)}`;
+  },
+
+  // Nothing to sign offline; the object URL is already private to this tab
+  async signedUrls(bucket, paths) {
+    return paths.map((p) => objects.get(key(bucket, p)) ?? null);
+  },
+};
@@ -0,0 +1,39 @@
+import type { Backend } from "../types";
+import { memoryAuth } from "./auth";
+import { memoryListings } from "./listings";
+import { memoryImages, memoryStorage } from "./images";
+import { memoryFavorites } from "./favorites";
+import { memoryInquiries } from "./inquiries";
+import { memoryThreadReads } from "./threadReads";
+import { memoryOffers } from "./offers";
+import { memoryAppointments } from "./appointments";
+import { memoryAuditLog, memoryBlocks, memoryReports } from "./moderation";
+import { memoryPriceHistory } from "./priceHistory";
+import { memoryProfiles } from "./profiles";
+import { memoryCatalog } from "./catalog";
+import { memoryRealtime } from "./realtime";
+import { memorySavedSearches } from "./savedSearches";
+import { memoryRpc } from "./rpc";
+
+export { resetMemoryStore } from "./store";
+
+export const memoryBackend: Backend = {
+  auth: memoryAuth,
+  listings: memoryListings,
+  images: memoryImages,
+  storage: memoryStorage,
+  favorites: memoryFavorites,
+  inquiries: memoryInquiries,
+  threadReads: memoryThreadReads,
+  offers: memoryOffers,
+  appointments: memoryAppointments,
+  blocks: memoryBlocks,
+  reports: memoryReports,
+  auditLog: memoryAuditLog,
+  priceHistory: memoryPriceHistory,
+  profiles: memoryProfiles,
+  catalog: memoryCatalog,
+  realtime: memoryRealtime,
+  savedSearches: memorySavedSearches,
+  rpc: memoryRpc,
+};
@@ -0,0 +1,70 @@
+import type { InquiriesBackend } from "../types";
+import { compareBy } from "./listings";
+import { publishInquiry } from "./realtime";
+import { newId } from "../../ids";
+import { nowIso, table } from "./store";
+
+export const memoryInquiries: InquiriesBackend = {
+  async forUser(userId) {
+    return table("inquiries")
+      .filter((m) => m.buyer_id === userId || m.seller_id === userId)
+      .sort(compareBy("created_at", false))
+      .map((m) => {
+        const l = table("listings").find((x) => x.id === m.listing_id);
+        return {
+          ...m,
+          listings: l
+            ? {
+                id: l.id,
+                make: l.make,
+                model: l.model,
+                year: l.year,
+                price: l.price,
+                seller_id: l.seller_id,
+              }
+            : null,
+        };
+      });
+  },
+
+  async thread(listingId, buyerId) {
+    return table("inquiries")
+      .filter((m) => m.listing_id === listingId && m.buyer_id === buyerId)
+      .sort(compareBy("created_at", true))
+      .map((m) => ({
+        ...m,
+        inquiry_attachments: table("inquiry_attachments").filter(
+          (a) => a.inquiry_id === m.id,
+        ),
+      }));
+  },
+
+  async insert(payload) {
+    // Mirrors the RLS insert check: nobody can message someone who blocked them
+    const recipient =
+      payload.sender_id === payload.buyer_id
+        ? payload.seller_id
+        : payload.buyer_id;
+    const blocked = table("user_blocks").find(
+      (b) => b.blocker_id === recipient && b.blocked_id === payload.sender_id,
+    );
+    if (blocked) throw new Error("You can't message this user.");
+
+    const row = {
+      created_at: nowIso(),
+      ...payload,
+      id: payload.id ?? newId(),
+      offer_id: payload.offer_id ?? null,
+      appointment_id: payload.appointment_id ?? null,
+    };
+    table("inquiries").insert(row);
+    publishInquiry(row);
+    return row.id;
+  },
+
+  async insertAttachments(rows) {
+    table("inquiry_attachments").insert(
+      ...rows.map((r) => ({ id: newId(), created_at: nowIso(), ...r })),
+    );
+  },
+};
@@ -0,0 +1,162 @@
+import type { CarListing, Listing } from "../../../types/car";
+import type { ListingQuery, ListingsBackend } from "../types";
+import { newId } from "../../ids";
+import { nowIso, table } from "./store";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function withImages(listing: Listing): CarListing {
+  const images = table("listing_images")
+    .filter((img) => img.listing_id === listing.id)
+    .map(({ bucket, path, position }) => ({ bucket, path, position }));
+  return { ...listing, listing_images: images };
+}
+
+function isLive(l: Listing) {
+  return l.status === "active" && l.expires_at > nowIso() && !l.hidden_at;
+}
+
+function isFeaturedNow(l: Listing) {
+  const now = nowIso();
+  return (
+    l.is_featured &&
+    (!l.featured_from || l.featured_from <= now) &&
+    (!l.featured_until || l.featured_until > now)
+  );
+}
+
+/**
+ * Same semantics as the PostgREST filters in the Supabase implementation.
+ */
+export function matchesQuery(l: Listing, q: ListingQuery) {
+  if (q.ids && !q.ids.includes(l.id)) return false;
+  if (q.sellerId && l.seller_id !== q.sellerId) return false;
+  if (q.activeOnly && !isLive(l)) return false;
+  if (q.featuredOnly && !isFeaturedNow(l)) return false;
+
+  const term = q.search?.trim().toLowerCase();
+  if (
+    term &&
+    !l.make.toLowerCase().includes(term) &&
+    !l.model.toLowerCase().includes(term)
+  )
+    return false;
+
+  if (q.make && l.make !== q.make) return false;
+  if (q.models?.length && !q.models.includes(l.model)) return false;
+  if (q.minPrice != null && l.price < q.minPrice) return false;
+  if (q.maxPrice != null && l.price > q.maxPrice) return false;
+  if (q.minYear != null && l.year < q.minYear) return false;
+  if (q.maxYear != null && l.year > q.maxYear) return false;
+  if (q.maxMileage != null && l.mileage > q.maxMileage) return false;
+  if (q.fuelTypes?.length && !q.fuelTypes.includes(l.fuel_type)) return false;
+  if (q.transmissions?.length && !q.transmissions.includes(l.transmission))
+    return false;
+  if (q.createdAfter && l.created_at <= q.createdAfter) return false;
+  if (q.priceDroppedOnly && !l.price_dropped_at) return false;
+  return true;
+}
+
+export function compareBy<T>(
+  column: keyof T,
+  ascending: boolean,
+  // Postgres default: NULLS LAST for ASC, NULLS FIRST for DESC
+  nullsFirst = !ascending,
+) {
+  return (a: T, b: T) => {
+    const x = a[column];
+    const y = b[column];
+    if (x === y) return 0;
+    if (x === null || x === undefined) return nullsFirst ? -1 : 1;
+    if (y === null || y === undefined) return nullsFirst ? 1 : -1;
+    return (x < y ? -1 : 1) * (ascending ? 1 : -1);
+  };
+}
+
+export const memoryListings: ListingsBackend = {
+  async query(q) {
+    let rows = table("listings").filter((l) => matchesQuery(l, q));
+    if (q.order) {
+      const { column, ascending, nullsFirst } = q.order;
+      rows.sort(compareBy(column, ascending, nullsFirst));
+    }
+
+    const count = rows.length;
+    if (q.range) rows = rows.slice(q.range.from, q.range.to + 1);
+    if (q.limit !== undefined) rows = rows.slice(0, q.limit);
+
+    return { rows: rows.map(withImages), count };
+  },
+
+  async get(id) {
+    const row = table("listings").find((l) => l.id === id);
+    if (!row) throw new Error("Listing not found.");
+    return withImages(row);
+  },
+
+  async getMini(id) {
+    const row = table("listings").find((l) => l.id === id);
+    if (!row) throw new Error("Listing not found.");
+    const { make, model, year, price, seller_id } = row;
+    return { id, make, model, year, price, seller_id };
+  },
+
+  async insert(payload) {
+    const id = payload.id ?? newId();
+    const now = new Date();
+    table("listings").insert({
+      description: null,
+      status: "active",
+      is_featured: false,
+      zip_code: null,
+      lat: null,
+      lng: null,
+      previous_price: null,
+      price_dropped_at: null,
+      hidden_at: null,
+      featured_from: null,
+      featured_until: null,
+      featured_priority: 0,
+      created_at: now.toISOString(),
+      // Column default: now() + interval '60 days'
+      expires_at: new Date(now.getTime() + 60 * DAY_MS).toISOString(),
+      ...payload,
+      id,
+    });
+    return id;
+  },
+
+  async update(id, patch) {
+    table("listings").update((l) => l.id === id, patch);
+  },
+
+  // Dependent rows go too, like ON DELETE CASCADE
+  async remove(ids) {
+    table("listings").remove((l) => ids.includes(l.id));
+    table("listing_images").remove((img) => ids.includes(img.listing_id));
+    table("price_history").remove((p) => ids.includes(p.listing_id));
+    table("favorites").remove((f) => ids.includes(f.listing_id));
+    table("reports").remove((r) => ids.includes(r.listing_id));
+  },
+
+  async activeMakes() {
+    return table("listings")
+      .filter(isLive)
+      .map((l) => l.make);
+  },
+
+  async makeModels() {
+    return table("listings")
+      .all()
+      .map((l) => ({ make: l.make, model: l.model }));
+  },
+
+  async relabel(from, to) {
+    table("listings").update(
+      (l) =>
+        l.make === from.make &&
+        (from.model === undefined || l.model === from.model),
+      to,
+    );
+  },
+};
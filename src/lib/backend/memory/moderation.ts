@@ -0,0 +1,96 @@
+import type { AuditLogBackend, BlocksBackend, ReportsBackend } from "../types";
+import { compareBy } from "./listings";
+import { newId } from "../../ids";
+import { nowIso, table } from "./store";
+
+export const memoryBlocks: BlocksBackend = {
+  async list(blockerId) {
+    return table("user_blocks")
+      .filter((b) => b.blocker_id === blockerId)
+      .sort(compareBy("created_at", false));
+  },
+
+  async add(blockerId, blockedId) {
+    const exists = table("user_blocks").find(
+      (b) => b.blocker_id === blockerId && b.blocked_id === blockedId,
+    );
+    if (exists) return;
+    table("user_blocks").insert({
+      blocker_id: blockerId,
+      blocked_id: blockedId,
+      created_at: nowIso(),
+    });
+  },
+
+  async remove(blockerId, blockedId) {
+    table("user_blocks").remove(
+      (b) => b.blocker_id === blockerId && b.blocked_id === blockedId,
+    );
+  },
+};
+
+export const memoryReports: ReportsBackend = {
+  async insert(payload) {
+    const row = {
+      created_at: nowIso(),
+      buyer_id: null,
+      details: null,
+      resolved_at: null,
+      resolved_by: null,
+      status: "open" as const,
+      thread_snapshot: null,
+      ...payload,
+      id: payload.id ?? newId(),
+    };
+    table("reports").insert(row);
+    return row;
+  },
+
+  async list(q) {
+    return table("reports")
+      .filter(
+        (r) =>
+          (!q.status || r.status === q.status) &&
+          (!q.reportedUserId || r.reported_user_id === q.reportedUserId),
+      )
+      .sort(compareBy("created_at", false))
+      .map((r) => {
+        const l = table("listings").find((x) => x.id === r.listing_id);
+        return {
+          ...r,
+          listings: l
+            ? {
+                id: l.id,
+                make: l.make,
+                model: l.model,
+                year: l.year,
+                price: l.price,
+                seller_id: l.seller_id,
+              }
+            : null,
+        };
+      });
+  },
+
+  async update(id, patch) {
+    table("reports").update((r) => r.id === id, patch);
+  },
+};
+
+export const memoryAuditLog: AuditLogBackend = {
+  async list(q) {
+    return table("admin_actions")
+      .filter((a) => !q.targetIds || q.targetIds.includes(a.target_id))
+      .sort(compareBy("created_at", false))
+      .slice(0, q.limit);
+  },
+
+  async insert(payload) {
+    table("admin_actions").insert({
+      created_at: nowIso(),
+      details: null,
+      ...payload,
+      id: payload.id ?? newId(),
+    });
+  },
+};
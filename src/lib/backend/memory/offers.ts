@@ -0,0 +1,34 @@
+import type { OffersBackend } from "../types";
+import { compareBy } from "./listings";
+import { newId } from "../../ids";
+import { nowIso, table } from "./store";
+
+export const memoryOffers: OffersBackend = {
+  async forThread(listingId, buyerId) {
+    return table("offers")
+      .filter((o) => o.listing_id === listingId && o.buyer_id === buyerId)
+      .sort(compareBy("created_at", true));
+  },
+
+  async insert(payload) {
+    const row = {
+      created_at: nowIso(),
+      note: null,
+      parent_offer_id: null,
+      responded_at: null,
+      status: "pending" as const,
+      ...payload,
+      id: payload.id ?? newId(),
+    };
+    table("offers").insert(row);
+    return row;
+  },
+
+  async update(id, patch) {
+    table("offers").update((o) => o.id === id, patch);
+  },
+
+  async remove(id) {
+    table("offers").remove((o) => o.id === id);
+  },
+};
@@ -0,0 +1,20 @@
+import type { PriceHistoryBackend } from "../types";
+import { compareBy } from "./listings";
+import { newId } from "../../ids";
+import { nowIso, table } from "./store";
+
+export const memoryPriceHistory: PriceHistoryBackend = {
+  async list(listingId) {
+    return table("price_history")
+      .filter((h) => h.listing_id === listingId)
+      .sort(compareBy("created_at", true));
+  },
+
+  async insert(payload) {
+    table("price_history").insert({
+      created_at: nowIso(),
+      ...payload,
+      id: payload.id ?? newId(),
+    });
+  },
+};
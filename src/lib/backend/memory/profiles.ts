@@ -0,0 +1,49 @@
+import type { Profile, ProfileEdit, PublicProfile } from "../../../types/car";
+import type { ProfilesBackend } from "../types";
+import { table } from "./store";
+
+// Mirrors the public_profiles view: bio and join date are always visible,
+// everything else only when listed in public_fields.
+function toPublic(p: Profile): PublicProfile {
+  const shown = (field: Profile["public_fields"][number]) =>
+    p.public_fields.includes(field);
+  return {
+    id: p.id,
+    bio: p.bio,
+    created_at: p.created_at,
+    display_name: shown("display_name") ? p.display_name : null,
+    avatar_path: shown("avatar") ? p.avatar_path : null,
+    phone: shown("phone") ? p.phone : null,
+    contact_method: shown("contact_method") ? p.contact_method : null,
+    default_zip: shown("default_zip") ? p.default_zip : null,
+  };
+}
+
+// Mirrors the column-level UPDATE grant on profiles
+const EDITABLE: ReadonlySet<string> = new Set<keyof ProfileEdit>([
+  "display_name",
+  "bio",
+  "avatar_path",
+  "phone",
+  "contact_method",
+  "default_zip",
+  "public_fields",
+]);
+
+export const memoryProfiles: ProfilesBackend = {
+  async get(userId) {
+    return table("profiles").find((p) => p.id === userId);
+  },
+
+  async getPublic(userId) {
+    const row = table("profiles").find((p) => p.id === userId);
+    return row ? toPublic(row) : null;
+  },
+
+  async update(userId, patch) {
+    const allowed = Object.fromEntries(
+      Object.entries(patch).filter(([k]) => EDITABLE.has(k)),
+    );
+    table("profiles").update((p) => p.id === userId, allowed);
+  },
+};
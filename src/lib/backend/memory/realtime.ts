@@ -0,0 +1,102 @@
+import type { Inquiry } from "../../../types/car";
+import type { RealtimeBackend, ThreadPresence } from "../types";
+
+// In-process event bus, mirrored to other tabs with BroadcastChannel so two
+// windows (e.g. buyer + seller) can chat offline. Other tabs keep their own
+// store snapshot, so the row travels with the event.
+
+type Message =
+  | { type: "inquiry"; row: Inquiry }
+  | {
+      type: "presence";
+      thread: string;
+      userId: string;
+      state: "online" | "typing" | "left";
+    }
+  | { type: "hello"; thread: string };
+
+const inquiryListeners = new Set<(row: Inquiry) => void>();
+const presenceListeners = new Set<(msg: Message) => void>();
+
+const channel =
+  typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel("nexus-cars:memory-realtime")
+    : null;
+
+function dispatch(msg: Message) {
+  if (msg.type === "inquiry") inquiryListeners.forEach((l) => l(msg.row));
+  else presenceListeners.forEach((l) => l(msg));
+}
+
+channel?.addEventListener("message", (e: MessageEvent<Message>) =>
+  dispatch(e.data),
+);
+
+function publish(msg: Message) {
+  dispatch(msg);
+  channel?.postMessage(msg);
+}
+
+/**
+ * Called by the memory inquiries backend after every insert.
+ */
+export function publishInquiry(row: Inquiry) {
+  publish({ type: "inquiry", row });
+}
+
+export const memoryRealtime: RealtimeBackend = {
+  onInquiry(userId, cb) {
+    const listener = (row: Inquiry) => {
+      if (row.buyer_id === userId || row.seller_id === userId) cb(row);
+    };
+    inquiryListeners.add(listener);
+    return () => {
+      inquiryListeners.delete(listener);
+    };
+  },
+
+  joinThread({ listingId, buyerId }, userId, cb) {
+    const thread = `${listingId}:${buyerId}`;
+    const peers = new Map<string, "online" | "typing">();
+    let mine: "online" | "typing" = "online";
+
+    const emit = () => {
+      const online = Array.from(peers.keys());
+      const presence: ThreadPresence = {
+        online,
+        typing: online.filter((id) => peers.get(id) === "typing"),
+      };
+      cb(presence);
+    };
+
+    const announce = () =>
+      publish({ type: "presence", thread, userId, state: mine });
+
+    const listener = (msg: Message) => {
+      if (msg.type === "inquiry" || msg.thread !== thread) return;
+      if (msg.type === "hello") {
+        // Someone joined: tell them we're here
+        if (peers.has(userId)) announce();
+        return;
+      }
+      if (msg.state === "left") peers.delete(msg.userId);
+      else peers.set(msg.userId, msg.state);
+      emit();
+    };
+
+    presenceListeners.add(listener);
+    announce();
+    publish({ type: "hello", thread });
+
+    return {
+      setTyping(typing) {
+        mine = typing ? "typing" : "online";
+        announce();
+      },
+      leave() {
+        publish({ type: "presence", thread, userId, state: "left" });
+        presenceListeners.delete(listener);
+      },
+    };
+  },
+};
@@ -0,0 +1,224 @@
+import type { Listing } from "../../../types/car";
+import type { RpcBackend } from "../types";
+import { memoryAuth } from "./auth";
+import { compareBy, matchesQuery } from "./listings";
+import { nowIso, table } from "./store";
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+// Stand-ins delete_account() leaves behind (see DELETED_USER_ID in lib/db/profiles).
+const DELETED_USER_ID = "00000000-0000-0000-0000-000000000000";
+const DELETED_MESSAGE = "[message deleted]";
+
+function distanceMiles(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const dLat = rad(lat2 - lat1);
+  const dLng = rad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+type Comparator = (a: Listing, b: Listing) => number;
+
+// p_sort values the SQL function understands (distance_asc is handled inline)
+const SORTS: Record<string, Comparator> = {
+  newest: compareBy("created_at", false),
+  price_asc: compareBy("price", true),
+  price_desc: compareBy("price", false),
+  mileage_asc: compareBy("mileage", true),
+  year_desc: compareBy("year", false),
+  year_asc: compareBy("year", true),
+  price_drop: compareBy("price_dropped_at", false, false),
+};
+
+export const memoryRpc: RpcBackend = {
+  // Mirrors the SQL function: active listings with coordinates inside the
+  // radius, filtered + sorted + paged, each row carrying the total count.
+  async searchListingIdsWithinRadius(args) {
+    const miles = new Map<string, number>();
+    const rows = table("listings").filter((l) => {
+      if (l.lat === null || l.lng === null) return false;
+      const matches = matchesQuery(l, {
+        activeOnly: true,
+        search: args.p_search ?? undefined,
+        make: args.p_make ?? undefined,
+        models: args.p_models ?? undefined,
+        minPrice: args.p_min_price,
+        maxPrice: args.p_max_price,
+        minYear: args.p_min_year,
+        maxYear: args.p_max_year,
+        maxMileage: args.p_max_mileage,
+        fuelTypes: args.p_fuel_types ?? undefined,
+        transmissions: args.p_transmissions ?? undefined,
+        createdAfter: args.p_created_after ?? undefined,
+        priceDroppedOnly: args.p_price_dropped ?? undefined,
+      });
+      if (!matches) return false;
+
+      const d = distanceMiles(args.p_lat, args.p_lng, l.lat, l.lng);
+      miles.set(l.id, d);
+      return d <= args.p_radius_miles;
+    });
+
+    rows.sort(
+      args.p_sort === "distance_asc"
+        ? (a, b) => miles.get(a.id)! - miles.get(b.id)!
+        : (SORTS[args.p_sort ?? ""] ?? SORTS.newest),
+    );
+
+    const page = args.p_page ?? 1;
+    const pageSize = args.p_page_size ?? 25;
+    const from = (page - 1) * pageSize;
+
+    return rows.slice(from, from + pageSize).map((l) => ({
+      listing_id: l.id,
+      total_count: rows.length,
+    }));
+  },
+
+  // Same checks as the SQL function, which runs as security definer.
+  async acceptOffer({ p_offer_id }) {
+    const user = await memoryAuth.getUser();
+    if (!user) throw new Error("Not signed in");
+
+    const offer = table("offers").find((o) => o.id === p_offer_id);
+    if (!offer) throw new Error("Offer not found");
+    const participant =
+      user.id === offer.buyer_id || user.id === offer.seller_id;
+    if (!participant || user.id === offer.created_by)
+      throw new Error("Only the other party can accept this offer");
+
+    const now = nowIso();
+    if (offer.status !== "pending" || offer.expires_at <= now)
+      throw new Error("This offer is no longer open");
+
+    const listing = table("listings").find((l) => l.id === offer.listing_id);
+    if (listing?.status !== "active")
+      throw new Error("The listing is no longer available");
+
+    table("offers").update((o) => o.id === offer.id, {
+      status: "accepted",
+      responded_at: now,
+    });
+    table("listings").update((l) => l.id === listing.id, {
+      status: "pending",
+    });
+  },
+
+  async listingBookedSlots({ p_listing_id }) {
+    return table("appointments")
+      .filter((a) => a.listing_id === p_listing_id && a.status !== "cancelled")
+      .map((a) => ({ starts_at: a.starts_at, ends_at: a.ends_at }));
+  },
+
+  // Threads under a day old without a reply aren't counted yet
+  async sellerResponseStats({ p_seller_id }) {
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+    const threads = new Map<string, { asked?: string; replied?: string }>();
+    const messages = table("inquiries")
+      .filter((i) => i.seller_id === p_seller_id)
+      .sort(compareBy("created_at", true));
+
+    for (const m of messages) {
+      const key = `${m.listing_id}:${m.buyer_id}`;
+      const t = threads.get(key) ?? {};
+      if (m.sender_id !== p_seller_id) t.asked ??= m.created_at;
+      else if (t.asked) t.replied ??= m.created_at;
+      threads.set(key, t);
+    }
+
+    const counted = [...threads.values()].filter(
+      (t) => t.asked && (t.replied || t.asked <= dayAgo),
+    );
+    const minutes = counted
+      .filter((t) => t.replied)
+      .map(
+        (t) =>
+          (new Date(t.replied!).getTime() - new Date(t.asked!).getTime()) /
+          60000,
+      )
+      .sort((a, b) => a - b);
+    const mid = Math.floor(minutes.length / 2);
+    const median = !minutes.length
+      ? null
+      : minutes.length % 2
+        ? minutes[mid]
+        : (minutes[mid - 1] + minutes[mid]) / 2;
+
+    return [
+      {
+        threads: counted.length,
+        replied: minutes.length,
+        median_reply_minutes: median === null ? null : Math.round(median),
+      },
+    ];
+  },
+
+  // Same steps as the SQL function, which runs as security definer.
+  async deleteAccount() {
+    const user = await memoryAuth.getUser();
+    if (!user) throw new Error("Not signed in");
+    const uid = user.id;
+    const now = nowIso();
+
+    const listingIds = table("listings")
+      .filter((l) => l.seller_id === uid)
+      .map((l) => l.id);
+    table("listings").update((l) => l.seller_id === uid, {
+      status: "removed",
+      is_featured: false,
+    });
+    table("listing_images").remove((i) => listingIds.includes(i.listing_id));
+    table("availability_windows").remove((w) =>
+      listingIds.includes(w.listing_id),
+    );
+
+    // The other party keeps the thread, minus who they were talking to
+    table("inquiries").update((m) => m.sender_id === uid, {
+      message: DELETED_MESSAGE,
+      sender_id: DELETED_USER_ID,
+    });
+    table("inquiries").update((m) => m.buyer_id === uid, {
+      buyer_id: DELETED_USER_ID,
+    });
+    table("inquiries").update((m) => m.seller_id === uid, {
+      seller_id: DELETED_USER_ID,
+    });
+    table("offers").update((o) => o.created_by === uid, {
+      created_by: DELETED_USER_ID,
+    });
+    table("offers").update((o) => o.buyer_id === uid, {
+      buyer_id: DELETED_USER_ID,
+    });
+    table("offers").update((o) => o.seller_id === uid, {
+      seller_id: DELETED_USER_ID,
+    });
+    table("appointments").update(
+      (a) =>
+        (a.buyer_id === uid || a.seller_id === uid) && a.status !== "cancelled",
+      { status: "cancelled", updated_at: now },
+    );
+    table("appointments").update((a) => a.requested_by === uid, {
+      requested_by: DELETED_USER_ID,
+    });
+    table("appointments").update((a) => a.buyer_id === uid, {
+      buyer_id: DELETED_USER_ID,
+    });
+    table("appointments").update((a) => a.seller_id === uid, {
+      seller_id: DELETED_USER_ID,
+    });
+    table("thread_reads").remove((r) => r.user_id === uid);
+    table("thread_reads").update((r) => r.buyer_id === uid, {
+      buyer_id: DELETED_USER_ID,
+    });
+
+    table("favorites").remove((f) => f.user_id === uid);
+    table("saved_searches").remove((s) => s.user_id === uid);
+    table("user_blocks").remove(
+      (b) => b.blocker_id === uid || b.blocked_id === uid,
+    );
+    table("profiles").remove((p) => p.id === uid);
+  },
+};
@@ -0,0 +1,32 @@
+import type { SavedSearchesBackend } from "../types";
+import { compareBy } from "./listings";
+import { newId } from "../../ids";
+import { nowIso, table } from "./store";
+
+export const memorySavedSearches: SavedSearchesBackend = {
+  async list(userId) {
+    return table("saved_searches")
+      .filter((s) => s.user_id === userId)
+      .sort(compareBy("created_at", false));
+  },
+
+  async insert(payload) {
+    const now = nowIso();
+    const row = {
+      created_at: now,
+      last_seen_at: now,
+      ...payload,
+      id: payload.id ?? newId(),
+    };
+    table("saved_searches").insert(row);
+    return row;
+  },
+
+  async update(id, patch) {
+    table("saved_searches").update((s) => s.id === id, patch);
+  },
+
+  async remove(id) {
+    table("saved_searches").remove((s) => s.id === id);
+  },
+};
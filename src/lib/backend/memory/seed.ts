@@ -0,0 +1,253 @@
+import type { Tables } from "../../../types/database";
+import type { Snapshot } from "./store";
+
+// Fixed IDs so links (e.g. /listings/<id>) survive a store reset.
+
+export const DEMO_USER_ID = "00000000-0000-4000-8000-000000000001";
+export const DEMO_SELLER_ID = "00000000-0000-4000-8000-000000000002";
+
+// Negative n = days from now
+const daysAgo = (n: number) =>
+  new Date(Date.now() - n * 24 * 60 * 60 * 1000).toISOString();
+
+// Asking price at listing time, plus the drop for listings that have one.
+function priceHistory(listings: Tables<"listings">[]) {
+  return listings.flatMap((l) => {
+    const rows: Tables<"price_history">[] = [
+      {
+        id: `price-${l.id}-0`,
+        listing_id: l.id,
+        price: l.previous_price ?? l.price,
+        created_at: l.created_at,
+      },
+    ];
+    if (l.previous_price !== null && l.price_dropped_at) {
+      rows.push({
+        id: `price-${l.id}-1`,
+        listing_id: l.id,
+        price: l.price,
+        created_at: l.price_dropped_at,
+      });
+    }
+    return rows;
+  });
+}
+
+export function seedTables(): Snapshot {
+  const listings: Tables<"listings">[] = [
+    {
+      id: "10000000-0000-4000-8000-000000000001",
+      seller_id: DEMO_SELLER_ID,
+      make: "Toyota",
+      model: "Camry",
+      year: 2019,
+      price: 18500,
+      mileage: 54000,
+      fuel_type: "Gasoline",
+      transmission: "Automatic",
+      description: "One owner, full service history.",
+      status: "active",
+      is_featured: true,
+      zip_code: "10001",
+      lat: 40.7506,
+      lng: -73.9972,
+      created_at: daysAgo(2),
+      expires_at: daysAgo(-58),
+      previous_price: null,
+      price_dropped_at: null,
+      hidden_at: null,
+      featured_from: null,
+      featured_until: null,
+      featured_priority: 0,
+    },
+    {
+      id: "10000000-0000-4000-8000-000000000002",
+      seller_id: DEMO_SELLER_ID,
+      make: "Honda",
+      model: "Civic",
+      year: 2021,
+      price: 21900,
+      mileage: 23000,
+      fuel_type: "Gasoline",
+      transmission: "CVT",
+      description: null,
+      status: "active",
+      is_featured: true,
+      zip_code: "07030",
+      lat: 40.7445,
+      lng: -74.0324,
+      created_at: daysAgo(5),
+      expires_at: daysAgo(-55),
+      previous_price: 23500,
+      price_dropped_at: daysAgo(1),
+      hidden_at: null,
+      featured_from: null,
+      featured_until: null,
+      featured_priority: 0,
+    },
+    {
+      id: "10000000-0000-4000-8000-000000000003",
+      seller_id: DEMO_SELLER_ID,
+      make: "Tesla",
+      model: "Model 3",
+      year: 2022,
+      price: 32900,
+      mileage: 18000,
+      fuel_type: "Electric",
+      transmission: "Automatic",
+      description: "Long Range, FSD not included.",
+      status: "active",
+      is_featured: true,
+      zip_code: "94103",
+      lat: 37.7725,
+      lng: -122.4091,
+      created_at: daysAgo(1),
+      expires_at: daysAgo(-59),
+      previous_price: null,
+      price_dropped_at: null,
+      hidden_at: null,
+      featured_from: null,
+      featured_until: null,
+      featured_priority: 0,
+    },
+    {
+      id: "10000000-0000-4000-8000-000000000004",
+      seller_id: DEMO_SELLER_ID,
+      make: "Ford",
+      model: "F-150",
+      year: 2017,
+      price: 27400,
+      mileage: 88000,
+      fuel_type: "Gasoline",
+      transmission: "Automatic",
+      description: "Tow package, new tires.",
+      status: "active",
+      is_featured: false,
+      zip_code: "60601",
+      lat: 41.8858,
+      lng: -87.6181,
+      created_at: daysAgo(9),
+      expires_at: daysAgo(-51),
+      previous_price: null,
+      price_dropped_at: null,
+      hidden_at: null,
+      featured_from: null,
+      featured_until: null,
+      featured_priority: 0,
+    },
+    {
+      id: "10000000-0000-4000-8000-000000000005",
+      seller_id: DEMO_SELLER_ID,
+      make: "Ford",
+      model: "Mustang",
+      year: 2015,
+      price: 19900,
+      mileage: 61000,
+      fuel_type: "Gasoline",
+      transmission: "Manual",
+      description: null,
+      status: "active",
+      is_featured: false,
+      zip_code: "11201",
+      lat: 40.6943,
+      lng: -73.9903,
+      created_at: daysAgo(14),
+      expires_at: daysAgo(-46),
+      previous_price: null,
+      price_dropped_at: null,
+      hidden_at: null,
+      featured_from: null,
+      featured_until: null,
+      featured_priority: 0,
+    },
+    {
+      id: "10000000-0000-4000-8000-000000000006",
+      seller_id: DEMO_USER_ID,
+      make: "Toyota",
+      model: "RAV4",
+      year: 2020,
+      price: 24800,
+      mileage: 41000,
+      fuel_type: "Hybrid",
+      transmission: "CVT",
+      description: "Demo user's own listing.",
+      status: "active",
+      is_featured: false,
+      zip_code: "10002",
+      lat: 40.7157,
+      lng: -73.9863,
+      created_at: daysAgo(55),
+      expires_at: daysAgo(-5),
+      previous_price: 25900,
+      price_dropped_at: daysAgo(0),
+      hidden_at: null,
+      featured_from: null,
+      featured_until: null,
+      featured_priority: 0,
+    },
+  ];
+
+  return {
+    brands: [
+      { id: "brand-toyota", name: "Toyota" },
+      { id: "brand-honda", name: "Honda" },
+      { id: "brand-ford", name: "Ford" },
+      { id: "brand-tesla", name: "Tesla" },
+    ],
+    models: [
+      { id: "model-camry", brand_id: "brand-toyota", name: "Camry" },
+      { id: "model-rav4", brand_id: "brand-toyota", name: "RAV4" },
+      { id: "model-civic", brand_id: "brand-honda", name: "Civic" },
+      { id: "model-accord", brand_id: "brand-honda", name: "Accord" },
+      { id: "model-f150", brand_id: "brand-ford", name: "F-150" },
+      { id: "model-mustang", brand_id: "brand-ford", name: "Mustang" },
+      { id: "model-model3", brand_id: "brand-tesla", name: "Model 3" },
+    ],
+    profiles: [
+      {
+        id: DEMO_USER_ID,
+        is_admin: false,
+        display_name: "Demo Buyer",
+        avatar_path: null,
+        bio: null,
+        phone: null,
+        contact_method: "message",
+        default_zip: null,
+        public_fields: ["display_name", "avatar", "contact_method"],
+        created_at: daysAgo(120),
+      },
+      {
+        id: DEMO_SELLER_ID,
+        is_admin: false,
+        display_name: "Demo Motors",
+        avatar_path: null,
+        bio: "Family-run used car lot. Every car inspected before listing.",
+        phone: "+12125550142",
+        contact_method: "call",
+        default_zip: "10001",
+        public_fields: [
+          "display_name",
+          "avatar",
+          "phone",
+          "contact_method",
+          "default_zip",
+        ],
+        created_at: daysAgo(400),
+      },
+    ],
+    listings,
+    price_history: priceHistory(listings),
+    listing_images: [],
+    favorites: [],
+    inquiries: [],
+    inquiry_attachments: [],
+    thread_reads: [],
+    offers: [],
+    availability_windows: [],
+    appointments: [],
+    user_blocks: [],
+    reports: [],
+    admin_actions: [],
+    saved_searches: [],
+  };
+}
@@ -0,0 +1,98 @@
+import type { Database, Tables } from "../../../types/database";
+import { seedTables } from "./seed";
+
+// Tables live in memory and are mirrored to localStorage when it exists, so
+// offline dev keeps its data across reloads while tests start clean.
+
+export type TableName = keyof Database["public"]["Tables"];
+
+export type Snapshot = { [T in TableName]: Tables<T>[] };
+
+// Bump the version whenever the stored shape changes (new columns included),
+// so old snapshots are reset rather than half-migrated.
+const STORAGE_KEY = "nexus-cars:memory-db:v4";
+
+let snapshot: Snapshot | null = null;
+
+function persistent() {
+  try {
+    return typeof localStorage !== "undefined";
+  } catch {
+    return false;
+  }
+}
+
+function load(): Snapshot {
+  if (snapshot) return snapshot;
+
+  const raw = persistent() ? localStorage.getItem(STORAGE_KEY) : null;
+  let stored: Partial<Snapshot> = {};
+  try {
+    stored = raw ? (JSON.parse(raw) as Partial<Snapshot>) : {};
+  } catch {
+    // corrupt snapshot: start over from the seed
+  }
+
+  snapshot = { ...seedTables(), ...stored };
+  return snapshot;
+}
+
+function save() {
+  if (!snapshot || !persistent()) return;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+}
+
+/**
+ * Replaces every table (defaults to the seed data). Handy for tests.
+ */
+export function resetMemoryStore(next?: Partial<Snapshot>) {
+  snapshot = { ...seedTables(), ...next };
+  save();
+}
+
+export function table<T extends TableName>(name: T) {
+  const rows = () => load()[name] as Tables<T>[];
+
+  return {
+    all(): Tables<T>[] {
+      return rows().slice();
+    },
+
+    find(pred: (row: Tables<T>) => boolean): Tables<T> | null {
+      return rows().find(pred) ?? null;
+    },
+
+    filter(pred: (row: Tables<T>) => boolean): Tables<T>[] {
+      return rows().filter(pred);
+    },
+
+    insert(...added: Tables<T>[]) {
+      rows().push(...added);
+      save();
+    },
+
+    update(pred: (row: Tables<T>) => boolean, patch: Partial<Tables<T>>) {
+      let n = 0;
+      for (const row of rows()) {
+        if (!pred(row)) continue;
+        Object.assign(row, patch);
+        n++;
+      }
+      save();
+      return n;
+    },
+
+    remove(pred: (row: Tables<T>) => boolean) {
+      const current = rows();
+      const kept = current.filter((row) => !pred(row));
+      const removed = current.length - kept.length;
+      current.splice(0, current.length, ...kept);
+      save();
+      return removed;
+    },
+  };
+}
+
+export function nowIso() {
+  return new Date().toISOString();
+}
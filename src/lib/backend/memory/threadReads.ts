@@ -0,0 +1,20 @@
+import type { ThreadReadsBackend } from "../types";
+import { nowIso, table } from "./store";
+
+export const memoryThreadReads: ThreadReadsBackend = {
+  async list(userId) {
+    return table("thread_reads").filter((r) => r.user_id === userId);
+  },
+
+  async markRead(row) {
+    const same = (r: typeof row) =>
+      r.user_id === row.user_id &&
+      r.listing_id === row.listing_id &&
+      r.buyer_id === row.buyer_id;
+    const last_read_at = row.last_read_at ?? nowIso();
+
+    if (table("thread_reads").update(same, { last_read_at }) === 0) {
+      table("thread_reads").insert({ ...row, last_read_at });
+    }
+  },
+};
@@ -0,0 +1,73 @@
+import { getSupabase } from "../../supabase";
+import type { AppointmentsBackend } from "../types";
+
+export const supabaseAppointments: AppointmentsBackend = {
+  async windows(listingId) {
+    const { data, error } = await getSupabase()
+      .from("availability_windows")
+      .select("*")
+      .eq("listing_id", listingId)
+      .order("starts_at", { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async addWindow(payload) {
+    const { data, error } = await getSupabase()
+      .from("availability_windows")
+      .insert(payload)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async removeWindow(id) {
+    const { error } = await getSupabase()
+      .from("availability_windows")
+      .delete()
+      .eq("id", id);
+    if (error) throw error;
+  },
+
+  async forThread(listingId, buyerId) {
+    const { data, error } = await getSupabase()
+      .from("appointments")
+      .select("*")
+      .eq("listing_id", listingId)
+      .eq("buyer_id", buyerId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async insert(payload) {
+    const { data, error } = await getSupabase()
+      .from("appointments")
+      .insert(payload)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id, patch) {
+    const { error } = await getSupabase()
+      .from("appointments")
+      .update(patch)
+      .eq("id", id);
+    if (error) throw error;
+  },
+
+  async remove(id) {
+    const { error } = await getSupabase()
+      .from("appointments")
+      .delete()
+      .eq("id", id);
+    if (error) throw error;
+  },
+};
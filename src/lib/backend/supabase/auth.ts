@@ -0,0 +1,68 @@
+import { getSupabase } from "../../supabase";
+import type { AuthBackend } from "../types";
+
+export const supabaseAuth: AuthBackend = {
+  async getUser() {
+    const { data, error } = await getSupabase().auth.getUser();
+    if (error) return null;
+    return data.user ?? null;
+  },
+
+  async signInWithOAuth(provider, redirectTo) {
+    const { error } = await getSupabase().auth.signInWithOAuth({
+      provider,
+      options: { redirectTo },
+    });
+    if (error) throw error;
+  },
+
+  async signInWithOtp(email, redirectTo) {
+    const { error } = await getSupabase().auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo },
+    });
+    if (error) throw error;
+  },
+
+  async signInWithPassword(email, password) {
+    const { error } = await getSupabase().auth.signInWithPassword({
+      email,
+      password,
+    });
+    if (error) throw error;
+  },
+
+  async signUp(email, password, redirectTo) {
+    const { data, error } = await getSupabase().auth.signUp({
+      email,
+      password,
+      options: { emailRedirectTo: redirectTo },
+    });
+    if (error) throw error;
+    return { needsConfirmation: !data.session };
+  },
+
+  async resetPasswordForEmail(email, redirectTo) {
+    const { error } = await getSupabase().auth.resetPasswordForEmail(email, {
+      redirectTo,
+    });
+    if (error) throw error;
+  },
+
+  async updatePassword(password) {
+    const { error } = await getSupabase().auth.updateUser({ password });
+    if (error) throw error;
+  },
+
+  async signOut() {
+    const { error } = await getSupabase().auth.signOut();
+    if (error) throw error;
+  },
+
+  onAuthStateChange(cb) {
+    const { data } = getSupabase().auth.onAuthStateChange((_event, session) =>
+      cb(session?.user ?? null),
+    );
+    return () => data.subscription.unsubscribe();
+  },
+};
@@ -0,0 +1,79 @@
+import { getSupabase } from "../../supabase";
+import type { CatalogBackend } from "../types";
+
+export const supabaseCatalog: CatalogBackend = {
+  async brands() {
+    const { data, error } = await getSupabase()
+      .from("brands")
+      .select("id, name")
+      .order("name", { ascending: true });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async models(brandId) {
+    const { data, error } = await getSupabase()
+      .from("models")
+      .select("id, brand_id, name")
+      .eq("brand_id", brandId)
+      .order("name", { ascending: true });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async allModels() {
+    const { data, error } = await getSupabase()
+      .from("models")
+      .select("id, brand_id, name")
+      .order("name", { ascending: true });
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async insertBrand(payload) {
+    const { data, error } = await getSupabase()
+      .from("brands")
+      .insert(payload)
+      .select("id, name")
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async updateBrand(id, patch) {
+    const { error } = await getSupabase()
+      .from("brands")
+      .update(patch)
+      .eq("id", id);
+    if (error) throw error;
+  },
+
+  // models.brand_id is ON DELETE CASCADE
+  async removeBrand(id) {
+    const { error } = await getSupabase().from("brands").delete().eq("id", id);
+    if (error) throw error;
+  },
+
+  async insertModel(payload) {
+    const { data, error } = await getSupabase()
+      .from("models")
+      .insert(payload)
+      .select("id, brand_id, name")
+      .single();
+    if (error) throw error;
+    return data;
+  },
+
+  async updateModel(id, patch) {
+    const { error } = await getSupabase()
+      .from("models")
+      .update(patch)
+      .eq("id", id);
+    if (error) throw error;
+  },
+
+  async removeModel(id) {
+    const { error } = await getSupabase().from("models").delete().eq("id", id);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,54 @@
+import { getSupabase } from "../../supabase";
+import type { FavoritesBackend } from "../types";
+
+export const supabaseFavorites: FavoritesBackend = {
+  async list(userId) {
+    const { data, error } = await getSupabase()
+      .from("favorites")
+      .select("*, listings(*, listing_images(bucket, path, position))")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async listingIds(userId, listingIds) {
+    const { data, error } = await getSupabase()
+      .from("favorites")
+      .select("listing_id")
+      .eq("user_id", userId)
+      .in("listing_id", listingIds);
+
+    if (error) throw error;
+    return (data ?? []).map((r) => r.listing_id);
+  },
+
+  async exists(userId, listingId) {
+    const { data, error } = await getSupabase()
+      .from("favorites")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("listing_id", listingId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return !!data?.id;
+  },
+
+  async add(userId, listingId) {
+    const { error } = await getSupabase()
+      .from("favorites")
+      .insert({ user_id: userId, listing_id: listingId });
+    if (error) throw error;
+  },
+
+  async remove(userId, listingId) {
+    const { error } = await getSupabase()
+      .from("favorites")
+      .delete()
+      .eq("user_id", userId)
+      .eq("listing_id", listingId);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,68 @@
+import { getSupabase } from "../../supabase";
+import type { ListingImagesBackend, StorageBackend } from "../types";
+
+export const supabaseImages: ListingImagesBackend = {
+  async list(listingId) {
+    const { data, error } = await getSupabase()
+      .from("listing_images")
+      .select("*")
+      .eq("listing_id", listingId)
+      .order("position", { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async insert(rows) {
+    if (!rows.length) return;
+    const { error } = await getSupabase().from("listing_images").insert(rows);
+    if (error) throw error;
+  },
+
+  async remove(ids) {
+    if (!ids.length) return;
+    const { error } = await getSupabase()
+      .from("listing_images")
+      .delete()
+      .in("id", ids);
+    if (error) throw error;
+  },
+
+  async setPosition(id, position) {
+    const { error } = await getSupabase()
+      .from("listing_images")
+      .update({ position })
+      .eq("id", id);
+    if (error) throw error;
+  },
+};
+
+export const supabaseStorage: StorageBackend = {
+  async upload(bucket, path, file, opts) {
+    const { error } = await getSupabase()
+      .storage.from(bucket)
+      .upload(path, file, { ...opts, upsert: false });
+    if (error) throw error;
+  },
+
+  async remove(bucket, paths) {
+    if (!paths.length) return;
+    const { error } = await getSupabase().storage.from(bucket).remove(paths);
+    if (error) throw error;
+  },
+
+  publicUrl(bucket, path) {
+    return getSupabase().storage.from(bucket).getPublicUrl(path).data.publicUrl;
+  },
+
+  async signedUrls(bucket, paths, expiresInSeconds) {
+    if (!paths.length) return [];
+    const { data, error } = await getSupabase()
+      .storage.from(bucket)
+      .createSignedUrls(paths, expiresInSeconds);
+    if (error) throw error;
+
+    const byPath = new Map(data.map((d) => [d.path, d.signedUrl]));
+    return paths.map((p) => byPath.get(p) || null);
+  },
+};
@@ -0,0 +1,78 @@
+import { getSupabase } from "../../supabase";
+import type { Backend } from "../types";
+import { supabaseAuth } from "./auth";
+import { supabaseListings } from "./listings";
+import { supabaseImages, supabaseStorage } from "./images";
+import { supabaseFavorites } from "./favorites";
+import { supabaseInquiries } from "./inquiries";
+import { supabaseThreadReads } from "./threadReads";
+import { supabaseOffers } from "./offers";
+import { supabaseAppointments } from "./appointments";
+import {
+  supabaseAuditLog,
+  supabaseBlocks,
+  supabaseReports,
+} from "./moderation";
+import { supabasePriceHistory } from "./priceHistory";
+import { supabaseProfiles } from "./profiles";
+import { supabaseCatalog } from "./catalog";
+import { supabaseRealtime } from "./realtime";
+import { supabaseSavedSearches } from "./savedSearches";
+
+export const supabaseBackend: Backend = {
+  auth: supabaseAuth,
+  listings: supabaseListings,
+  images: supabaseImages,
+  storage: supabaseStorage,
+  favorites: supabaseFavorites,
+  inquiries: supabaseInquiries,
+  threadReads: supabaseThreadReads,
+  offers: supabaseOffers,
+  appointments: supabaseAppointments,
+  blocks: supabaseBlocks,
+  reports: supabaseReports,
+  auditLog: supabaseAuditLog,
+  priceHistory: supabasePriceHistory,
+  profiles: supabaseProfiles,
+  catalog: supabaseCatalog,
+  realtime: supabaseRealtime,
+  savedSearches: supabaseSavedSearches,
+  rpc: {
+    async searchListingIdsWithinRadius(args) {
+      const { data, error } = await getSupabase().rpc(
+        "search_listing_ids_within_radius",
+        args,
+      );
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async acceptOffer(args) {
+      const { error } = await getSupabase().rpc("accept_offer", args);
+      if (error) throw error;
+    },
+
+    async listingBookedSlots(args) {
+      const { data, error } = await getSupabase().rpc(
+        "listing_booked_slots",
+        args,
+      );
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async sellerResponseStats(args) {
+      const { data, error } = await getSupabase().rpc(
+        "seller_response_stats",
+        args,
+      );
+      if (error) throw error;
+      return data ?? [];
+    },
+
+    async deleteAccount() {
+      const { error } = await getSupabase().rpc("delete_account");
+      if (error) throw error;
+    },
+  },
+};
@@ -0,0 +1,49 @@
+import { getSupabase } from "../../supabase";
+import type { InquiriesBackend } from "../types";
+
+export const supabaseInquiries: InquiriesBackend = {
+  async forUser(userId) {
+    const { data, error } = await getSupabase()
+      .from("inquiries")
+      .select("*, listings(id, make, model, year, price, seller_id)")
+      .or(`buyer_id.eq.${userId},seller_id.eq.${userId}`)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async thread(listingId, buyerId) {
+    const { data, error } = await getSupabase()
+      .from("inquiries")
+      .select("*, inquiry_attachments(*)")
+      .eq("listing_id", listingId)
+      .eq("buyer_id", buyerId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async insert(payload) {
+    const { data, error } = await getSupabase()
+      .from("inquiries")
+      .insert(payload)
+      .select("id")
+      .single();
+
+    // RLS rejects messages to someone who blocked the sender
+    if (error?.code === "42501")
+      throw new Error("You can't message this user.");
+    if (error) throw error;
+    return data.id;
+  },
+
+  async insertAttachments(rows) {
+    if (!rows.length) return;
+    const { error } = await getSupabase()
+      .from("inquiry_attachments")
+      .insert(rows);
+    if (error) throw error;
+  },
+};
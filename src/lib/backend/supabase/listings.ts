@@ -0,0 +1,134 @@
+import { getSupabase } from "../../supabase";
+import type { ListingsBackend } from "../types";
+
+const WITH_IMAGES = "*, listing_images(bucket, path, position)";
+
+export const supabaseListings: ListingsBackend = {
+  async query(opts) {
+    let q = getSupabase()
+      .from("listings")
+      .select(WITH_IMAGES, { count: "exact" });
+
+    if (opts.ids) q = q.in("id", opts.ids);
+    if (opts.sellerId) q = q.eq("seller_id", opts.sellerId);
+    if (opts.activeOnly) {
+      q = q
+        .eq("status", "active")
+        .gt("expires_at", new Date().toISOString())
+        .is("hidden_at", null);
+    }
+    if (opts.featuredOnly) {
+      const now = new Date().toISOString();
+      q = q
+        .eq("is_featured", true)
+        .or(`featured_from.is.null,featured_from.lte.${now}`)
+        .or(`featured_until.is.null,featured_until.gt.${now}`);
+    }
+
+    const term = opts.search?.trim();
+    if (term) {
+      q = q.or(`make.ilike.%${term}%,model.ilike.%${term}%`);
+    }
+
+    if (opts.make) q = q.eq("make", opts.make);
+    if (opts.models?.length) q = q.in("model", opts.models);
+    if (opts.minPrice != null) q = q.gte("price", opts.minPrice);
+    if (opts.maxPrice != null) q = q.lte("price", opts.maxPrice);
+    if (opts.minYear != null) q = q.gte("year", opts.minYear);
+    if (opts.maxYear != null) q = q.lte("year", opts.maxYear);
+    if (opts.maxMileage != null) q = q.lte("mileage", opts.maxMileage);
+    if (opts.fuelTypes?.length) q = q.in("fuel_type", opts.fuelTypes);
+    if (opts.transmissions?.length)
+      q = q.in("transmission", opts.transmissions);
+    if (opts.createdAfter) q = q.gt("created_at", opts.createdAfter);
+    if (opts.priceDroppedOnly) q = q.not("price_dropped_at", "is", null);
+
+    if (opts.order) {
+      const { column, ascending, nullsFirst } = opts.order;
+      q = q.order(column, { ascending, nullsFirst });
+    }
+    if (opts.range) q = q.range(opts.range.from, opts.range.to);
+    if (opts.limit !== undefined) q = q.limit(opts.limit);
+
+    const { data, error, count } = await q;
+    if (error) throw error;
+    return { rows: data ?? [], count: count ?? 0 };
+  },
+
+  async get(id) {
+    const { data, error } = await getSupabase()
+      .from("listings")
+      .select(WITH_IMAGES)
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async getMini(id) {
+    const { data, error } = await getSupabase()
+      .from("listings")
+      .select("id, make, model, year, price, seller_id")
+      .eq("id", id)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async insert(payload) {
+    const { data, error } = await getSupabase()
+      .from("listings")
+      .insert(payload)
+      .select("id")
+      .single();
+
+    if (error) throw error;
+    return data.id;
+  },
+
+  async update(id, patch) {
+    const { error } = await getSupabase()
+      .from("listings")
+      .update(patch)
+      .eq("id", id);
+    if (error) throw error;
+  },
+
+  async remove(ids) {
+    if (!ids.length) return;
+    const { error } = await getSupabase()
+      .from("listings")
+      .delete()
+      .in("id", ids);
+    if (error) throw error;
+  },
+
+  async activeMakes() {
+    const { data, error } = await getSupabase()
+      .from("listings")
+      .select("make")
+      .eq("status", "active")
+      .gt("expires_at", new Date().toISOString())
+      .is("hidden_at", null);
+
+    if (error) throw error;
+    return (data ?? []).map((r) => r.make);
+  },
+
+  async makeModels() {
+    const { data, error } = await getSupabase()
+      .from("listings")
+      .select("make, model");
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async relabel(from, to) {
+    let q = getSupabase().from("listings").update(to).eq("make", from.make);
+    if (from.model !== undefined) q = q.eq("model", from.model);
+    const { error } = await q;
+    if (error) throw error;
+  },
+};
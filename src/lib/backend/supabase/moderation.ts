@@ -0,0 +1,89 @@
+import { getSupabase } from "../../supabase";
+import type { AuditLogBackend, BlocksBackend, ReportsBackend } from "../types";
+
+export const supabaseBlocks: BlocksBackend = {
+  async list(blockerId) {
+    const { data, error } = await getSupabase()
+      .from("user_blocks")
+      .select("*")
+      .eq("blocker_id", blockerId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async add(blockerId, blockedId) {
+    const { error } = await getSupabase()
+      .from("user_blocks")
+      .upsert(
+        { blocker_id: blockerId, blocked_id: blockedId },
+        { onConflict: "blocker_id,blocked_id", ignoreDuplicates: true },
+      );
+    if (error) throw error;
+  },
+
+  async remove(blockerId, blockedId) {
+    const { error } = await getSupabase()
+      .from("user_blocks")
+      .delete()
+      .eq("blocker_id", blockerId)
+      .eq("blocked_id", blockedId);
+    if (error) throw error;
+  },
+};
+
+export const supabaseReports: ReportsBackend = {
+  async insert(payload) {
+    const { data, error } = await getSupabase()
+      .from("reports")
+      .insert(payload)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async list(q) {
+    let query = getSupabase()
+      .from("reports")
+      .select("*, listings(id, make, model, year, price, seller_id)")
+      .order("created_at", { ascending: false });
+    if (q.status) query = query.eq("status", q.status);
+    if (q.reportedUserId)
+      query = query.eq("reported_user_id", q.reportedUserId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async update(id, patch) {
+    const { error } = await getSupabase()
+      .from("reports")
+      .update(patch)
+      .eq("id", id);
+    if (error) throw error;
+  },
+};
+
+export const supabaseAuditLog: AuditLogBackend = {
+  async list(q) {
+    let query = getSupabase()
+      .from("admin_actions")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(q.limit);
+    if (q.targetIds) query = query.in("target_id", q.targetIds);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async insert(payload) {
+    const { error } = await getSupabase().from("admin_actions").insert(payload);
+    if (error) throw error;
+  },
+};
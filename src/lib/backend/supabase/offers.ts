@@ -0,0 +1,40 @@
+import { getSupabase } from "../../supabase";
+import type { OffersBackend } from "../types";
+
+export const supabaseOffers: OffersBackend = {
+  async forThread(listingId, buyerId) {
+    const { data, error } = await getSupabase()
+      .from("offers")
+      .select("*")
+      .eq("listing_id", listingId)
+      .eq("buyer_id", buyerId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async insert(payload) {
+    const { data, error } = await getSupabase()
+      .from("offers")
+      .insert(payload)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id, patch) {
+    const { error } = await getSupabase()
+      .from("offers")
+      .update(patch)
+      .eq("id", id);
+    if (error) throw error;
+  },
+
+  async remove(id) {
+    const { error } = await getSupabase().from("offers").delete().eq("id", id);
+    if (error) throw error;
+  },
+};
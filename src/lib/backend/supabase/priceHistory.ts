@@ -0,0 +1,20 @@
+import { getSupabase } from "../../supabase";
+import type { PriceHistoryBackend } from "../types";
+
+export const supabasePriceHistory: PriceHistoryBackend = {
+  async list(listingId) {
+    const { data, error } = await getSupabase()
+      .from("price_history")
+      .select("*")
+      .eq("listing_id", listingId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async insert(payload) {
+    const { error } = await getSupabase().from("price_history").insert(payload);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,34 @@
+import { getSupabase } from "../../supabase";
+import type { ProfilesBackend } from "../types";
+
+export const supabaseProfiles: ProfilesBackend = {
+  async get(userId) {
+    const { data, error } = await getSupabase()
+      .from("profiles")
+      .select("*")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async getPublic(userId) {
+    const { data, error } = await getSupabase()
+      .from("public_profiles")
+      .select("*")
+      .eq("id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async update(userId, patch) {
+    const { error } = await getSupabase()
+      .from("profiles")
+      .update(patch)
+      .eq("id", userId);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,75 @@
+import { getSupabase } from "../../supabase";
+import type { Inquiry } from "../../../types/car";
+import type { RealtimeBackend } from "../types";
+
+// Requires `inquiries` in the supabase_realtime publication; RLS still decides
+// which rows each subscriber receives.
+
+// supabase.channel() returns the existing channel for a topic, so callers
+// sharing one would re-subscribe it and tear it down for each other.
+let subscriptionSeq = 0;
+
+export const supabaseRealtime: RealtimeBackend = {
+  onInquiry(userId, cb) {
+    const supabase = getSupabase();
+    const handle = (payload: { new: Inquiry }) => cb(payload.new);
+
+    // postgres_changes filters take a single column, hence two listeners
+    const channel = supabase
+      .channel(`inquiries:${userId}:${++subscriptionSeq}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "inquiries",
+          filter: `buyer_id=eq.${userId}`,
+        },
+        handle,
+      )
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "inquiries",
+          filter: `seller_id=eq.${userId}`,
+        },
+        handle,
+      )
+      .subscribe();
+
+    return () => {
+      void supabase.removeChannel(channel);
+    };
+  },
+
+  joinThread({ listingId, buyerId }, userId, cb) {
+    const supabase = getSupabase();
+    const channel = supabase.channel(`thread:${listingId}:${buyerId}`, {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<{ typing: boolean }>();
+        const online = Object.keys(state);
+        cb({
+          online,
+          typing: online.filter((id) => state[id].some((m) => m.typing)),
+        });
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") void channel.track({ typing: false });
+      });
+
+    return {
+      setTyping(typing) {
+        void channel.track({ typing });
+      },
+      leave() {
+        void supabase.removeChannel(channel);
+      },
+    };
+  },
+};
@@ -0,0 +1,42 @@
+import { getSupabase } from "../../supabase";
+import type { SavedSearchesBackend } from "../types";
+
+export const supabaseSavedSearches: SavedSearchesBackend = {
+  async list(userId) {
+    const { data, error } = await getSupabase()
+      .from("saved_searches")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false });
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async insert(payload) {
+    const { data, error } = await getSupabase()
+      .from("saved_searches")
+      .insert(payload)
+      .select("*")
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async update(id, patch) {
+    const { error } = await getSupabase()
+      .from("saved_searches")
+      .update(patch)
+      .eq("id", id);
+    if (error) throw error;
+  },
+
+  async remove(id) {
+    const { error } = await getSupabase()
+      .from("saved_searches")
+      .delete()
+      .eq("id", id);
+    if (error) throw error;
+  },
+};
@@ -0,0 +1,21 @@
+import { getSupabase } from "../../supabase";
+import type { ThreadReadsBackend } from "../types";
+
+export const supabaseThreadReads: ThreadReadsBackend = {
+  async list(userId) {
+    const { data, error } = await getSupabase()
+      .from("thread_reads")
+      .select("*")
+      .eq("user_id", userId);
+
+    if (error) throw error;
+    return data ?? [];
+  },
+
+  async markRead(row) {
+    const { error } = await getSupabase()
+      .from("thread_reads")
+      .upsert(row, { onConflict: "user_id,listing_id,buyer_id" });
+    if (error) throw error;
+  },
+};
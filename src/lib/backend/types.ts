@@ -0,0 +1,323 @@
+import type { User } from "@supabase/supabase-js";
+import type {
+  AdminAction,
+  Appointment,
+  AvailabilityWindow,
+  Brand,
+  CarListing,
+  CarModel,
+  Favorite,
+  Inquiry,
+  InquiryAttachmentRow,
+  Listing,
+  ListingImageRow,
+  Offer,
+  PriceHistoryEntry,
+  Profile,
+  ProfileEdit,
+  PublicProfile,
+  Report,
+  ReportStatus,
+  SavedSearch,
+  ThreadRead,
+  UserBlock,
+} from "../../types/car";
+import type {
+  FunctionArgs,
+  FunctionReturns,
+  TablesInsert,
+  TablesUpdate,
+} from "../../types/database";
+
+// Everything the app needs from a backend. lib/db builds on these primitives;
+// pages never talk to an implementation directly.
+
+export type AuthUser = User;
+
+export type OAuthProvider = "github" | "google";
+
+export type ListingQuery = {
+  ids?: string[];
+  sellerId?: string;
+  activeOnly?: boolean; // status = 'active', not past expires_at, not hidden
+  featuredOnly?: boolean; // is_featured and inside its featured_from/until window
+  search?: string; // matches make or model, case-insensitive
+  make?: string;
+  models?: string[];
+  minPrice?: number | null;
+  maxPrice?: number | null;
+  minYear?: number | null;
+  maxYear?: number | null;
+  maxMileage?: number | null;
+  fuelTypes?: string[];
+  transmissions?: string[];
+  createdAfter?: string; // ISO timestamp, exclusive
+  priceDroppedOnly?: boolean;
+  // nullsFirst defaults to Postgres behaviour (first for DESC, last for ASC)
+  order?: { column: keyof Listing; ascending: boolean; nullsFirst?: boolean };
+  range?: { from: number; to: number }; // inclusive, like PostgREST
+  limit?: number;
+};
+
+export type ListingMini = Pick<
+  Listing,
+  "id" | "make" | "model" | "year" | "price" | "seller_id"
+>;
+
+export type FavoriteWithListing = Favorite & {
+  listings: CarListing | null;
+};
+
+export type InquiryWithListing = Inquiry & {
+  listings: ListingMini | null;
+};
+
+export type InquiryWithAttachments = Inquiry & {
+  inquiry_attachments: InquiryAttachmentRow[];
+};
+
+export interface AuthBackend {
+  getUser(): Promise<AuthUser | null>;
+  signInWithOAuth(provider: OAuthProvider, redirectTo: string): Promise<void>;
+  /** Emails a magic link that signs the user in at `redirectTo`. */
+  signInWithOtp(email: string, redirectTo: string): Promise<void>;
+  signInWithPassword(email: string, password: string): Promise<void>;
+  /** `needsConfirmation` when the project requires email confirmation first. */
+  signUp(
+    email: string,
+    password: string,
+    redirectTo: string,
+  ): Promise<{ needsConfirmation: boolean }>;
+  /** Emails a recovery link that signs the user in at `redirectTo`. */
+  resetPasswordForEmail(email: string, redirectTo: string): Promise<void>;
+  updatePassword(password: string): Promise<void>;
+  signOut(): Promise<void>;
+  /** Returns an unsubscribe function. */
+  onAuthStateChange(cb: (user: AuthUser | null) => void): () => void;
+}
+
+export interface ListingsBackend {
+  query(q: ListingQuery): Promise<{ rows: CarListing[]; count: number }>;
+  get(id: string): Promise<CarListing>;
+  getMini(id: string): Promise<ListingMini>;
+  insert(payload: TablesInsert<"listings">): Promise<string>;
+  update(id: string, patch: TablesUpdate<"listings">): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  activeMakes(): Promise<string[]>;
+  /** make/model of every listing, any status; for catalog upkeep. */
+  makeModels(): Promise<Pick<Listing, "make" | "model">[]>;
+  /** Rewrites make/model text on every listing matching `from`. */
+  relabel(
+    from: { make: string; model?: string },
+    to: { make?: string; model?: string },
+  ): Promise<void>;
+}
+
+export interface ListingImagesBackend {
+  list(listingId: string): Promise<ListingImageRow[]>;
+  insert(rows: TablesInsert<"listing_images">[]): Promise<void>;
+  remove(ids: string[]): Promise<void>;
+  setPosition(id: string, position: number): Promise<void>;
+}
+
+export interface StorageBackend {
+  upload(
+    bucket: string,
+    path: string,
+    file: File,
+    opts: { contentType?: string; cacheControl?: string },
+  ): Promise<void>;
+  remove(bucket: string, paths: string[]): Promise<void>;
+  publicUrl(bucket: string, path: string): string;
+  /** Same order as `paths`; null where an object couldn't be signed. */
+  signedUrls(
+    bucket: string,
+    paths: string[],
+    expiresInSeconds: number,
+  ): Promise<(string | null)[]>;
+}
+
+export interface FavoritesBackend {
+  list(userId: string): Promise<FavoriteWithListing[]>;
+  listingIds(userId: string, listingIds: string[]): Promise<string[]>;
+  exists(userId: string, listingId: string): Promise<boolean>;
+  add(userId: string, listingId: string): Promise<void>;
+  remove(userId: string, listingId: string): Promise<void>;
+}
+
+export interface InquiriesBackend {
+  forUser(userId: string): Promise<InquiryWithListing[]>;
+  thread(listingId: string, buyerId: string): Promise<InquiryWithAttachments[]>;
+  /** Returns the new message id. */
+  insert(payload: TablesInsert<"inquiries">): Promise<string>;
+  insertAttachments(rows: TablesInsert<"inquiry_attachments">[]): Promise<void>;
+}
+
+export interface PriceHistoryBackend {
+  /** Oldest first. */
+  list(listingId: string): Promise<PriceHistoryEntry[]>;
+  insert(payload: TablesInsert<"price_history">): Promise<void>;
+}
+
+export type ThreadKey = { listingId: string; buyerId: string };
+
+export interface OffersBackend {
+  /** Oldest first. */
+  forThread(listingId: string, buyerId: string): Promise<Offer[]>;
+  insert(payload: TablesInsert<"offers">): Promise<Offer>;
+  update(id: string, patch: TablesUpdate<"offers">): Promise<void>;
+  /** Only for rolling back an offer whose thread message failed. */
+  remove(id: string): Promise<void>;
+}
+
+export interface AppointmentsBackend {
+  /** Oldest first. */
+  windows(listingId: string): Promise<AvailabilityWindow[]>;
+  addWindow(
+    payload: TablesInsert<"availability_windows">,
+  ): Promise<AvailabilityWindow>;
+  removeWindow(id: string): Promise<void>;
+  forThread(listingId: string, buyerId: string): Promise<Appointment[]>;
+  insert(payload: TablesInsert<"appointments">): Promise<Appointment>;
+  update(id: string, patch: TablesUpdate<"appointments">): Promise<void>;
+  /** Only for rolling back a request whose thread message failed. */
+  remove(id: string): Promise<void>;
+}
+
+export interface ThreadReadsBackend {
+  list(userId: string): Promise<ThreadRead[]>;
+  /** Upsert on (user_id, listing_id, buyer_id). */
+  markRead(row: TablesInsert<"thread_reads">): Promise<void>;
+}
+
+export type ThreadPresence = {
+  online: string[]; // user ids with the thread open
+  typing: string[];
+};
+
+export type PresenceHandle = {
+  setTyping(typing: boolean): void;
+  leave(): void;
+};
+
+export interface RealtimeBackend {
+  /**
+   * Calls `cb` for every new inquiry where `userId` is buyer or seller.
+   * Returns an unsubscribe function.
+   */
+  onInquiry(userId: string, cb: (row: Inquiry) => void): () => void;
+  joinThread(
+    key: ThreadKey,
+    userId: string,
+    cb: (presence: ThreadPresence) => void,
+  ): PresenceHandle;
+}
+
+export interface BlocksBackend {
+  /** Users `blockerId` has blocked, newest first. */
+  list(blockerId: string): Promise<UserBlock[]>;
+  add(blockerId: string, blockedId: string): Promise<void>;
+  remove(blockerId: string, blockedId: string): Promise<void>;
+}
+
+export type ReportWithListing = Report & {
+  listings: ListingMini | null;
+};
+
+export interface ReportsBackend {
+  insert(payload: TablesInsert<"reports">): Promise<Report>;
+  /** Newest first. */
+  list(q: {
+    status?: ReportStatus;
+    reportedUserId?: string;
+  }): Promise<ReportWithListing[]>;
+  update(id: string, patch: TablesUpdate<"reports">): Promise<void>;
+}
+
+export interface AuditLogBackend {
+  /** Newest first; `targetIds` narrows to actions on those rows. */
+  list(q: { targetIds?: string[]; limit: number }): Promise<AdminAction[]>;
+  insert(payload: TablesInsert<"admin_actions">): Promise<void>;
+}
+
+export interface ProfilesBackend {
+  /** The full row; RLS only returns it to its owner (and admins). */
+  get(userId: string): Promise<Profile | null>;
+  /** Anyone's profile, with fields they keep private nulled out. */
+  getPublic(userId: string): Promise<PublicProfile | null>;
+  /** Owner-editable columns only; `is_admin` is never written from here. */
+  update(userId: string, patch: ProfileEdit): Promise<void>;
+}
+
+export interface CatalogBackend {
+  brands(): Promise<Brand[]>;
+  models(brandId: string): Promise<CarModel[]>;
+  allModels(): Promise<CarModel[]>;
+  insertBrand(payload: TablesInsert<"brands">): Promise<Brand>;
+  updateBrand(id: string, patch: TablesUpdate<"brands">): Promise<void>;
+  /** Also removes the brand's models. */
+  removeBrand(id: string): Promise<void>;
+  insertModel(payload: TablesInsert<"models">): Promise<CarModel>;
+  updateModel(id: string, patch: TablesUpdate<"models">): Promise<void>;
+  removeModel(id: string): Promise<void>;
+}
+
+export interface SavedSearchesBackend {
+  list(userId: string): Promise<SavedSearch[]>;
+  insert(payload: TablesInsert<"saved_searches">): Promise<SavedSearch>;
+  update(id: string, patch: TablesUpdate<"saved_searches">): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+export interface RpcBackend {
+  searchListingIdsWithinRadius(
+    args: FunctionArgs<"search_listing_ids_within_radius">,
+  ): Promise<FunctionReturns<"search_listing_ids_within_radius">>;
+  /**
+   * Runs as the database owner: the buyer may accept a seller's counter, and
+   * the listing goes pending even though buyers can't update listings.
+   */
+  acceptOffer(args: FunctionArgs<"accept_offer">): Promise<void>;
+  /**
+   * Requested or confirmed times for a listing, across all buyers (who can
+   * only read their own appointments directly).
+   */
+  listingBookedSlots(
+    args: FunctionArgs<"listing_booked_slots">,
+  ): Promise<FunctionReturns<"listing_booked_slots">>;
+  /**
+   * How often (and how fast) a seller answers buyers, computed server-side
+   * since inquiries are only readable by their participants.
+   */
+  sellerResponseStats(
+    args: FunctionArgs<"seller_response_stats">,
+  ): Promise<FunctionReturns<"seller_response_stats">>;
+  /**
+   * Deletes the caller's account: listings are removed from sale, messages
+   * and offers keep only an anonymous placeholder for the other party, and
+   * the rest of their rows go with the auth user. Storage objects are the
+   * caller's job beforehand.
+   */
+  deleteAccount(): Promise<void>;
+}
+
+export interface Backend {
+  auth: AuthBackend;
+  listings: ListingsBackend;
+  images: ListingImagesBackend;
+  storage: StorageBackend;
+  favorites: FavoritesBackend;
+  inquiries: InquiriesBackend;
+  threadReads: ThreadReadsBackend;
+  offers: OffersBackend;
+  appointments: AppointmentsBackend;
+  blocks: BlocksBackend;
+  reports: ReportsBackend;
+  auditLog: AuditLogBackend;
+  priceHistory: PriceHistoryBackend;
+  profiles: ProfilesBackend;
+  catalog: CatalogBackend;
+  realtime: RealtimeBackend;
+  savedSearches: SavedSearchesBackend;
+  rpc: RpcBackend;
+}
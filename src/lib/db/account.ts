@@ -0,0 +1,143 @@
+import { backend } from "../backend";
+import type { AuthUser } from "../backend/types";
+import { groupThreads } from "./inquiries";
+import {
+  LISTING_IMAGES_BUCKET,
+  publicUrl,
+  removeStorageObjects,
+  sortImages,
+} from "./images";
+import { AVATARS_BUCKET, avatarUrl } from "./profiles";
+import type {
+  Appointment,
+  Inquiry,
+  Listing,
+  Offer,
+  Profile,
+  SavedSearch,
+} from "../../types/car";
+
+export type AccountExport = {
+  exported_at: string;
+  account: { id: string; email: string | null; created_at: string };
+  profile: (Profile & { avatar_url: string | null }) | null;
+  listings: (Listing & { image_urls: string[] })[];
+  favorites: { listing_id: string; saved_at: string; listing: string | null }[];
+  conversations: {
+    listing_id: string;
+    buyer_id: string;
+    seller_id: string;
+    listing: string | null;
+    // attachment links expire, so only their names are kept
+    messages: (Inquiry & { attachments: string[] })[];
+    offers: Offer[];
+    appointments: Appointment[];
+  }[];
+  saved_searches: SavedSearch[];
+  blocked_user_ids: string[];
+};
+
+function listingTitle(
+  l: Pick<Listing, "year" | "make" | "model"> | null | undefined,
+) {
+  return l ? `${l.year} ${l.make} ${l.model}` : null;
+}
+
+/**
+ * Everything the user has stored with us, in one JSON-serializable object.
+ */
+export async function exportAccountData(
+  user: AuthUser,
+): Promise<AccountExport> {
+  const [profile, { rows: listings }, favorites, inbox, savedSearches, blocks] =
+    await Promise.all([
+      backend.profiles.get(user.id),
+      backend.listings.query({
+        sellerId: user.id,
+        order: { column: "created_at", ascending: false },
+      }),
+      backend.favorites.list(user.id),
+      backend.inquiries.forUser(user.id),
+      backend.savedSearches.list(user.id),
+      backend.blocks.list(user.id),
+    ]);
+
+  const conversations = await Promise.all(
+    groupThreads(inbox).map(async (t) => {
+      const [messages, offers, appointments] = await Promise.all([
+        backend.inquiries.thread(t.listing_id, t.buyer_id),
+        backend.offers.forThread(t.listing_id, t.buyer_id),
+        backend.appointments.forThread(t.listing_id, t.buyer_id),
+      ]);
+      return {
+        listing_id: t.listing_id,
+        buyer_id: t.buyer_id,
+        seller_id: t.seller_id,
+        listing: listingTitle(t.listing),
+        messages: messages.map(({ inquiry_attachments, ...m }) => ({
+          ...m,
+          attachments: inquiry_attachments.map((a) => a.file_name),
+        })),
+        offers,
+        appointments,
+      };
+    }),
+  );
+
+  return {
+    exported_at: new Date().toISOString(),
+    account: {
+      id: user.id,
+      email: user.email ?? null,
+      created_at: user.created_at,
+    },
+    profile: profile ? { ...profile, avatar_url: avatarUrl(profile) } : null,
+    listings: listings.map(({ listing_images, ...l }) => ({
+      ...l,
+      image_urls: sortImages(listing_images).map((i) =>
+        publicUrl(i.bucket, i.path),
+      ),
+    })),
+    favorites: favorites.map((f) => ({
+      listing_id: f.listing_id,
+      saved_at: f.created_at,
+      listing: listingTitle(f.listings),
+    })),
+    conversations,
+    saved_searches: savedSearches,
+    blocked_user_ids: blocks.map((b) => b.blocked_id),
+  };
+}
+
+export function accountExportFilename(date = new Date()) {
+  return `nexus-cars-export-${date.toISOString().slice(0, 10)}.json`;
+}
+
+/**
+ * Removes the user's photos (listing images under `listings/<id>/` and their
+ * avatar), then has the database delete the account and signs out. Storage
+ * goes first: once the account is gone, Storage RLS no longer lets anyone
+ * but the service role touch those objects.
+ */
+export async function deleteAccount(userId: string) {
+  const [{ rows: listings }, profile] = await Promise.all([
+    backend.listings.query({ sellerId: userId }),
+    backend.profiles.get(userId),
+  ]);
+
+  const imagePaths = listings
+    .flatMap((l) => l.listing_images)
+    .filter((i) => i.bucket === LISTING_IMAGES_BUCKET)
+    .map((i) => i.path);
+  await removeStorageObjects(LISTING_IMAGES_BUCKET, imagePaths);
+  if (profile?.avatar_path)
+    await removeStorageObjects(AVATARS_BUCKET, [profile.avatar_path]);
+
+  await backend.rpc.deleteAccount();
+
+  try {
+    await backend.auth.signOut();
+  } catch {
+    // the session died with the account; local state is cleared regardless
+  }
+}
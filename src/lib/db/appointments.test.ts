@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { openSlots } from "./appointments";
+import type { AvailabilityWindow } from "../../types/car";
+
+const now = new Date("2024-05-01T00:00:00.000Z");
+
+// as the database returns them: "+00:00" offsets and microseconds
+const window = {
+  starts_at: "2024-05-01T17:00:00+00:00",
+  ends_at: "2024-05-01T19:00:00.000000+00:00",
+} as AvailabilityWindow;
+
+describe("openSlots", () => {
+  it("keeps the slots either side of a booking in database format", () => {
+    const slots = openSlots(
+      [window],
+      [
+        {
+          starts_at: "2024-05-01T17:30:00+00:00",
+          ends_at: "2024-05-01T18:00:00+00:00",
+        },
+      ],
+      now,
+    );
+
+    expect(slots.map((s) => s.starts_at)).toEqual([
+      "2024-05-01T17:00:00.000Z",
+      "2024-05-01T18:00:00.000Z",
+      "2024-05-01T18:30:00.000Z",
+    ]);
+  });
+
+  it("drops slots that overlap a booking", () => {
+    const slots = openSlots(
+      [window],
+      [
+        {
+          starts_at: "2024-05-01T17:45:00.123456+00:00",
+          ends_at: "2024-05-01T18:15:00.123456+00:00",
+        },
+      ],
+      now,
+    );
+
+    expect(slots.map((s) => s.starts_at)).toEqual([
+      "2024-05-01T17:00:00.000Z",
+      "2024-05-01T18:30:00.000Z",
+    ]);
+  });
+});
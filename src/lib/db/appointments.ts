@@ -0,0 +1,247 @@
+import { backend } from "../backend";
+import { sendInquiry } from "./inquiries";
+import type { Appointment, AvailabilityWindow } from "../../types/car";
+
+// Every test drive / viewing is one fixed-length slot inside a window
+export const SLOT_MINUTES = 30;
+
+const SLOT_MS = SLOT_MINUTES * 60 * 1000;
+
+export type Slot = { starts_at: string; ends_at: string };
+
+type Participants = {
+  listingId: string;
+  buyerId: string;
+  sellerId: string;
+};
+
+/**
+ * "Tue, May 7, 5:30 PM – 6:00 PM" in the viewer's time zone. Text that is
+ * stored for someone else to read (thread messages) passes `withZone`, since
+ * they may be in a different one.
+ */
+export function formatSlot(slot: Slot, withZone = false) {
+  const start = new Date(slot.starts_at);
+  const end = new Date(slot.ends_at);
+  const day = start.toLocaleDateString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+  const time = (d: Date, zone = false) =>
+    d.toLocaleTimeString(undefined, {
+      hour: "numeric",
+      minute: "2-digit",
+      timeZoneName: zone ? "short" : undefined,
+    });
+  return `${day}, ${time(start)} – ${time(end, withZone)}`;
+}
+
+// Slots built here are toISOString() output while DB rows carry "+00:00"
+// offsets and microseconds, so compare instants rather than strings.
+function overlaps(a: Slot, b: Slot) {
+  return (
+    Date.parse(a.starts_at) < Date.parse(b.ends_at) &&
+    Date.parse(b.starts_at) < Date.parse(a.ends_at)
+  );
+}
+
+/**
+ * Splits windows into slots, dropping past ones and any that overlap a
+ * booked time. Windows are expected oldest first.
+ */
+export function openSlots(
+  windows: AvailabilityWindow[],
+  booked: Slot[],
+  now = new Date(),
+): Slot[] {
+  const slots: Slot[] = [];
+  for (const w of windows) {
+    const end = Date.parse(w.ends_at);
+    for (let t = Date.parse(w.starts_at); t + SLOT_MS <= end; t += SLOT_MS) {
+      if (t <= now.getTime()) continue;
+      const slot = {
+        starts_at: new Date(t).toISOString(),
+        ends_at: new Date(t + SLOT_MS).toISOString(),
+      };
+      if (!booked.some((b) => overlaps(b, slot))) slots.push(slot);
+    }
+  }
+  return slots;
+}
+
+/**
+ * The seller's windows that haven't ended yet.
+ */
+export async function fetchAvailability(
+  listingId: string,
+): Promise<AvailabilityWindow[]> {
+  const now = Date.now();
+  const rows = await backend.appointments.windows(listingId);
+  return rows.filter((w) => Date.parse(w.ends_at) > now);
+}
+
+export async function fetchOpenSlots(listingId: string): Promise<Slot[]> {
+  const [windows, booked] = await Promise.all([
+    fetchAvailability(listingId),
+    backend.rpc.listingBookedSlots({ p_listing_id: listingId }),
+  ]);
+  return openSlots(windows, booked);
+}
+
+export async function addAvailabilityWindow(
+  listingId: string,
+  sellerId: string,
+  startsAt: Date,
+  endsAt: Date,
+) {
+  if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime()))
+    throw new Error("Pick a date and times.");
+  if (endsAt.getTime() - startsAt.getTime() < SLOT_MS)
+    throw new Error(`Windows must be at least ${SLOT_MINUTES} minutes long.`);
+  if (endsAt <= new Date()) throw new Error("That window is in the past.");
+
+  return backend.appointments.addWindow({
+    listing_id: listingId,
+    seller_id: sellerId,
+    starts_at: startsAt.toISOString(),
+    ends_at: endsAt.toISOString(),
+  });
+}
+
+export async function removeAvailabilityWindow(id: string) {
+  await backend.appointments.removeWindow(id);
+}
+
+function isParticipant(appt: Appointment, userId: string) {
+  return userId === appt.buyer_id || userId === appt.seller_id;
+}
+
+function isPast(appt: Appointment, now = new Date()) {
+  return new Date(appt.ends_at) <= now;
+}
+
+/**
+ * The other party confirms a requested time.
+ */
+export function canConfirm(appt: Appointment, userId: string) {
+  return (
+    appt.status === "requested" &&
+    isParticipant(appt, userId) &&
+    userId !== appt.requested_by &&
+    !isPast(appt)
+  );
+}
+
+/**
+ * Either party may move or cancel an upcoming appointment.
+ */
+export function canChange(appt: Appointment, userId: string) {
+  return (
+    appt.status !== "cancelled" && isParticipant(appt, userId) && !isPast(appt)
+  );
+}
+
+async function postUpdate(appt: Appointment, userId: string, message: string) {
+  await sendInquiry({
+    listing_id: appt.listing_id,
+    buyer_id: appt.buyer_id,
+    seller_id: appt.seller_id,
+    sender_id: userId,
+    message,
+  });
+}
+
+/**
+ * Books `slot` as requested and posts it to the thread as a message carrying
+ * the appointment id, so it shows up (and notifies) like any other message.
+ */
+export async function requestAppointment(
+  thread: Participants,
+  userId: string,
+  slot: Slot,
+  note = "",
+) {
+  const trimmed = note.trim();
+  const appt = await backend.appointments.insert({
+    listing_id: thread.listingId,
+    buyer_id: thread.buyerId,
+    seller_id: thread.sellerId,
+    requested_by: userId,
+    starts_at: slot.starts_at,
+    ends_at: slot.ends_at,
+    note: trimmed || null,
+  });
+
+  try {
+    await sendInquiry({
+      listing_id: thread.listingId,
+      buyer_id: thread.buyerId,
+      seller_id: thread.sellerId,
+      sender_id: userId,
+      appointment_id: appt.id,
+      message: `Requested a test drive: ${formatSlot(slot, true)}${trimmed ? ` — ${trimmed}` : ""}`,
+    });
+  } catch (err) {
+    // e.g. the other party has blocked us: free the slot again
+    try {
+      await backend.appointments.remove(appt.id);
+    } catch {
+      // ignore rollback errors
+    }
+    throw err;
+  }
+  return appt;
+}
+
+export async function confirmAppointment(appt: Appointment, userId: string) {
+  if (!canConfirm(appt, userId))
+    throw new Error("This appointment can't be confirmed.");
+  await backend.appointments.update(appt.id, {
+    status: "confirmed",
+    updated_at: new Date().toISOString(),
+  });
+  await postUpdate(
+    appt,
+    userId,
+    `Confirmed the test drive: ${formatSlot(appt, true)}`,
+  );
+}
+
+/**
+ * Proposes a new time; it needs confirming again by the other party.
+ */
+export async function rescheduleAppointment(
+  appt: Appointment,
+  userId: string,
+  slot: Slot,
+) {
+  if (!canChange(appt, userId))
+    throw new Error("This appointment can't be changed.");
+  await backend.appointments.update(appt.id, {
+    status: "requested",
+    requested_by: userId,
+    starts_at: slot.starts_at,
+    ends_at: slot.ends_at,
+    updated_at: new Date().toISOString(),
+  });
+  await postUpdate(
+    appt,
+    userId,
+    `Proposed a new time for the test drive: ${formatSlot(slot, true)}`,
+  );
+}
+
+export async function cancelAppointment(appt: Appointment, userId: string) {
+  if (!canChange(appt, userId))
+    throw new Error("This appointment can't be changed.");
+  await backend.appointments.update(appt.id, {
+    status: "cancelled",
+    updated_at: new Date().toISOString(),
+  });
+  await postUpdate(
+    appt,
+    userId,
+    `Cancelled the test drive: ${formatSlot(appt, true)}`,
+  );
+}
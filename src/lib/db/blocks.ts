@@ -0,0 +1,27 @@
+import { backend } from "../backend";
+import type { UserBlock } from "../../types/car";
+
+export async function fetchBlockedUsers(userId: string): Promise<UserBlock[]> {
+  return backend.blocks.list(userId);
+}
+
+/**
+ * Ids `userId` has blocked, for filtering threads.
+ */
+export async function fetchBlockedIds(userId: string): Promise<Set<string>> {
+  const rows = await backend.blocks.list(userId);
+  return new Set(rows.map((b) => b.blocked_id));
+}
+
+/**
+ * Hides the other user's threads from `userId` and stops them messaging
+ * `userId` (enforced by the inquiries insert policy).
+ */
+export async function blockUser(userId: string, blockedId: string) {
+  if (userId === blockedId) throw new Error("You can't block yourself.");
+  await backend.blocks.add(userId, blockedId);
+}
+
+export async function unblockUser(userId: string, blockedId: string) {
+  await backend.blocks.remove(userId, blockedId);
+}
@@ -0,0 +1,38 @@
+import { backend } from "../backend";
+import type { Brand, CarModel } from "../../types/car";
+
+// The catalog is optional: callers fall back to free-text make/model when
+// these return empty lists.
+
+export async function fetchBrands(): Promise<Brand[]> {
+  try {
+    return await backend.catalog.brands();
+  } catch {
+    return [];
+  }
+}
+
+export async function fetchModels(brandId: string): Promise<CarModel[]> {
+  try {
+    return await backend.catalog.models(brandId);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Distinct make names for filters: the brands table if present,
+ * otherwise inferred from active listings.
+ */
+export async function fetchMakeNames(): Promise<string[]> {
+  const brands = await fetchBrands();
+  const names = brands.length
+    ? brands.map((b) => b.name)
+    : await backend.listings.activeMakes();
+
+  const uniq = new Set<string>();
+  for (const name of names) {
+    if (name && name.trim()) uniq.add(name.trim());
+  }
+  return Array.from(uniq).sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,262 @@
+import { backend } from "../backend";
+import { logAdminAction } from "./moderation";
+import type { Brand, CarModel } from "../../types/car";
+
+// Admin upkeep of the brands/models catalog. Listings store make/model as
+// plain text, so renames and merges rewrite matching listings too.
+
+export type CatalogMismatch = {
+  make: string;
+  model: string;
+  count: number;
+  // Catalog entry the text most likely means, when there is one
+  suggestion: { brand: Brand; model: CarModel } | null;
+};
+
+export type CatalogOverview = {
+  brands: Brand[];
+  models: CarModel[];
+  brandCounts: Record<string, number>; // listings per brand id
+  modelCounts: Record<string, number>; // listings per model id
+  mismatches: CatalogMismatch[];
+};
+
+/**
+ * Loose comparison key: "f150", "F-150" and " F 150 " all match.
+ */
+export function catalogKey(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function cleanName(name: string) {
+  const trimmed = name.trim().replace(/\s+/g, " ");
+  if (!trimmed) throw new Error("Enter a name.");
+  return trimmed;
+}
+
+function assertUnique(
+  name: string,
+  existing: { id: string; name: string }[],
+  exceptId?: string,
+) {
+  const key = catalogKey(name);
+  const clash = existing.find(
+    (e) => e.id !== exceptId && catalogKey(e.name) === key,
+  );
+  if (clash) throw new Error(`${clash.name} is already in the catalog.`);
+}
+
+export async function fetchCatalogOverview(): Promise<CatalogOverview> {
+  const [brands, models, listings] = await Promise.all([
+    backend.catalog.brands(),
+    backend.catalog.allModels(),
+    backend.listings.makeModels(),
+  ]);
+
+  const brandByName = new Map(brands.map((b) => [b.name, b]));
+  const brandByKey = new Map(brands.map((b) => [catalogKey(b.name), b]));
+  const modelsOf = (brandId: string) =>
+    models.filter((m) => m.brand_id === brandId);
+
+  const brandCounts: Record<string, number> = {};
+  const modelCounts: Record<string, number> = {};
+  const mismatched = new Map<string, CatalogMismatch>();
+
+  for (const l of listings) {
+    const brand = brandByName.get(l.make);
+    if (brand) brandCounts[brand.id] = (brandCounts[brand.id] ?? 0) + 1;
+    const model = brand && modelsOf(brand.id).find((m) => m.name === l.model);
+    if (model) {
+      modelCounts[model.id] = (modelCounts[model.id] ?? 0) + 1;
+      continue;
+    }
+
+    const key = `${l.make}\u0000${l.model}`;
+    const seen = mismatched.get(key);
+    if (seen) {
+      seen.count += 1;
+      continue;
+    }
+    const likelyBrand = brandByKey.get(catalogKey(l.make));
+    const likelyModel =
+      likelyBrand &&
+      modelsOf(likelyBrand.id).find(
+        (m) => catalogKey(m.name) === catalogKey(l.model),
+      );
+    mismatched.set(key, {
+      make: l.make,
+      model: l.model,
+      count: 1,
+      suggestion:
+        likelyBrand && likelyModel
+          ? { brand: likelyBrand, model: likelyModel }
+          : null,
+    });
+  }
+
+  const mismatches = Array.from(mismatched.values()).sort(
+    (a, b) =>
+      b.count - a.count ||
+      a.make.localeCompare(b.make) ||
+      a.model.localeCompare(b.model),
+  );
+  return { brands, models, brandCounts, modelCounts, mismatches };
+}
+
+export async function createBrand(adminId: string, name: string) {
+  const clean = cleanName(name);
+  assertUnique(clean, await backend.catalog.brands());
+  const brand = await backend.catalog.insertBrand({ name: clean });
+  await logAdminAction(adminId, "create_brand", "brand", brand.id, {
+    title: clean,
+  });
+  return brand;
+}
+
+export async function renameBrand(adminId: string, brand: Brand, name: string) {
+  const clean = cleanName(name);
+  if (clean === brand.name) return;
+  assertUnique(clean, await backend.catalog.brands(), brand.id);
+  const from = brand.name;
+  await backend.listings.relabel({ make: from }, { make: clean });
+  await backend.catalog.updateBrand(brand.id, { name: clean });
+  await logAdminAction(adminId, "rename_brand", "brand", brand.id, {
+    title: `${from} → ${clean}`,
+  });
+}
+
+/**
+ * Folds `source` into `target`: same-named models are merged, the rest move
+ * over, and listings are relabelled before `source` is deleted.
+ */
+export async function mergeBrands(
+  adminId: string,
+  source: Brand,
+  target: Brand,
+) {
+  if (source.id === target.id) throw new Error("Pick a different brand.");
+  const [sourceModels, targetModels] = await Promise.all([
+    backend.catalog.models(source.id),
+    backend.catalog.models(target.id),
+  ]);
+
+  for (const m of sourceModels) {
+    const twin = targetModels.find(
+      (t) => catalogKey(t.name) === catalogKey(m.name),
+    );
+    if (twin) {
+      await backend.listings.relabel(
+        { make: source.name, model: m.name },
+        { make: target.name, model: twin.name },
+      );
+      await backend.catalog.removeModel(m.id);
+    } else {
+      await backend.catalog.updateModel(m.id, { brand_id: target.id });
+    }
+  }
+  await backend.listings.relabel({ make: source.name }, { make: target.name });
+  await backend.catalog.removeBrand(source.id);
+  await logAdminAction(adminId, "merge_brand", "brand", target.id, {
+    title: `${source.name} → ${target.name}`,
+  });
+}
+
+/**
+ * Removes the brand and its models. Listings keep their text and show up
+ * in the mismatch report.
+ */
+export async function deleteBrand(adminId: string, brand: Brand) {
+  await backend.catalog.removeBrand(brand.id);
+  await logAdminAction(adminId, "delete_brand", "brand", brand.id, {
+    title: brand.name,
+  });
+}
+
+export async function createModel(adminId: string, brand: Brand, name: string) {
+  const clean = cleanName(name);
+  assertUnique(clean, await backend.catalog.models(brand.id));
+  const model = await backend.catalog.insertModel({
+    brand_id: brand.id,
+    name: clean,
+  });
+  await logAdminAction(adminId, "create_model", "model", model.id, {
+    title: `${brand.name} ${clean}`,
+  });
+  return model;
+}
+
+export async function renameModel(
+  adminId: string,
+  brand: Brand,
+  model: CarModel,
+  name: string,
+) {
+  const clean = cleanName(name);
+  if (clean === model.name) return;
+  assertUnique(clean, await backend.catalog.models(brand.id), model.id);
+  const from = model.name;
+  await backend.listings.relabel(
+    { make: brand.name, model: from },
+    { model: clean },
+  );
+  await backend.catalog.updateModel(model.id, { name: clean });
+  await logAdminAction(adminId, "rename_model", "model", model.id, {
+    title: `${brand.name} ${from} → ${clean}`,
+  });
+}
+
+/**
+ * Folds `source` into `target` (both models of `brand`).
+ */
+export async function mergeModels(
+  adminId: string,
+  brand: Brand,
+  source: CarModel,
+  target: CarModel,
+) {
+  if (source.id === target.id) throw new Error("Pick a different model.");
+  await backend.listings.relabel(
+    { make: brand.name, model: source.name },
+    { model: target.name },
+  );
+  await backend.catalog.removeModel(source.id);
+  await logAdminAction(adminId, "merge_model", "model", target.id, {
+    title: `${brand.name} ${source.name} → ${target.name}`,
+  });
+}
+
+export async function deleteModel(
+  adminId: string,
+  brand: Brand,
+  model: CarModel,
+) {
+  await backend.catalog.removeModel(model.id);
+  await logAdminAction(adminId, "delete_model", "model", model.id, {
+    title: `${brand.name} ${model.name}`,
+  });
+}
+
+/**
+ * Rewrites every mismatch that has a suggestion to the catalog spelling.
+ * Returns how many listings changed.
+ */
+export async function normalizeListings(
+  adminId: string,
+  mismatches: CatalogMismatch[],
+) {
+  let changed = 0;
+  for (const m of mismatches) {
+    if (!m.suggestion) continue;
+    const { brand, model } = m.suggestion;
+    await backend.listings.relabel(
+      { make: m.make, model: m.model },
+      { make: brand.name, model: model.name },
+    );
+    await logAdminAction(adminId, "normalize_listings", "model", model.id, {
+      title: `${m.make} ${m.model} → ${brand.name} ${model.name}`,
+      count: m.count,
+    });
+    changed += m.count;
+  }
+  return changed;
+}
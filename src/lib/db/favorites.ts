@@ -0,0 +1,33 @@
+import { backend } from "../backend";
+import type { FavoriteWithListing } from "../backend/types";
+
+export type { FavoriteWithListing };
+
+export async function fetchFavorites(
+  userId: string,
+): Promise<FavoriteWithListing[]> {
+  return backend.favorites.list(userId);
+}
+
+/**
+ * Which of `listingIds` the user has saved.
+ */
+export async function fetchFavoriteIds(
+  userId: string,
+  listingIds: string[],
+): Promise<Set<string>> {
+  if (!listingIds.length) return new Set();
+  return new Set(await backend.favorites.listingIds(userId, listingIds));
+}
+
+export async function isFavorite(userId: string, listingId: string) {
+  return backend.favorites.exists(userId, listingId);
+}
+
+export async function addFavorite(userId: string, listingId: string) {
+  await backend.favorites.add(userId, listingId);
+}
+
+export async function removeFavorite(userId: string, listingId: string) {
+  await backend.favorites.remove(userId, listingId);
+}
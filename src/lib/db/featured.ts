@@ -0,0 +1,98 @@
+import type { Listing } from "../../types/car";
+
+// Admins feature a listing for a date range with a priority. The home page
+// has FEATURED_SLOTS places; when more listings qualify, the lowest priority
+// that doesn't fit takes turns, moving on every FEATURED_ROTATION_MINUTES.
+
+export const FEATURED_SLOTS = 6;
+
+export const FEATURED_ROTATION_MINUTES = 60;
+
+export const MAX_FEATURED_PRIORITY = 10;
+
+type Featurable = Pick<
+  Listing,
+  | "id"
+  | "is_featured"
+  | "featured_from"
+  | "featured_until"
+  | "featured_priority"
+>;
+
+export type FeaturedState = "scheduled" | "live" | "ended";
+
+/**
+ * Where the listing is in its featured window, or null when it isn't featured.
+ */
+export function featuredState(
+  listing: Featurable,
+  now = new Date(),
+): FeaturedState | null {
+  if (!listing.is_featured) return null;
+  const iso = now.toISOString();
+  if (listing.featured_from && listing.featured_from > iso) return "scheduled";
+  if (listing.featured_until && listing.featured_until <= iso) return "ended";
+  return "live";
+}
+
+export function featuredLabel(listing: Featurable, now = new Date()) {
+  const state = featuredState(listing, now);
+  const day = (iso: string) =>
+    new Date(iso).toLocaleDateString(undefined, {
+      month: "short",
+      day: "numeric",
+    });
+
+  if (state === "scheduled")
+    return `Featured from ${day(listing.featured_from!)}${
+      listing.featured_until ? ` to ${day(listing.featured_until)}` : ""
+    }`;
+  if (state === "live")
+    return listing.featured_until
+      ? `Featured until ${day(listing.featured_until)}`
+      : "Featured";
+  if (state === "ended") return "Featuring ended";
+  return null;
+}
+
+/**
+ * Picks `slots` listings: higher priorities always make it; ties in the
+ * priority that overflows rotate over time. Deterministic for a given `now`.
+ */
+export function rotateFeatured<T extends Featurable>(
+  rows: T[],
+  slots = FEATURED_SLOTS,
+  now = new Date(),
+): T[] {
+  const sorted = rows
+    .slice()
+    .sort(
+      (a, b) =>
+        b.featured_priority - a.featured_priority || a.id.localeCompare(b.id),
+    );
+  if (sorted.length <= slots) return sorted;
+
+  const picked: T[] = [];
+  let i = 0;
+  while (i < sorted.length && picked.length < slots) {
+    const priority = sorted[i].featured_priority;
+    let end = i;
+    while (end < sorted.length && sorted[end].featured_priority === priority)
+      end++;
+    const tier = sorted.slice(i, end);
+    const room = slots - picked.length;
+
+    if (tier.length <= room) {
+      picked.push(...tier);
+    } else {
+      const turn = Math.floor(
+        now.getTime() / (FEATURED_ROTATION_MINUTES * 60 * 1000),
+      );
+      const offset = (turn * room) % tier.length;
+      for (let k = 0; k < room; k++)
+        picked.push(tier[(offset + k) % tier.length]);
+    }
+    i = end;
+  }
+  return picked;
+}
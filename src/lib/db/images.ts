@@ -0,0 +1,127 @@
+import { backend } from "../backend";
+import { newId } from "../ids";
+import type { ListingImage, ListingImageRow } from "../../types/car";
+
+export const LISTING_IMAGES_BUCKET = "car-images";
+
+const ALLOWED_EXT = new Set(["jpg", "jpeg", "png", "webp"]);
+
+function getFileExt(filename: string) {
+  const i = filename.lastIndexOf(".");
+  if (i < 0) return "jpg";
+  return filename.slice(i + 1).toLowerCase();
+}
+
+function safeImageExt(ext: string) {
+  return ALLOWED_EXT.has(ext) ? ext : "jpg";
+}
+
+function buildObjectPath(listingId: string, ext: string) {
+  // IMPORTANT: keep a consistent prefix so Storage RLS can match it
+  return `listings/${listingId}/${newId()}.${ext}`;
+}
+
+export function publicUrl(bucket: string, path: string) {
+  return backend.storage.publicUrl(bucket, path);
+}
+
+export function sortImages<T extends Pick<ListingImage, "position">>(
+  images: T[] | null | undefined,
+) {
+  return (images ?? [])
+    .slice()
+    .sort((a, b) => (a.position ?? 0) - (b.position ?? 0));
+}
+
+/**
+ * Public URL of the cover (lowest position) image, or null when there are none.
+ */
+export function coverUrl(images: ListingImage[] | null | undefined) {
+  const cover = sortImages(images)[0];
+  return cover ? publicUrl(cover.bucket, cover.path) : null;
+}
+
+export async function fetchListingImages(
+  listingId: string,
+): Promise<ListingImageRow[]> {
+  return backend.images.list(listingId);
+}
+
+export async function removeStorageObjects(bucket: string, paths: string[]) {
+  if (!paths.length) return;
+  await backend.storage.remove(bucket, paths);
+}
+
+/**
+ * Deletes image rows, then their storage objects in our bucket.
+ */
+export async function deleteListingImages(images: ListingImageRow[]) {
+  if (!images.length) return;
+
+  await backend.images.remove(images.map((x) => x.id));
+
+  const paths = images
+    .filter((x) => x.bucket === LISTING_IMAGES_BUCKET)
+    .map((x) => x.path);
+  await removeStorageObjects(LISTING_IMAGES_BUCKET, paths);
+}
+
+export async function updateImagePositions(
+  rows: Array<{ id: string; position: number }>,
+) {
+  if (!rows.length) return;
+
+  // Upsert usually requires a unique constraint; safe fallback: individual updates.
+  for (const r of rows) {
+    await backend.images.setPosition(r.id, r.position);
+  }
+}
+
+/**
+ * Uploads files under `listings/<listingId>/` and inserts their rows starting
+ * at `startPosition`. Storage objects are rolled back if the insert fails.
+ */
+export async function uploadListingImages(
+  listingId: string,
+  files: File[],
+  startPosition: number,
+) {
+  if (!files.length) return;
+
+  const inserted: Array<{ bucket: string; path: string; position: number }> =
+    [];
+
+  for (let i = 0; i < files.length; i++) {
+    const f = files[i];
+    const ext = safeImageExt(getFileExt(f.name));
+    const path = buildObjectPath(listingId, ext);
+
+    await backend.storage.upload(LISTING_IMAGES_BUCKET, path, f, {
+      cacheControl: "3600",
+      contentType: f.type || undefined,
+    });
+
+    inserted.push({
+      bucket: LISTING_IMAGES_BUCKET,
+      path,
+      position: startPosition + i,
+    });
+  }
+
+  try {
+    await backend.images.insert(
+      inserted.map((r) => ({ listing_id: listingId, ...r })),
+    );
+  } catch (insertErr) {
+    // best-effort rollback storage
+    try {
+      await removeStorageObjects(
+        LISTING_IMAGES_BUCKET,
+        inserted.map((x) => x.path),
+      );
+    } catch {
+      // ignore rollback errors
+    }
+    throw insertErr;
+  }
+}
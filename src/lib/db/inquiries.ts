@@ -0,0 +1,231 @@
+import { backend } from "../backend";
+import {
+  discardMessageAttachments,
+  signAttachments,
+  uploadMessageAttachments,
+} from "./messageAttachments";
+import type { MessageAttachment } from "./messageAttachments";
+import type {
+  InquiryWithListing,
+  ListingMini,
+  PresenceHandle,
+  ThreadKey,
+  ThreadPresence,
+} from "../backend/types";
+import type { Appointment, Inquiry, Offer, ThreadRead } from "../../types/car";
+import type { TablesInsert } from "../../types/database";
+
+export type { InquiryWithListing, ListingMini, ThreadPresence };
+
+export type ThreadMessage = Inquiry & {
+  attachments: MessageAttachment[];
+  offer: Offer | null; // current state of the offer this message made
+  appointment: Appointment | null; // likewise for a test-drive request
+};
+
+export type Thread = {
+  listing_id: string;
+  buyer_id: string;
+  seller_id: string;
+  last_message: string;
+  last_at: string;
+  listing: ListingMini | null;
+};
+
+/**
+ * The participant of a message's thread who isn't `userId`.
+ */
+export function otherParty(
+  m: Pick<Inquiry, "buyer_id" | "seller_id">,
+  userId: string,
+) {
+  return m.buyer_id === userId ? m.seller_id : m.buyer_id;
+}
+
+/**
+ * Every message the user sent or received, newest first, minus threads with
+ * users they've blocked.
+ */
+export async function fetchInbox(
+  userId: string,
+): Promise<InquiryWithListing[]> {
+  const [rows, blocks] = await Promise.all([
+    backend.inquiries.forUser(userId),
+    backend.blocks.list(userId),
+  ]);
+  if (!blocks.length) return rows;
+
+  const blocked = new Set(blocks.map((b) => b.blocked_id));
+  return rows.filter((m) => !blocked.has(otherParty(m, userId)));
+}
+
+export function threadKey(listingId: string, buyerId: string) {
+  return `${listingId}::${buyerId}`;
+}
+
+/**
+ * Groups messages into threads by (listing_id + buyer_id), newest thread first.
+ */
+export function groupThreads(messages: InquiryWithListing[]): Thread[] {
+  const threadsMap = new Map<string, Thread>();
+  for (const msg of messages) {
+    const key = threadKey(msg.listing_id, msg.buyer_id);
+    const existing = threadsMap.get(key);
+    if (!existing || existing.last_at < msg.created_at) {
+      threadsMap.set(key, {
+        listing_id: msg.listing_id,
+        buyer_id: msg.buyer_id,
+        seller_id: msg.seller_id,
+        last_message: msg.message,
+        last_at: msg.created_at,
+        listing: msg.listings,
+      });
+    }
+  }
+  return Array.from(threadsMap.values()).sort(
+    (a, b) => new Date(b.last_at).getTime() - new Date(a.last_at).getTime(),
+  );
+}
+
+/**
+ * Messages oldest first, each with its attachments' signed URLs and the
+ * offer or appointment it carries, if any.
+ */
+export async function fetchThread(
+  listingId: string,
+  buyerId: string,
+): Promise<ThreadMessage[]> {
+  const [rows, offers, appointments] = await Promise.all([
+    backend.inquiries.thread(listingId, buyerId),
+    backend.offers.forThread(listingId, buyerId),
+    backend.appointments.forThread(listingId, buyerId),
+  ]);
+  const signed = await signAttachments(
+    rows.flatMap((r) => r.inquiry_attachments),
+  );
+  const offersById = new Map(offers.map((o) => [o.id, o]));
+  const appointmentsById = new Map(appointments.map((a) => [a.id, a]));
+
+  return rows.map(({ inquiry_attachments, ...m }) => ({
+    ...m,
+    attachments: inquiry_attachments.length
+      ? signed.filter((a) => a.inquiry_id === m.id)
+      : [],
+    offer: m.offer_id ? (offersById.get(m.offer_id) ?? null) : null,
+    appointment: m.appointment_id
+      ? (appointmentsById.get(m.appointment_id) ?? null)
+      : null,
+  }));
+}
+
+export async function fetchListingMini(id: string): Promise<ListingMini> {
+  return backend.listings.getMini(id);
+}
+
+/**
+ * Sends a message, uploading `files` first. If saving fails the uploads are
+ * removed again, so nothing is left orphaned in the bucket.
+ */
+export async function sendInquiry(
+  payload: TablesInsert<"inquiries">,
+  files: File[] = [],
+) {
+  const uploaded = await uploadMessageAttachments(
+    payload.listing_id,
+    payload.buyer_id,
+    files,
+  );
+
+  let inquiryId: string;
+  try {
+    inquiryId = await backend.inquiries.insert(payload);
+  } catch (err) {
+    await discardMessageAttachments(uploaded);
+    throw err;
+  }
+
+  if (!uploaded.length) return;
+  try {
+    await backend.inquiries.insertAttachments(
+      uploaded.map((a) => ({ ...a, inquiry_id: inquiryId })),
+    );
+  } catch {
+    await discardMessageAttachments(uploaded);
+    throw new Error("Message sent, but the attachments could not be saved.");
+  }
+}
+
+/**
+ * Live feed of new messages to or from `userId`. Returns an unsubscribe.
+ */
+export function subscribeToInquiries(
+  userId: string,
+  onMessage: (row: Inquiry) => void,
+) {
+  return backend.realtime.onInquiry(userId, onMessage);
+}
+
+/**
+ * Announces `userId` in a thread and reports who else is there / typing.
+ */
+export function joinThreadPresence(
+  key: ThreadKey,
+  userId: string,
+  onChange: (presence: ThreadPresence) => void,
+): PresenceHandle {
+  return backend.realtime.joinThread(key, userId, onChange);
+}
+
+/**
+ * Unread messages per thread key: sent by someone else after the user's
+ * last read of that thread (all of them if it was never opened).
+ */
+export function countUnread(
+  messages: Inquiry[],
+  reads: ThreadRead[],
+  userId: string,
+): Map<string, number> {
+  const lastRead = new Map(
+    reads.map((r) => [threadKey(r.listing_id, r.buyer_id), r.last_read_at]),
+  );
+  const counts = new Map<string, number>();
+  for (const m of messages) {
+    if (m.sender_id === userId) continue;
+    const key = threadKey(m.listing_id, m.buyer_id);
+    const seen = lastRead.get(key);
+    // parsed: created_at and last_read_at may differ in format
+    if (seen && Date.parse(m.created_at) <= Date.parse(seen)) continue;
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return counts;
+}
+
+export async function fetchUnreadCounts(userId: string) {
+  const [messages, reads] = await Promise.all([
+    fetchInbox(userId),
+    backend.threadReads.list(userId),
+  ]);
+  const byThread = countUnread(messages, reads, userId);
+  let total = 0;
+  byThread.forEach((n) => (total += n));
+  return { byThread, total };
+}
+
+/**
+ * Marks the thread read up to `lastMessageAt`, the created_at of the newest
+ * message shown. That's a server timestamp, so the client's clock can't make
+ * messages look read (or unread) when they aren't.
+ */
+export async function markThreadRead(
+  userId: string,
+  listingId: string,
+  buyerId: string,
+  lastMessageAt: string,
+) {
+  await backend.threadReads.markRead({
+    user_id: userId,
+    listing_id: listingId,
+    buyer_id: buyerId,
+    last_read_at: lastMessageAt,
+  });
+}
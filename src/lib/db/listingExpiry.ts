@@ -0,0 +1,74 @@
+import { backend } from "../backend";
+import type { Listing } from "../../types/car";
+
+// Listings are live for LISTING_LIFETIME_DAYS from creation or last renewal.
+// Browse queries and RLS skip anything past `expires_at`; the `expire-listings`
+// cron job (see README) flips the stored status to "expired" server side.
+
+export const LISTING_LIFETIME_DAYS = 60;
+
+// Warn sellers on the Account page this many days ahead
+export const EXPIRY_WARNING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function nextExpiry(from = new Date()) {
+  return new Date(
+    from.getTime() + LISTING_LIFETIME_DAYS * DAY_MS,
+  ).toISOString();
+}
+
+/**
+ * Whole days left before expiry (0 = expires today, negative = overdue).
+ */
+export function daysUntilExpiry(
+  listing: Pick<Listing, "expires_at">,
+  now = new Date(),
+) {
+  return Math.floor(
+    (new Date(listing.expires_at).getTime() - now.getTime()) / DAY_MS,
+  );
+}
+
+export function isExpiringSoon(
+  listing: Pick<Listing, "status" | "expires_at">,
+  now = new Date(),
+) {
+  if (listing.status !== "active") return false;
+  const days = daysUntilExpiry(listing, now);
+  return days >= 0 && days <= EXPIRY_WARNING_DAYS;
+}
+
+export function isPastExpiry(
+  listing: Pick<Listing, "expires_at">,
+  now = new Date(),
+) {
+  return new Date(listing.expires_at).getTime() <= now.getTime();
+}
+
+/**
+ * The listing as the expiry job will leave it: active but past `expires_at`
+ * reads as expired, whether or not the job has run yet.
+ */
+export function withExpiry<T extends Pick<Listing, "status" | "expires_at">>(
+  listing: T,
+  now = new Date(),
+): T {
+  return listing.status === "active" && isPastExpiry(listing, now)
+    ? { ...listing, status: "expired" }
+    : listing;
+}
+
+/**
+ * Restarts the listing's lifetime; expired listings go live again.
+ */
+export async function renewListing(id: string) {
+  const { status } = await backend.listings.get(id);
+  if (status !== "active" && status !== "expired") {
+    throw new Error(`Only active or expired listings can be renewed.`);
+  }
+  await backend.listings.update(id, {
+    status: "active",
+    expires_at: nextExpiry(),
+  });
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { backend } from "../backend";
+import { changeListingStatus } from "./listingStatus";
+
+const CAMRY_ID = "10000000-0000-4000-8000-000000000001";
+
+describe("changeListingStatus", () => {
+  it("treats a lapsed active listing as expired", async () => {
+    await backend.listings.update(CAMRY_ID, {
+      status: "active",
+      expires_at: "2020-01-01T00:00:00+00:00",
+    });
+
+    await expect(changeListingStatus(CAMRY_ID, "sold")).rejects.toThrow(
+      "expired",
+    );
+    await expect(changeListingStatus(CAMRY_ID, "pending")).rejects.toThrow();
+    expect((await backend.listings.get(CAMRY_ID)).status).toBe("active");
+  });
+
+  it("relists a lapsed listing with a fresh expiry", async () => {
+    await backend.listings.update(CAMRY_ID, {
+      status: "active",
+      expires_at: "2020-01-01T00:00:00+00:00",
+    });
+
+    await changeListingStatus(CAMRY_ID, "active");
+
+    const listing = await backend.listings.get(CAMRY_ID);
+    expect(Date.parse(listing.expires_at)).toBeGreaterThan(Date.now());
+  });
+});
@@ -0,0 +1,52 @@
+import { backend } from "../backend";
+import { nextExpiry, withExpiry } from "./listingExpiry";
+import type { ListingStatus } from "../../types/car";
+
+export const LISTING_STATUSES: ListingStatus[] = [
+  "draft",
+  "active",
+  "pending",
+  "sold",
+  "expired",
+  "removed",
+];
+
+// Which statuses a seller may move a listing to from each status. The database
+// should enforce the same table (trigger or RLS check); this copy drives the UI.
+const TRANSITIONS: Record<ListingStatus, ListingStatus[]> = {
+  draft: ["active", "removed"],
+  active: ["pending", "sold", "draft", "removed"],
+  pending: ["active", "sold", "removed"],
+  sold: ["removed"],
+  expired: ["active", "removed"],
+  removed: ["draft"],
+};
+
+export function allowedTransitions(from: ListingStatus): ListingStatus[] {
+  return TRANSITIONS[from];
+}
+
+export function canTransition(from: ListingStatus, to: ListingStatus) {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Moves a listing to `to`, rejecting transitions the table above doesn't allow.
+ * Every move to active (publishing a draft, relisting an expired listing, or
+ * reopening a pending one) starts a fresh expiry period. A lapsed listing
+ * counts as expired here even if the expiry job hasn't flipped it yet.
+ */
+export async function changeListingStatus(id: string, to: ListingStatus) {
+  const { status } = withExpiry(await backend.listings.get(id));
+  if (!canTransition(status, to)) {
+    throw new Error(`This listing is ${status}, so it can't be marked ${to}.`);
+  }
+  await backend.listings.update(id, {
+    status: to,
+    ...(to === "active" ? { expires_at: nextExpiry() } : {}),
+  });
+}
+
+export async function markListingSold(id: string) {
+  await changeListingStatus(id, "sold");
+}
@@ -0,0 +1,265 @@
+import { backend } from "../backend";
+import type { ListingQuery } from "../backend/types";
+import { geocodeZip } from "../location";
+import { rotateFeatured } from "./featured";
+import { nextExpiry, withExpiry } from "./listingExpiry";
+import type { CarListing, Listing } from "../../types/car";
+import type { TablesInsert, TablesUpdate } from "../../types/database";
+
+export type ListingFilters = {
+  search: string;
+  make: string;
+  models: string[]; // empty = any model of `make`
+  minPrice: number; // 0 = no minimum
+  maxPrice: number; // DEFAULT_MAX_PRICE means "no limit"
+  minYear: number; // 0 = any
+  maxYear: number; // 0 = any
+  maxMileage: number; // 0 = any
+  fuelTypes: string[]; // empty = any
+  transmissions: string[]; // empty = any
+  priceDropped: boolean; // only listings whose price went down
+  zip: string;
+  radiusMiles: number; // 0 = ignore
+};
+
+export const LISTING_SORTS = [
+  "newest",
+  "price_asc",
+  "price_desc",
+  "mileage_asc",
+  "year_desc",
+  "year_asc",
+  "distance_asc",
+  "price_drop",
+] as const;
+
+export type ListingSort = (typeof LISTING_SORTS)[number];
+
+export function isListingSort(value: unknown): value is ListingSort {
+  return LISTING_SORTS.includes(value as ListingSort);
+}
+
+// "Unlimited" sentinel for max price
+export const DEFAULT_MAX_PRICE = Number.MAX_SAFE_INTEGER;
+
+export const EMPTY_FILTERS: ListingFilters = {
+  search: "",
+  make: "",
+  models: [],
+  minPrice: 0,
+  maxPrice: DEFAULT_MAX_PRICE,
+  minYear: 0,
+  maxYear: 0,
+  maxMileage: 0,
+  fuelTypes: [],
+  transmissions: [],
+  priceDropped: false,
+  zip: "",
+  radiusMiles: 0,
+};
+
+// Radius that covers the whole map, for distance sorting without a radius
+const ANY_DISTANCE_MILES = 12500;
+
+const SORT_ORDER: Record<ListingSort, NonNullable<ListingQuery["order"]>> = {
+  newest: { column: "created_at", ascending: false },
+  price_asc: { column: "price", ascending: true },
+  price_desc: { column: "price", ascending: false },
+  mileage_asc: { column: "mileage", ascending: true },
+  year_desc: { column: "year", ascending: false },
+  year_asc: { column: "year", ascending: true },
+  // Only the RPC path knows the origin; without a ZIP this is just "newest"
+  distance_asc: { column: "created_at", ascending: false },
+  // Most recent drop first, never-dropped listings after
+  price_drop: {
+    column: "price_dropped_at",
+    ascending: false,
+    nullsFirst: false,
+  },
+};
+
+// Sentinels ("no limit") become null so neither query path applies them.
+function orNull(n: number, unset: number) {
+  return n === unset ? null : n;
+}
+
+function filterQuery(filters: ListingFilters): ListingQuery {
+  return {
+    activeOnly: true,
+    search: filters.search.trim() || undefined,
+    make: filters.make || undefined,
+    models: filters.models.length ? filters.models : undefined,
+    minPrice: orNull(filters.minPrice, 0),
+    // Only apply max price filter when user has set a limit
+    maxPrice: orNull(filters.maxPrice, DEFAULT_MAX_PRICE),
+    minYear: orNull(filters.minYear, 0),
+    maxYear: orNull(filters.maxYear, 0),
+    maxMileage: orNull(filters.maxMileage, 0),
+    fuelTypes: filters.fuelTypes.length ? filters.fuelTypes : undefined,
+    transmissions: filters.transmissions.length
+      ? filters.transmissions
+      : undefined,
+    priceDroppedOnly: filters.priceDropped || undefined,
+  };
+}
+
+export async function searchListings(args: {
+  filters: ListingFilters;
+  sort: ListingSort;
+  page: number;
+  pageSize: number;
+  createdAfter?: string;
+}): Promise<{ rows: CarListing[]; count: number }> {
+  const { filters, sort, page, pageSize, createdAfter } = args;
+
+  // Location-aware search uses a lightweight RPC to get ordered IDs within radius,
+  // then pulls the listing rows + images in a second query. Sorting by distance
+  // needs the same origin, so it takes this path even without a radius.
+  const hasRadius = (filters.radiusMiles ?? 0) > 0;
+  const useRadius =
+    !!filters.zip.trim() && (hasRadius || sort === "distance_asc");
+  if (useRadius) {
+    const ll = await geocodeZip(filters.zip);
+    // A ZIP that can't be geocoded searches without a radius. RPC errors
+    // propagate: quietly dropping the radius would show out-of-range cars.
+    if (ll) {
+      const q = filterQuery(filters);
+      const idRows = await backend.rpc.searchListingIdsWithinRadius({
+        p_lat: ll.lat,
+        p_lng: ll.lng,
+        p_radius_miles: hasRadius ? filters.radiusMiles : ANY_DISTANCE_MILES,
+        p_search: q.search ?? null,
+        p_make: q.make ?? null,
+        p_models: q.models ?? null,
+        p_min_price: q.minPrice,
+        p_max_price: q.maxPrice,
+        p_min_year: q.minYear,
+        p_max_year: q.maxYear,
+        p_max_mileage: q.maxMileage,
+        p_fuel_types: q.fuelTypes ?? null,
+        p_transmissions: q.transmissions ?? null,
+        p_created_after: createdAfter ?? null,
+        p_price_dropped: q.priceDroppedOnly ?? null,
+        p_sort: sort,
+        p_page: page,
+        p_page_size: pageSize,
+      });
+
+      const ids = idRows.map((r) => r.listing_id);
+      const totalCount = idRows[0]?.total_count ?? 0;
+      if (!ids.length) return { rows: [], count: totalCount };
+
+      const rows = await fetchListingsByIds(ids);
+      return { rows, count: totalCount };
+    }
+  }
+
+  const from = (page - 1) * pageSize;
+  return backend.listings.query({
+    ...filterQuery(filters),
+    createdAfter,
+    order: SORT_ORDER[sort],
+    range: { from, to: from + pageSize - 1 },
+  });
+}
+
+/**
+ * Loads listings (with images) and returns them in the order of `ids`.
+ */
+export async function fetchListingsByIds(ids: string[]): Promise<CarListing[]> {
+  if (!ids.length) return [];
+
+  const { rows } = await backend.listings.query({ ids });
+
+  const order = new Map(ids.map((id, idx): [string, number] => [id, idx]));
+  return rows.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+}
+
+/**
+ * Everything currently featured that matches `filters`, cut down to `slots`
+ * by priority and rotation.
+ */
+export async function fetchFeaturedListings(
+  filters: ListingFilters,
+  slots: number,
+): Promise<CarListing[]> {
+  const { rows } = await backend.listings.query({
+    ...filterQuery(filters),
+    featuredOnly: true,
+    order: SORT_ORDER.newest,
+  });
+  return rotateFeatured(rows, slots);
+}
+
+export async function fetchListing(id: string): Promise<CarListing> {
+  return backend.listings.get(id);
+}
+
+export async function fetchSellerListings(
+  sellerId: string,
+): Promise<Listing[]> {
+  const { rows } = await backend.listings.query({
+    sellerId,
+    order: SORT_ORDER.newest,
+  });
+  return rows.map((l) => withExpiry(l));
+}
+
+/**
+ * How much the asking price went down, or null when it hasn't dropped.
+ */
+export function priceDropAmount(
+  listing: Pick<Listing, "price" | "previous_price" | "price_dropped_at">,
+) {
+  if (!listing.price_dropped_at || listing.previous_price === null) return null;
+  const drop = listing.previous_price - listing.price;
+  return drop > 0 ? drop : null;
+}
+
+export async function createListing(
+  payload: TablesInsert<"listings">,
+): Promise<string> {
+  const id = await backend.listings.insert({
+    expires_at: nextExpiry(),
+    ...payload,
+  });
+  await recordPrice(id, payload.price);
+  return id;
+}
+
+/**
+ * Updates a listing. A price change is appended to its history; a drop also
+ * stamps `price_dropped_at`/`previous_price` (a raise clears them).
+ */
+export async function updateListing(
+  id: string,
+  patch: TablesUpdate<"listings">,
+) {
+  const nextPrice = patch.price;
+  if (nextPrice === undefined) {
+    await backend.listings.update(id, patch);
+    return;
+  }
+
+  const { price } = await backend.listings.getMini(id);
+  if (nextPrice === price) {
+    await backend.listings.update(id, patch);
+    return;
+  }
+
+  const dropped = nextPrice < price;
+  await backend.listings.update(id, {
+    ...patch,
+    previous_price: dropped ? price : null,
+    price_dropped_at: dropped ? new Date().toISOString() : null,
+  });
+  await recordPrice(id, nextPrice);
+}
+
+async function recordPrice(listingId: string, price: number) {
+  try {
+    await backend.priceHistory.insert({ listing_id: listingId, price });
+  } catch {
+    // History is nice-to-have; never fail the listing save over it.
+  }
+}
@@ -0,0 +1,125 @@
+import { backend } from "../backend";
+import { formatBytes } from "../format";
+import { newId } from "../ids";
+import { removeStorageObjects } from "./images";
+import type { InquiryAttachmentRow } from "../../types/car";
+
+// Private bucket: objects are only reachable through short-lived signed URLs,
+// and Storage RLS lets thread participants read `inquiries/<listing>/<buyer>/`.
+export const MESSAGE_ATTACHMENTS_BUCKET = "message-attachments";
+
+export const MAX_ATTACHMENTS = 5;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+const ALLOWED_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "application/pdf": "pdf",
+};
+
+export const ATTACHMENT_ACCEPT = Object.keys(ALLOWED_TYPES).join(",");
+
+// Signed URLs outlive a normal visit; the thread refetches long before expiry
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+export type MessageAttachment = InquiryAttachmentRow & {
+  url: string | null; // null when signing failed
+};
+
+export type UploadedAttachment = Omit<
+  InquiryAttachmentRow,
+  "id" | "inquiry_id" | "created_at"
+>;
+
+export function isImageAttachment(
+  a: Pick<InquiryAttachmentRow, "content_type">,
+) {
+  return a.content_type.startsWith("image/");
+}
+
+/**
+ * Why `file` can't be attached, or null when it's fine.
+ */
+export function attachmentError(file: File): string | null {
+  if (!ALLOWED_TYPES[file.type])
+    return `${file.name}: only JPG, PNG, WebP and PDF files can be attached.`;
+  if (file.size > MAX_ATTACHMENT_BYTES)
+    return `${file.name}: files must be ${formatBytes(MAX_ATTACHMENT_BYTES)} or smaller.`;
+  return null;
+}
+
+/**
+ * Uploads files under the thread's prefix. Validation errors throw before
+ * anything is uploaded; a failed upload removes the ones that succeeded.
+ */
+export async function uploadMessageAttachments(
+  listingId: string,
+  buyerId: string,
+  files: File[],
+): Promise<UploadedAttachment[]> {
+  if (files.length > MAX_ATTACHMENTS)
+    throw new Error(`Attach at most ${MAX_ATTACHMENTS} files per message.`);
+  for (const f of files) {
+    const err = attachmentError(f);
+    if (err) throw new Error(err);
+  }
+
+  const uploaded: UploadedAttachment[] = [];
+  try {
+    for (const f of files) {
+      const path = `inquiries/${listingId}/${buyerId}/${newId()}.${ALLOWED_TYPES[f.type]}`;
+      await backend.storage.upload(MESSAGE_ATTACHMENTS_BUCKET, path, f, {
+        contentType: f.type,
+      });
+      uploaded.push({
+        bucket: MESSAGE_ATTACHMENTS_BUCKET,
+        path,
+        file_name: f.name,
+        content_type: f.type,
+        size_bytes: f.size,
+      });
+    }
+  } catch (err) {
+    await discardMessageAttachments(uploaded);
+    throw err;
+  }
+  return uploaded;
+}
+
+/**
+ * Best-effort removal of uploaded objects whose message never got saved.
+ */
+export async function discardMessageAttachments(
+  uploaded: Pick<UploadedAttachment, "path">[],
+) {
+  try {
+    await removeStorageObjects(
+      MESSAGE_ATTACHMENTS_BUCKET,
+      uploaded.map((a) => a.path),
+    );
+  } catch {
+    // ignore rollback errors
+  }
+}
+
+/**
+ * Adds a signed `url` to each attachment (one signing request per call).
+ */
+export async function signAttachments(
+  rows: InquiryAttachmentRow[],
+): Promise<MessageAttachment[]> {
+  if (!rows.length) return [];
+
+  let urls: (string | null)[] = [];
+  try {
+    urls = await backend.storage.signedUrls(
+      MESSAGE_ATTACHMENTS_BUCKET,
+      rows.map((r) => r.path),
+      SIGNED_URL_TTL_SECONDS,
+    );
+  } catch {
+    // Still show the messages; attachments render as unavailable
+  }
+  return rows.map((r, i) => ({ ...r, url: urls[i] ?? null }));
+}
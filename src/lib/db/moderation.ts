@@ -0,0 +1,213 @@
+import { backend } from "../backend";
+import type { ReportWithListing } from "../backend/types";
+import { MAX_FEATURED_PRIORITY } from "./featured";
+import { deleteListingImages } from "./images";
+import type {
+  AdminAction,
+  AdminActionType,
+  CarListing,
+  Listing,
+  ReportStatus,
+} from "../../types/car";
+import type { Enums, Json } from "../../types/database";
+
+// Admin-only operations. RLS lets `profiles.is_admin` users read and write
+// everything touched here; every change is written to the audit log.
+
+export type { ReportWithListing };
+
+export const AUDIT_ACTION_LABELS: Record<AdminActionType, string> = {
+  hide_listing: "Hid listing",
+  restore_listing: "Restored listing",
+  delete_listing: "Deleted listing",
+  feature_listing: "Featured listing",
+  unfeature_listing: "Unfeatured listing",
+  resolve_report: "Resolved report",
+  dismiss_report: "Dismissed report",
+  create_brand: "Added brand",
+  rename_brand: "Renamed brand",
+  merge_brand: "Merged brand",
+  delete_brand: "Deleted brand",
+  create_model: "Added model",
+  rename_model: "Renamed model",
+  merge_model: "Merged model",
+  delete_model: "Deleted model",
+  normalize_listings: "Normalized listings",
+};
+
+export async function logAdminAction(
+  adminId: string,
+  action: AdminActionType,
+  targetType: Enums<"admin_target">,
+  targetId: string,
+  details: Json | null = null,
+) {
+  await backend.auditLog.insert({
+    admin_id: adminId,
+    action,
+    target_type: targetType,
+    target_id: targetId,
+    details,
+  });
+}
+
+export async function fetchReports(
+  status?: ReportStatus,
+): Promise<ReportWithListing[]> {
+  return backend.reports.list({ status });
+}
+
+/**
+ * Closes a report as acted on ("resolved") or unfounded ("dismissed").
+ */
+export async function closeReport(
+  adminId: string,
+  reportId: string,
+  status: Exclude<ReportStatus, "open">,
+) {
+  await backend.reports.update(reportId, {
+    status,
+    resolved_by: adminId,
+    resolved_at: new Date().toISOString(),
+  });
+  await logAdminAction(
+    adminId,
+    status === "resolved" ? "resolve_report" : "dismiss_report",
+    "report",
+    reportId,
+  );
+}
+
+/**
+ * Every listing regardless of status or visibility, newest first.
+ */
+export async function fetchAdminListings(args: {
+  search: string;
+  page: number;
+  pageSize: number;
+}): Promise<{ rows: CarListing[]; count: number }> {
+  const from = (args.page - 1) * args.pageSize;
+  return backend.listings.query({
+    search: args.search.trim() || undefined,
+    order: { column: "created_at", ascending: false },
+    range: { from, to: from + args.pageSize - 1 },
+  });
+}
+
+/**
+ * Hidden listings drop out of Browse but keep their status, so restoring
+ * puts them back exactly as the seller left them.
+ */
+export async function hideListings(adminId: string, ids: string[]) {
+  const now = new Date().toISOString();
+  for (const id of ids) {
+    await backend.listings.update(id, { hidden_at: now });
+    await logAdminAction(adminId, "hide_listing", "listing", id);
+  }
+}
+
+export async function restoreListings(adminId: string, ids: string[]) {
+  for (const id of ids) {
+    await backend.listings.update(id, { hidden_at: null });
+    await logAdminAction(adminId, "restore_listing", "listing", id);
+  }
+}
+
+/**
+ * Permanently deletes listings and their images. The audit entry keeps a
+ * short description, since the row itself is gone.
+ */
+export async function deleteListings(adminId: string, listings: Listing[]) {
+  for (const l of listings) {
+    const images = await backend.images.list(l.id);
+    await deleteListingImages(images);
+    await backend.listings.remove([l.id]);
+    await logAdminAction(adminId, "delete_listing", "listing", l.id, {
+      title: `${l.year} ${l.make} ${l.model}`,
+      seller_id: l.seller_id,
+    });
+  }
+}
+
+export type FeatureSchedule = {
+  from: Date | null; // null = now
+  until: Date | null; // null = open-ended
+  priority: number;
+};
+
+/**
+ * Features a listing for a date range; see lib/db/featured for how slots
+ * are shared.
+ */
+export async function featureListing(
+  adminId: string,
+  id: string,
+  schedule: FeatureSchedule,
+) {
+  const { from, until, priority } = schedule;
+  if (
+    (from && Number.isNaN(from.getTime())) ||
+    (until && Number.isNaN(until.getTime()))
+  )
+    throw new Error("Pick valid dates.");
+  if (until && until <= (from ?? new Date()))
+    throw new Error("The end date must be after the start.");
+  if (
+    !Number.isInteger(priority) ||
+    priority < 0 ||
+    priority > MAX_FEATURED_PRIORITY
+  )
+    throw new Error(
+      `Priority must be a whole number from 0 to ${MAX_FEATURED_PRIORITY}.`,
+    );
+
+  const patch = {
+    is_featured: true,
+    featured_from: from?.toISOString() ?? null,
+    featured_until: until?.toISOString() ?? null,
+    featured_priority: priority,
+  };
+  await backend.listings.update(id, patch);
+  await logAdminAction(adminId, "feature_listing", "listing", id, {
+    from: patch.featured_from,
+    until: patch.featured_until,
+    priority,
+  });
+}
+
+export async function unfeatureListing(adminId: string, id: string) {
+  await backend.listings.update(id, {
+    is_featured: false,
+    featured_from: null,
+    featured_until: null,
+    featured_priority: 0,
+  });
+  await logAdminAction(adminId, "unfeature_listing", "listing", id);
+}
+
+/**
+ * A seller's listings (all statuses), reports against them, and admin
+ * actions on them, their listings or those reports.
+ */
+export async function fetchSellerHistory(sellerId: string) {
+  const [{ rows: listings }, reports] = await Promise.all([
+    backend.listings.query({
+      sellerId,
+      order: { column: "created_at", ascending: false },
+    }),
+    backend.reports.list({ reportedUserId: sellerId }),
+  ]);
+  const actions = await backend.auditLog.list({
+    targetIds: [
+      sellerId,
+      ...listings.map((l) => l.id),
+      ...reports.map((r) => r.id),
+    ],
+    limit: 100,
+  });
+  return { listings, reports, actions };
+}
+
+export async function fetchAuditLog(limit = 200): Promise<AdminAction[]> {
+  return backend.auditLog.list({ limit });
+}
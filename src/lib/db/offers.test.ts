@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { backend } from "../backend";
+import { DEMO_SELLER_ID, DEMO_USER_ID } from "../backend/memory/seed";
+import { counterOffer, fetchThreadOffers, makeOffer } from "./offers";
+
+const CAMRY_ID = "10000000-0000-4000-8000-000000000001";
+
+const thread = {
+  listingId: CAMRY_ID,
+  buyerId: DEMO_USER_ID,
+  sellerId: DEMO_SELLER_ID,
+};
+
+const input = { amount: 17000, expiresInDays: 3, note: "" };
+
+describe("offers", () => {
+  it("posts a new offer to the thread", async () => {
+    const offer = await makeOffer(thread, DEMO_USER_ID, input);
+
+    const [message] = await backend.inquiries.thread(CAMRY_ID, DEMO_USER_ID);
+    expect(message.offer_id).toBe(offer.id);
+  });
+
+  it("drops the offer when the seller has blocked the buyer", async () => {
+    await backend.blocks.add(DEMO_SELLER_ID, DEMO_USER_ID);
+
+    await expect(makeOffer(thread, DEMO_USER_ID, input)).rejects.toThrow();
+    expect(await fetchThreadOffers(CAMRY_ID, DEMO_USER_ID)).toEqual([]);
+  });
+
+  it("leaves the original offer open when a counter can't be sent", async () => {
+    const offer = await makeOffer(thread, DEMO_USER_ID, input);
+    await backend.blocks.add(DEMO_USER_ID, DEMO_SELLER_ID);
+
+    await expect(
+      counterOffer(offer, DEMO_SELLER_ID, { ...input, amount: 18000 }),
+    ).rejects.toThrow();
+
+    const offers = await fetchThreadOffers(CAMRY_ID, DEMO_USER_ID);
+    expect(offers.map((o) => [o.id, o.status])).toEqual([
+      [offer.id, "pending"],
+    ]);
+  });
+});
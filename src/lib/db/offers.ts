@@ -0,0 +1,171 @@
+import { backend } from "../backend";
+import { sendInquiry } from "./inquiries";
+import type { Offer, OfferStatus } from "../../types/car";
+
+export const OFFER_EXPIRY_DAYS = [1, 2, 3, 7] as const;
+
+export type OfferInput = {
+  amount: number;
+  expiresInDays: number;
+  note: string;
+};
+
+type Participants = {
+  listingId: string;
+  buyerId: string;
+  sellerId: string;
+};
+
+// What the card shows; "expired" is derived, like listing expiry
+export type OfferState = OfferStatus | "expired";
+
+export function offerState(offer: Offer, now = new Date()): OfferState {
+  if (offer.status === "pending" && new Date(offer.expires_at) <= now)
+    return "expired";
+  return offer.status;
+}
+
+/**
+ * Whether `userId` may accept, decline or counter: the other party, while
+ * the offer is still open.
+ */
+export function canRespond(offer: Offer, userId: string) {
+  const participant = userId === offer.buyer_id || userId === offer.seller_id;
+  return (
+    participant &&
+    userId !== offer.created_by &&
+    offerState(offer) === "pending"
+  );
+}
+
+export function formatOfferAmount(amount: number) {
+  return `$${Number(amount).toLocaleString()}`;
+}
+
+function validate(input: OfferInput) {
+  if (!Number.isFinite(input.amount) || input.amount <= 0)
+    throw new Error("Enter an offer amount.");
+  if (!(input.expiresInDays > 0))
+    throw new Error("Choose how long the offer stays open.");
+}
+
+function expiresAt(days: number) {
+  return new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export async function fetchThreadOffers(
+  listingId: string,
+  buyerId: string,
+): Promise<Offer[]> {
+  return backend.offers.forThread(listingId, buyerId);
+}
+
+/**
+ * Creates the offer and posts it to the thread as a message carrying its id,
+ * so it shows up (and notifies) like any other message.
+ */
+export async function makeOffer(
+  thread: Participants,
+  userId: string,
+  input: OfferInput,
+  parentOfferId: string | null = null,
+) {
+  validate(input);
+  const note = input.note.trim();
+
+  const offer = await backend.offers.insert({
+    listing_id: thread.listingId,
+    buyer_id: thread.buyerId,
+    seller_id: thread.sellerId,
+    created_by: userId,
+    amount: input.amount,
+    note: note || null,
+    expires_at: expiresAt(input.expiresInDays),
+    parent_offer_id: parentOfferId,
+  });
+
+  const verb = parentOfferId ? "Countered with" : "Offered";
+  try {
+    await sendInquiry({
+      listing_id: thread.listingId,
+      buyer_id: thread.buyerId,
+      seller_id: thread.sellerId,
+      sender_id: userId,
+      offer_id: offer.id,
+      message: `${verb} ${formatOfferAmount(input.amount)}${note ? ` — ${note}` : ""}`,
+    });
+  } catch (err) {
+    // e.g. the other party has blocked us: don't leave an offer nobody sees
+    try {
+      await backend.offers.remove(offer.id);
+    } catch {
+      // ignore rollback errors
+    }
+    throw err;
+  }
+  return offer;
+}
+
+function threadOf(offer: Offer): Participants {
+  return {
+    listingId: offer.listing_id,
+    buyerId: offer.buyer_id,
+    sellerId: offer.seller_id,
+  };
+}
+
+async function postUpdate(offer: Offer, userId: string, message: string) {
+  await sendInquiry({
+    listing_id: offer.listing_id,
+    buyer_id: offer.buyer_id,
+    seller_id: offer.seller_id,
+    sender_id: userId,
+    message,
+  });
+}
+
+/**
+ * Accepts through the `accept_offer` function, which also moves the listing
+ * to pending, then tells the other party in the thread.
+ */
+export async function acceptOffer(offer: Offer, userId: string) {
+  if (!canRespond(offer, userId)) throw new Error("This offer is closed.");
+  await backend.rpc.acceptOffer({ p_offer_id: offer.id });
+  await postUpdate(
+    offer,
+    userId,
+    `Accepted the offer of ${formatOfferAmount(offer.amount)}. The listing is now pending.`,
+  );
+}
+
+export async function declineOffer(offer: Offer, userId: string) {
+  if (!canRespond(offer, userId)) throw new Error("This offer is closed.");
+  await backend.offers.update(offer.id, {
+    status: "declined",
+    responded_at: new Date().toISOString(),
+  });
+  await postUpdate(
+    offer,
+    userId,
+    `Declined the offer of ${formatOfferAmount(offer.amount)}.`,
+  );
+}
+
+/**
+ * Posts the new amount as a fresh offer, then closes `offer` as countered
+ * (in that order, so a counter that fails to send leaves `offer` open).
+ */
+export async function counterOffer(
+  offer: Offer,
+  userId: string,
+  input: OfferInput,
+) {
+  if (!canRespond(offer, userId)) throw new Error("This offer is closed.");
+  validate(input);
+  const counter = await makeOffer(threadOf(offer), userId, input, offer.id);
+  await backend.offers.update(offer.id, {
+    status: "countered",
+    responded_at: new Date().toISOString(),
+  });
+  return counter;
+}
@@ -0,0 +1,12 @@
+import { backend } from "../backend";
+import type { PriceHistoryEntry } from "../../types/car";
+
+/**
+ * Every recorded asking price for a listing, oldest first. The first entry is
+ * the price at listing time (for listings created after tracking began).
+ */
+export async function fetchPriceHistory(
+  listingId: string,
+): Promise<PriceHistoryEntry[]> {
+  return backend.priceHistory.list(listingId);
+}
@@ -0,0 +1,257 @@
+import { backend } from "../backend";
+import { newId } from "../ids";
+import { publicUrl, removeStorageObjects } from "./images";
+import type {
+  CarListing,
+  ContactMethod,
+  Profile,
+  ProfileField,
+  PublicProfile,
+} from "../../types/car";
+
+// Public bucket; Storage RLS lets users write only under `avatars/<user id>/`
+export const AVATARS_BUCKET = "avatars";
+
+export const MAX_AVATAR_BYTES = 2 * 1024 * 1024;
+export const MAX_BIO_LENGTH = 500;
+export const MAX_DISPLAY_NAME_LENGTH = 50;
+
+// Takes the place of a deleted account in the threads it leaves behind
+export const DELETED_USER_ID = "00000000-0000-0000-0000-000000000000";
+
+export const CONTACT_METHOD_LABELS: Record<ContactMethod, string> = {
+  message: "Messages on Car Market",
+  call: "Phone call",
+  text: "Text message",
+};
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  display_name: "Display name",
+  avatar: "Profile photo",
+  phone: "Phone",
+  contact_method: "Preferred contact",
+  default_zip: "ZIP code",
+};
+
+const AVATAR_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+};
+
+export const AVATAR_ACCEPT = Object.keys(AVATAR_TYPES).join(",");
+
+export type ResponseStats = {
+  threads: number;
+  replied: number;
+  medianReplyMinutes: number | null;
+};
+
+export type ProfileDetails = {
+  displayName: string;
+  phone: string;
+  contactMethod: ContactMethod;
+  defaultZip: string;
+  publicFields: ProfileField[];
+};
+
+export type SellerProfile = {
+  profile: PublicProfile | null;
+  listings: CarListing[];
+  stats: ResponseStats;
+};
+
+/** The signed-in user's own profile, private fields included. */
+export async function fetchProfile(userId: string): Promise<Profile | null> {
+  return backend.profiles.get(userId);
+}
+
+export async function fetchPublicProfile(
+  userId: string,
+): Promise<PublicProfile | null> {
+  return backend.profiles.getPublic(userId);
+}
+
+/**
+ * The name shown publicly; falls back to a short id for users who haven't
+ * set one.
+ */
+export function displayName(
+  profile: Pick<Profile, "display_name"> | null | undefined,
+  userId: string,
+) {
+  if (userId === DELETED_USER_ID) return "Deleted user";
+  return profile?.display_name?.trim() || `Member ${userId.slice(0, 6)}`;
+}
+
+export function avatarUrl(
+  profile: Pick<Profile, "avatar_path"> | null | undefined,
+) {
+  return profile?.avatar_path
+    ? publicUrl(AVATARS_BUCKET, profile.avatar_path)
+    : null;
+}
+
+/**
+ * e.g. "Replies to 90% of messages, usually within 2 hours"; null until the
+ * seller has enough conversations to say.
+ */
+export function responseRateLabel(stats: ResponseStats) {
+  if (stats.threads < 3) return null;
+  const rate = Math.round((stats.replied / stats.threads) * 100);
+  const m = stats.medianReplyMinutes;
+  const speed =
+    m === null
+      ? ""
+      : m < 60
+        ? ", usually within an hour"
+        : m < 24 * 60
+          ? `, usually within ${Math.ceil(m / 60)} hours`
+          : `, usually within ${Math.ceil(m / (24 * 60))} days`;
+  return `Replies to ${rate}% of messages${speed}`;
+}
+
+/**
+ * Everything the public seller page shows: profile, live listings and
+ * response stats.
+ */
+export async function fetchSellerProfile(
+  sellerId: string,
+): Promise<SellerProfile> {
+  const [profile, { rows: listings }, [stats]] = await Promise.all([
+    backend.profiles.getPublic(sellerId),
+    backend.listings.query({
+      sellerId,
+      activeOnly: true,
+      order: { column: "created_at", ascending: false },
+    }),
+    backend.rpc.sellerResponseStats({ p_seller_id: sellerId }),
+  ]);
+  return {
+    profile,
+    listings,
+    stats: {
+      threads: stats?.threads ?? 0,
+      replied: stats?.replied ?? 0,
+      medianReplyMinutes: stats?.median_reply_minutes ?? null,
+    },
+  };
+}
+
+/** US numbers only for now: "+1" followed by 10 digits, or null if blank. */
+export function normalizePhone(raw: string) {
+  const digits = raw.replace(/\D/g, "");
+  if (!digits) return null;
+  const national =
+    digits.length === 11 && digits.startsWith("1") ? digits.slice(1) : digits;
+  if (national.length !== 10)
+    throw new Error("Enter a 10-digit US phone number.");
+  return `+1${national}`;
+}
+
+/** "+12125550142" → "(212) 555-0142"; anything else is shown as stored. */
+export function formatPhone(phone: string) {
+  const m = /^\+1(\d{3})(\d{3})(\d{4})$/.exec(phone);
+  return m ? `(${m[1]}) ${m[2]}-${m[3]}` : phone;
+}
+
+export function detailsFromProfile(profile: Profile | null): ProfileDetails {
+  return {
+    displayName: profile?.display_name ?? "",
+    phone: profile?.phone ? formatPhone(profile.phone) : "",
+    contactMethod: profile?.contact_method ?? "message",
+    defaultZip: profile?.default_zip ?? "",
+    publicFields: profile?.public_fields ?? [],
+  };
+}
+
+export async function updateProfileDetails(
+  userId: string,
+  details: ProfileDetails,
+) {
+  const displayName = details.displayName.trim();
+  if (displayName && displayName.length < 2)
+    throw new Error("Display names need at least 2 characters.");
+  if (displayName.length > MAX_DISPLAY_NAME_LENGTH)
+    throw new Error(
+      `Keep your display name under ${MAX_DISPLAY_NAME_LENGTH} characters.`,
+    );
+
+  const phone = normalizePhone(details.phone);
+  if (details.contactMethod !== "message" && !phone)
+    throw new Error("Add a phone number to be contacted by call or text.");
+
+  const zip = details.defaultZip.trim();
+  if (zip && !/^\d{5}$/.test(zip)) throw new Error("ZIP codes are 5 digits.");
+
+  await backend.profiles.update(userId, {
+    display_name: displayName || null,
+    phone,
+    contact_method: details.contactMethod,
+    default_zip: zip || null,
+    public_fields: details.publicFields.filter(
+      (f) => f in PROFILE_FIELD_LABELS,
+    ),
+  });
+}
+
+/** Shows or hides one field without touching the others. */
+export async function setFieldPublic(
+  userId: string,
+  current: ProfileField[],
+  field: ProfileField,
+  visible: boolean,
+) {
+  const rest = current.filter((f) => f !== field);
+  await backend.profiles.update(userId, {
+    public_fields: visible ? [...rest, field] : rest,
+  });
+}
+
+export async function updateBio(userId: string, bio: string) {
+  const trimmed = bio.trim();
+  if (trimmed.length > MAX_BIO_LENGTH)
+    throw new Error(`Keep your bio under ${MAX_BIO_LENGTH} characters.`);
+  await backend.profiles.update(userId, { bio: trimmed || null });
+}
+
+async function discardAvatar(path: string) {
+  try {
+    await removeStorageObjects(AVATARS_BUCKET, [path]);
+  } catch {
+    // ignore cleanup errors; the profile no longer points at it
+  }
+}
+
+/**
+ * Uploads a new avatar and points the profile at it; the previous file is
+ * removed afterwards (best effort).
+ */
+export async function uploadAvatar(
+  userId: string,
+  file: File,
+  previousPath: string | null,
+) {
+  const ext = AVATAR_TYPES[file.type];
+  if (!ext) throw new Error("Avatars must be JPG, PNG or WebP images.");
+  if (file.size > MAX_AVATAR_BYTES)
+    throw new Error("Avatars must be 2 MB or smaller.");
+
+  const path = `avatars/${userId}/${newId()}.${ext}`;
+  await backend.storage.upload(AVATARS_BUCKET, path, file, {
+    cacheControl: "3600",
+    contentType: file.type,
+  });
+  try {
+    await backend.profiles.update(userId, { avatar_path: path });
+  } catch (err) {
+    await discardAvatar(path);
+    throw err;
+  }
+  if (previousPath) await discardAvatar(previousPath);
+}
+
+export async function removeAvatar(userId: string, path: string) {
+  await backend.profiles.update(userId, { avatar_path: null });
+  await discardAvatar(path);
+}
@@ -0,0 +1,77 @@
+import { backend } from "../backend";
+import { fetchThread } from "./inquiries";
+import type { Listing, Report, ReportReason } from "../../types/car";
+
+// One message as copied into `reports.thread_snapshot`
+export type ReportedMessage = {
+  id: string;
+  sender_id: string;
+  message: string;
+  created_at: string;
+  attachments: string[]; // storage paths
+};
+
+export const REPORT_REASONS: Record<ReportReason, string> = {
+  spam: "Spam or unwanted messages",
+  scam: "Scam or fraud attempt",
+  harassment: "Harassment or abuse",
+  other: "Something else",
+};
+
+/**
+ * Files a report for admin review. The thread is copied into the report so
+ * what was said survives edits, deletes and account removal.
+ */
+export async function reportConversation(args: {
+  reporterId: string;
+  reportedUserId: string;
+  listingId: string;
+  buyerId: string;
+  reason: ReportReason;
+  details: string;
+}): Promise<Report> {
+  const messages = await fetchThread(args.listingId, args.buyerId);
+
+  return backend.reports.insert({
+    reporter_id: args.reporterId,
+    reported_user_id: args.reportedUserId,
+    listing_id: args.listingId,
+    buyer_id: args.buyerId,
+    reason: args.reason,
+    details: args.details.trim() || null,
+    thread_snapshot: messages.map<ReportedMessage>((m) => ({
+      id: m.id,
+      sender_id: m.sender_id,
+      message: m.message,
+      created_at: m.created_at,
+      attachments: m.attachments.map((a) => a.path),
+    })),
+  });
+}
+
+/**
+ * The snapshotted thread of a conversation report; empty for listing reports.
+ */
+export function reportedMessages(report: Report): ReportedMessage[] {
+  return Array.isArray(report.thread_snapshot)
+    ? (report.thread_snapshot as ReportedMessage[])
+    : [];
+}
+
+/**
+ * Reports a listing itself (e.g. a scam ad); the seller is the reported user.
+ */
+export async function reportListing(args: {
+  reporterId: string;
+  listing: Pick<Listing, "id" | "seller_id">;
+  reason: ReportReason;
+  details: string;
+}): Promise<Report> {
+  return backend.reports.insert({
+    reporter_id: args.reporterId,
+    reported_user_id: args.listing.seller_id,
+    listing_id: args.listing.id,
+    reason: args.reason,
+    details: args.details.trim() || null,
+  });
+}
@@ -0,0 +1,37 @@
+import { backend } from "../backend";
+import type { SavedSearch } from "../../types/car";
+
+export async function fetchSavedSearches(
+  userId: string,
+): Promise<SavedSearch[]> {
+  return backend.savedSearches.list(userId);
+}
+
+/**
+ * Saves a Browse query string under `name`. It starts out "seen", so only
+ * listings posted afterwards count as new.
+ */
+export async function createSavedSearch(
+  userId: string,
+  name: string,
+  query: string,
+): Promise<SavedSearch> {
+  return backend.savedSearches.insert({ user_id: userId, name, query });
+}
+
+export async function renameSavedSearch(id: string, name: string) {
+  await backend.savedSearches.update(id, { name });
+}
+
+export async function deleteSavedSearch(id: string) {
+  await backend.savedSearches.remove(id);
+}
+
+/**
+ * Resets the "new since last visit" counter.
+ */
+export async function markSavedSearchSeen(id: string) {
+  await backend.savedSearches.update(id, {
+    last_seen_at: new Date().toISOString(),
+  });
+}
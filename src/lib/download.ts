@@ -0,0 +1,13 @@
+/**
+ * Saves `text` as a file named `filename` via a temporary object URL.
+ */
+export function downloadFile(filename: string, mime: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: mime }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
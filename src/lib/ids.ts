@@ -0,0 +1,6 @@
+/**
+ * Random v4 UUID, for row ids and storage object names.
+ */
+export function newId(): string {
+  return crypto.randomUUID();
+}
@@ -0,0 +1,127 @@
+/** Longest edge, in pixels, of listing photos after resizing. */
+export const MAX_IMAGE_DIMENSION = 2048;
+
+const WEBP_QUALITY = 0.82;
+
+export const LISTING_IMAGE_TYPES = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+]);
+
+/**
+ * A picked photo after resizing and re-encoding, plus what it started as.
+ */
+export type PreparedImage = {
+  file: File;
+  originalName: string;
+  originalSize: number;
+};
+
+type Decoded = {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  close: () => void;
+};
+
+async function decode(file: File): Promise<Decoded> {
+  if (typeof createImageBitmap === "function") {
+    try {
+      const bmp = await createImageBitmap(file, {
+        imageOrientation: "from-image",
+      });
+      return {
+        source: bmp,
+        width: bmp.width,
+        height: bmp.height,
+        close: () => bmp.close(),
+      };
+    } catch {
+      // fall through to <img>, which also honours EXIF orientation
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return {
+      source: img,
+      width: img.naturalWidth,
+      height: img.naturalHeight,
+      close: () => {},
+    };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, type, quality),
+  );
+}
+
+function renamed(name: string, ext: string) {
+  const i = name.lastIndexOf(".");
+  return `${i > 0 ? name.slice(0, i) : name || "photo"}.${ext}`;
+}
+
+/**
+ * Scales `file` down to MAX_IMAGE_DIMENSION, upright per its EXIF
+ * orientation, and re-encodes it as WebP (JPEG where the browser can't write
+ * WebP). Canvas output carries no metadata, so camera EXIF and GPS tags are
+ * dropped along the way.
+ */
+export async function prepareImage(file: File): Promise<PreparedImage> {
+  let decoded: Decoded;
+  try {
+    decoded = await decode(file);
+  } catch {
+    throw new Error(`${file.name}: couldn’t read this image.`);
+  }
+
+  try {
+    const scale = Math.min(
+      1,
+      MAX_IMAGE_DIMENSION / Math.max(decoded.width, decoded.height),
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(decoded.width * scale));
+    canvas.height = Math.max(1, Math.round(decoded.height * scale));
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error(`${file.name}: couldn’t process this image.`);
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(decoded.source, 0, 0, canvas.width, canvas.height);
+
+    // Browsers that can't encode WebP silently hand back a PNG instead.
+    let blob = await toBlob(canvas, "image/webp", WEBP_QUALITY);
+    if (blob?.type !== "image/webp")
+      blob = await toBlob(canvas, "image/jpeg", WEBP_QUALITY);
+    if (!blob) throw new Error(`${file.name}: couldn’t process this image.`);
+
+    const ext = blob.type === "image/webp" ? "webp" : "jpg";
+    return {
+      file: new File([blob], renamed(file.name, ext), {
+        type: blob.type,
+        lastModified: file.lastModified,
+      }),
+      originalName: file.name,
+      originalSize: file.size,
+    };
+  } finally {
+    decoded.close();
+  }
+}
+
+/**
+ * Percentage of the original size saved by prepareImage (negative when the
+ * re-encoded file came out larger).
+ */
+export function savedPercent(image: PreparedImage) {
+  if (!image.originalSize) return 0;
+  return Math.round((1 - image.file.size / image.originalSize) * 100);
+}
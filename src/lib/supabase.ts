@@ -1,25 +1,26 @@
 import { createClient } from "@supabase/supabase-js";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../types/database";
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL!;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY!;
-
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    persistSession: true,
-    autoRefreshToken: true,
-    detectSessionInUrl: true,
-    storage: localStorage,
-  },
-});
+let client: SupabaseClient<Database> | null = null;
 
 /**
- * Transforms a storage path/ID into a public URL
+ * The Supabase client, created on first use so the in-memory backend can run
+ * without VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY.
  */
-export const getCarImageUrl = (imageId: string | undefined) => {
-  if (!imageId) {
-    return "https://images.unsplash.com/photo-1494976388531-d1058494cdd8?w=800";
-  }
+export function getSupabase() {
+  if (client) return client;
+
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL!;
+  const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY!;
 
-  const { data } = supabase.storage.from("car-images").getPublicUrl(imageId);
-  return data.publicUrl;
-};
+  client = createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      persistSession: true,
+      autoRefreshToken: true,
+      detectSessionInUrl: true,
+      storage: localStorage,
+    },
+  });
+  return client;
+}
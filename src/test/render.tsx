@@ -0,0 +1,39 @@
+import { render } from "@testing-library/react";
+import type { ReactNode } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { AuthProvider } from "../features/auth/components/AuthProvider";
+
+type Options = {
+  path?: string; // route pattern the element is mounted at
+  url?: string; // where the test starts; defaults to `path`
+  routes?: Record<string, ReactNode>; // extra routes, e.g. a /login stand-in
+};
+
+/**
+ * Renders `element` with the app's providers: a fresh QueryClient (no
+ * retries), AuthProvider on the memory backend and an in-memory router.
+ */
+export function renderRoute(
+  element: ReactNode,
+  { path = "/", url = path, routes = {} }: Options = {},
+) {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <AuthProvider>
+        <MemoryRouter initialEntries={[url]}>
+          <Routes>
+            <Route path={path} element={element} />
+            {Object.entries(routes).map(([p, el]) => (
+              <Route key={p} path={p} element={el} />
+            ))}
+          </Routes>
+        </MemoryRouter>
+      </AuthProvider>
+    </QueryClientProvider>,
+  );
+}
@@ -0,0 +1,11 @@
+import { afterEach, beforeEach } from "vitest";
+import { cleanup } from "@testing-library/react";
+import { resetMemoryStore } from "../lib/backend/memory";
+
+// Every test starts signed out, on the seed data.
+beforeEach(() => {
+  localStorage.clear();
+  resetMemoryStore();
+});
+
+afterEach(() => cleanup());
@@ -1,15 +1,91 @@
-export interface CarListing {
-  id: string;
-  seller_id: string;
-  make: string;
-  model: string;
-  year: number;
-  price: number;
-  mileage: number;
-  fuel_type: string;
-  transmission: string;
-  description: string;
-  image_ids: string[]; // This matches our new ID-only architecture
-  is_active: boolean;
-  created_at: string;
-}
+import type { Enums, Tables, Views } from "./database";
+
+// App-facing names for database rows. Derived from the generated schema so a
+// column rename shows up as a compile error instead of a blank screen.
+
+export type Listing = Tables<"listings">;
+
+export type ListingStatus = Enums<"listing_status">;
+
+export type ListingImage = Pick<
+  Tables<"listing_images">,
+  "bucket" | "path" | "position"
+>;
+
+export type ListingImageRow = Tables<"listing_images">;
+
+// Listing as returned by `select("*, listing_images(bucket, path, position)")`
+export type CarListing = Listing & {
+  listing_images: ListingImage[];
+};
+
+export type Favorite = Tables<"favorites">;
+
+export type Inquiry = Tables<"inquiries">;
+
+// File sent with a message; lives in the private attachments bucket
+export type InquiryAttachmentRow = Tables<"inquiry_attachments">;
+
+// One row per (user, thread): when that participant last opened it
+export type ThreadRead = Tables<"thread_reads">;
+
+// A price proposal inside a thread; a counter is a new row pointing at its parent
+export type Offer = Tables<"offers">;
+
+export type OfferStatus = Enums<"offer_status">;
+
+// Times a seller can show the car; buyers request slots inside them
+export type AvailabilityWindow = Tables<"availability_windows">;
+
+// A test drive / viewing; `requested_by` is whoever proposed the current time
+export type Appointment = Tables<"appointments">;
+
+export type AppointmentStatus = Enums<"appointment_status">;
+
+// `blocker_id` no longer sees or receives messages from `blocked_id`
+export type UserBlock = Tables<"user_blocks">;
+
+// A reported conversation, with the messages as they were when reported
+export type Report = Tables<"reports">;
+
+export type ReportReason = Enums<"report_reason">;
+
+export type ReportStatus = Enums<"report_status">;
+
+// Audit log entry; one per admin action, never updated
+export type AdminAction = Tables<"admin_actions">;
+
+export type AdminActionType = Enums<"admin_action">;
+
+export type Profile = Tables<"profiles">;
+
+// The columns owners may write; the database refuses updates to the rest
+// (is_admin in particular), see the profiles section of the README
+export type ProfileEdit = Partial<
+  Pick<
+    Profile,
+    | "display_name"
+    | "bio"
+    | "avatar_path"
+    | "phone"
+    | "contact_method"
+    | "default_zip"
+    | "public_fields"
+  >
+>;
+
+// What other users may see: fields the owner keeps private come back null
+export type PublicProfile = Views<"public_profiles">;
+
+export type ContactMethod = Enums<"contact_method">;
+
+export type ProfileField = Enums<"profile_field">;
+
+export type PriceHistoryEntry = Tables<"price_history">;
+
+export type Brand = Tables<"brands">;
+
+export type CarModel = Tables<"models">;
+
+// `query` is a Browse URL query string (filters + sort, no page)
+export type SavedSearch = Tables<"saved_searches">;
@@ -0,0 +1,811 @@
+// src/types/database.ts
+//
+// Shape follows `supabase gen types typescript`. When the schema changes,
+// regenerate (or edit) this file first: the typed client in lib/supabase.ts
+// and every module in lib/db will then fail to compile where they drift.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[];
+
+export type Database = {
+  __InternalSupabase: {
+    PostgrestVersion: "13.0.5";
+  };
+  public: {
+    Tables: {
+      admin_actions: {
+        Row: {
+          action: Database["public"]["Enums"]["admin_action"];
+          admin_id: string;
+          created_at: string;
+          details: Json | null;
+          id: string;
+          target_id: string;
+          target_type: Database["public"]["Enums"]["admin_target"];
+        };
+        Insert: {
+          action: Database["public"]["Enums"]["admin_action"];
+          admin_id: string;
+          created_at?: string;
+          details?: Json | null;
+          id?: string;
+          target_id: string;
+          target_type: Database["public"]["Enums"]["admin_target"];
+        };
+        Update: {
+          action?: Database["public"]["Enums"]["admin_action"];
+          admin_id?: string;
+          created_at?: string;
+          details?: Json | null;
+          id?: string;
+          target_id?: string;
+          target_type?: Database["public"]["Enums"]["admin_target"];
+        };
+        Relationships: [];
+      };
+      appointments: {
+        Row: {
+          buyer_id: string;
+          created_at: string;
+          ends_at: string;
+          id: string;
+          listing_id: string;
+          note: string | null;
+          requested_by: string;
+          seller_id: string;
+          starts_at: string;
+          status: Database["public"]["Enums"]["appointment_status"];
+          updated_at: string;
+        };
+        Insert: {
+          buyer_id: string;
+          created_at?: string;
+          ends_at: string;
+          id?: string;
+          listing_id: string;
+          note?: string | null;
+          requested_by: string;
+          seller_id: string;
+          starts_at: string;
+          status?: Database["public"]["Enums"]["appointment_status"];
+          updated_at?: string;
+        };
+        Update: {
+          buyer_id?: string;
+          created_at?: string;
+          ends_at?: string;
+          id?: string;
+          listing_id?: string;
+          note?: string | null;
+          requested_by?: string;
+          seller_id?: string;
+          starts_at?: string;
+          status?: Database["public"]["Enums"]["appointment_status"];
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "appointments_listing_id_fkey";
+            columns: ["listing_id"];
+            isOneToOne: false;
+            referencedRelation: "listings";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      availability_windows: {
+        Row: {
+          created_at: string;
+          ends_at: string;
+          id: string;
+          listing_id: string;
+          seller_id: string;
+          starts_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          ends_at: string;
+          id?: string;
+          listing_id: string;
+          seller_id: string;
+          starts_at: string;
+        };
+        Update: {
+          created_at?: string;
+          ends_at?: string;
+          id?: string;
+          listing_id?: string;
+          seller_id?: string;
+          starts_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "availability_windows_listing_id_fkey";
+            columns: ["listing_id"];
+            isOneToOne: false;
+            referencedRelation: "listings";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      brands: {
+        Row: {
+          id: string;
+          name: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+        };
+        Update: {
+          id?: string;
+          name?: string;
+        };
+        Relationships: [];
+      };
+      favorites: {
+        Row: {
+          created_at: string;
+          id: string;
+          listing_id: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          listing_id: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          listing_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "favorites_listing_id_fkey";
+            columns: ["listing_id"];
+            isOneToOne: false;
+            referencedRelation: "listings";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      inquiries: {
+        Row: {
+          appointment_id: string | null;
+          buyer_id: string;
+          created_at: string;
+          id: string;
+          listing_id: string;
+          message: string;
+          offer_id: string | null;
+          seller_id: string;
+          sender_id: string;
+        };
+        Insert: {
+          appointment_id?: string | null;
+          buyer_id: string;
+          created_at?: string;
+          id?: string;
+          listing_id: string;
+          message: string;
+          offer_id?: string | null;
+          seller_id: string;
+          sender_id: string;
+        };
+        Update: {
+          appointment_id?: string | null;
+          buyer_id?: string;
+          created_at?: string;
+          id?: string;
+          listing_id?: string;
+          message?: string;
+          offer_id?: string | null;
+          seller_id?: string;
+          sender_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "inquiries_appointment_id_fkey";
+            columns: ["appointment_id"];
+            isOneToOne: false;
+            referencedRelation: "appointments";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "inquiries_listing_id_fkey";
+            columns: ["listing_id"];
+            isOneToOne: false;
+            referencedRelation: "listings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "inquiries_offer_id_fkey";
+            columns: ["offer_id"];
+            isOneToOne: false;
+            referencedRelation: "offers";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      inquiry_attachments: {
+        Row: {
+          bucket: string;
+          content_type: string;
+          created_at: string;
+          file_name: string;
+          id: string;
+          inquiry_id: string;
+          path: string;
+          size_bytes: number;
+        };
+        Insert: {
+          bucket: string;
+          content_type: string;
+          created_at?: string;
+          file_name: string;
+          id?: string;
+          inquiry_id: string;
+          path: string;
+          size_bytes: number;
+        };
+        Update: {
+          bucket?: string;
+          content_type?: string;
+          created_at?: string;
+          file_name?: string;
+          id?: string;
+          inquiry_id?: string;
+          path?: string;
+          size_bytes?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "inquiry_attachments_inquiry_id_fkey";
+            columns: ["inquiry_id"];
+            isOneToOne: false;
+            referencedRelation: "inquiries";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      listing_images: {
+        Row: {
+          bucket: string;
+          created_at: string;
+          id: string;
+          listing_id: string;
+          path: string;
+          position: number;
+        };
+        Insert: {
+          bucket: string;
+          created_at?: string;
+          id?: string;
+          listing_id: string;
+          path: string;
+          position: number;
+        };
+        Update: {
+          bucket?: string;
+          created_at?: string;
+          id?: string;
+          listing_id?: string;
+          path?: string;
+          position?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "listing_images_listing_id_fkey";
+            columns: ["listing_id"];
+            isOneToOne: false;
+            referencedRelation: "listings";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      listings: {
+        Row: {
+          created_at: string;
+          description: string | null;
+          expires_at: string;
+          featured_from: string | null;
+          featured_priority: number;
+          featured_until: string | null;
+          fuel_type: string;
+          hidden_at: string | null;
+          id: string;
+          is_featured: boolean;
+          lat: number | null;
+          lng: number | null;
+          make: string;
+          mileage: number;
+          model: string;
+          previous_price: number | null;
+          price: number;
+          price_dropped_at: string | null;
+          seller_id: string;
+          status: Database["public"]["Enums"]["listing_status"];
+          transmission: string;
+          year: number;
+          zip_code: string | null;
+        };
+        Insert: {
+          created_at?: string;
+          description?: string | null;
+          expires_at?: string;
+          featured_from?: string | null;
+          featured_priority?: number;
+          featured_until?: string | null;
+          fuel_type: string;
+          hidden_at?: string | null;
+          id?: string;
+          is_featured?: boolean;
+          lat?: number | null;
+          lng?: number | null;
+          make: string;
+          mileage: number;
+          model: string;
+          previous_price?: number | null;
+          price: number;
+          price_dropped_at?: string | null;
+          seller_id: string;
+          status?: Database["public"]["Enums"]["listing_status"];
+          transmission: string;
+          year: number;
+          zip_code?: string | null;
+        };
+        Update: {
+          created_at?: string;
+          description?: string | null;
+          expires_at?: string;
+          featured_from?: string | null;
+          featured_priority?: number;
+          featured_until?: string | null;
+          fuel_type?: string;
+          hidden_at?: string | null;
+          id?: string;
+          is_featured?: boolean;
+          lat?: number | null;
+          lng?: number | null;
+          make?: string;
+          mileage?: number;
+          model?: string;
+          previous_price?: number | null;
+          price?: number;
+          price_dropped_at?: string | null;
+          seller_id?: string;
+          status?: Database["public"]["Enums"]["listing_status"];
+          transmission?: string;
+          year?: number;
+          zip_code?: string | null;
+        };
+        Relationships: [];
+      };
+      models: {
+        Row: {
+          brand_id: string;
+          id: string;
+          name: string;
+        };
+        Insert: {
+          brand_id: string;
+          id?: string;
+          name: string;
+        };
+        Update: {
+          brand_id?: string;
+          id?: string;
+          name?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "models_brand_id_fkey";
+            columns: ["brand_id"];
+            isOneToOne: false;
+            referencedRelation: "brands";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      offers: {
+        Row: {
+          amount: number;
+          buyer_id: string;
+          created_at: string;
+          created_by: string;
+          expires_at: string;
+          id: string;
+          listing_id: string;
+          note: string | null;
+          parent_offer_id: string | null;
+          responded_at: string | null;
+          seller_id: string;
+          status: Database["public"]["Enums"]["offer_status"];
+        };
+        Insert: {
+          amount: number;
+          buyer_id: string;
+          created_at?: string;
+          created_by: string;
+          expires_at: string;
+          id?: string;
+          listing_id: string;
+          note?: string | null;
+          parent_offer_id?: string | null;
+          responded_at?: string | null;
+          seller_id: string;
+          status?: Database["public"]["Enums"]["offer_status"];
+        };
+        Update: {
+          amount?: number;
+          buyer_id?: string;
+          created_at?: string;
+          created_by?: string;
+          expires_at?: string;
+          id?: string;
+          listing_id?: string;
+          note?: string | null;
+          parent_offer_id?: string | null;
+          responded_at?: string | null;
+          seller_id?: string;
+          status?: Database["public"]["Enums"]["offer_status"];
+        };
+        Relationships: [
+          {
+            foreignKeyName: "offers_listing_id_fkey";
+            columns: ["listing_id"];
+            isOneToOne: false;
+            referencedRelation: "listings";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "offers_parent_offer_id_fkey";
+            columns: ["parent_offer_id"];
+            isOneToOne: false;
+            referencedRelation: "offers";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      price_history: {
+        Row: {
+          created_at: string;
+          id: string;
+          listing_id: string;
+          price: number;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          listing_id: string;
+          price: number;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          listing_id?: string;
+          price?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "price_history_listing_id_fkey";
+            columns: ["listing_id"];
+            isOneToOne: false;
+            referencedRelation: "listings";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          avatar_path: string | null;
+          bio: string | null;
+          contact_method: Database["public"]["Enums"]["contact_method"];
+          created_at: string;
+          default_zip: string | null;
+          display_name: string | null;
+          id: string;
+          is_admin: boolean;
+          phone: string | null;
+          public_fields: Database["public"]["Enums"]["profile_field"][];
+        };
+        Insert: {
+          avatar_path?: string | null;
+          bio?: string | null;
+          contact_method?: Database["public"]["Enums"]["contact_method"];
+          created_at?: string;
+          default_zip?: string | null;
+          display_name?: string | null;
+          id: string;
+          is_admin?: boolean;
+          phone?: string | null;
+          public_fields?: Database["public"]["Enums"]["profile_field"][];
+        };
+        Update: {
+          avatar_path?: string | null;
+          bio?: string | null;
+          contact_method?: Database["public"]["Enums"]["contact_method"];
+          created_at?: string;
+          default_zip?: string | null;
+          display_name?: string | null;
+          id?: string;
+          is_admin?: boolean;
+          phone?: string | null;
+          public_fields?: Database["public"]["Enums"]["profile_field"][];
+        };
+        Relationships: [];
+      };
+      reports: {
+        Row: {
+          buyer_id: string | null;
+          created_at: string;
+          details: string | null;
+          id: string;
+          listing_id: string;
+          reason: Database["public"]["Enums"]["report_reason"];
+          reported_user_id: string;
+          reporter_id: string;
+          resolved_at: string | null;
+          resolved_by: string | null;
+          status: Database["public"]["Enums"]["report_status"];
+          thread_snapshot: Json | null;
+        };
+        Insert: {
+          buyer_id?: string | null;
+          created_at?: string;
+          details?: string | null;
+          id?: string;
+          listing_id: string;
+          reason: Database["public"]["Enums"]["report_reason"];
+          reported_user_id: string;
+          reporter_id: string;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          status?: Database["public"]["Enums"]["report_status"];
+          thread_snapshot?: Json | null;
+        };
+        Update: {
+          buyer_id?: string | null;
+          created_at?: string;
+          details?: string | null;
+          id?: string;
+          listing_id?: string;
+          reason?: Database["public"]["Enums"]["report_reason"];
+          reported_user_id?: string;
+          reporter_id?: string;
+          resolved_at?: string | null;
+          resolved_by?: string | null;
+          status?: Database["public"]["Enums"]["report_status"];
+          thread_snapshot?: Json | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "reports_listing_id_fkey";
+            columns: ["listing_id"];
+            isOneToOne: false;
+            referencedRelation: "listings";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      saved_searches: {
+        Row: {
+          created_at: string;
+          id: string;
+          last_seen_at: string;
+          name: string;
+          query: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          last_seen_at?: string;
+          name: string;
+          query: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          last_seen_at?: string;
+          name?: string;
+          query?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      thread_reads: {
+        Row: {
+          buyer_id: string;
+          last_read_at: string;
+          listing_id: string;
+          user_id: string;
+        };
+        Insert: {
+          buyer_id: string;
+          last_read_at?: string;
+          listing_id: string;
+          user_id: string;
+        };
+        Update: {
+          buyer_id?: string;
+          last_read_at?: string;
+          listing_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "thread_reads_listing_id_fkey";
+            columns: ["listing_id"];
+            isOneToOne: false;
+            referencedRelation: "listings";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      user_blocks: {
+        Row: {
+          blocked_id: string;
+          blocker_id: string;
+          created_at: string;
+        };
+        Insert: {
+          blocked_id: string;
+          blocker_id: string;
+          created_at?: string;
+        };
+        Update: {
+          blocked_id?: string;
+          blocker_id?: string;
+          created_at?: string;
+        };
+        Relationships: [];
+      };
+    };
+    Views: {
+      public_profiles: {
+        Row: {
+          avatar_path: string | null;
+          bio: string | null;
+          contact_method: Database["public"]["Enums"]["contact_method"] | null;
+          created_at: string | null;
+          default_zip: string | null;
+          display_name: string | null;
+          id: string | null;
+          phone: string | null;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      accept_offer: {
+        Args: {
+          p_offer_id: string;
+        };
+        Returns: undefined;
+      };
+      delete_account: {
+        Args: Record<PropertyKey, never>;
+        Returns: undefined;
+      };
+      listing_booked_slots: {
+        Args: {
+          p_listing_id: string;
+        };
+        Returns: {
+          ends_at: string;
+          starts_at: string;
+        }[];
+      };
+      seller_response_stats: {
+        Args: {
+          p_seller_id: string;
+        };
+        Returns: {
+          median_reply_minutes: number | null;
+          replied: number;
+          threads: number;
+        }[];
+      };
+      search_listing_ids_within_radius: {
+        Args: {
+          p_created_after?: string | null;
+          p_fuel_types?: string[] | null;
+          p_lat: number;
+          p_lng: number;
+          p_make?: string | null;
+          p_max_mileage?: number | null;
+          p_max_price?: number | null;
+          p_max_year?: number | null;
+          p_min_price?: number | null;
+          p_min_year?: number | null;
+          p_models?: string[] | null;
+          p_page?: number;
+          p_page_size?: number;
+          p_price_dropped?: boolean | null;
+          p_radius_miles: number;
+          p_search?: string | null;
+          p_sort?: string;
+          p_transmissions?: string[] | null;
+        };
+        Returns: {
+          listing_id: string;
+          total_count: number;
+        }[];
+      };
+    };
+    Enums: {
+      admin_action:
+        | "hide_listing"
+        | "restore_listing"
+        | "delete_listing"
+        | "feature_listing"
+        | "unfeature_listing"
+        | "resolve_report"
+        | "dismiss_report"
+        | "create_brand"
+        | "rename_brand"
+        | "merge_brand"
+        | "delete_brand"
+        | "create_model"
+        | "rename_model"
+        | "merge_model"
+        | "delete_model"
+        | "normalize_listings";
+      admin_target: "listing" | "report" | "user" | "brand" | "model";
+      appointment_status: "requested" | "confirmed" | "cancelled";
+      contact_method: "message" | "call" | "text";
+      listing_status:
+        | "draft"
+        | "active"
+        | "pending"
+        | "sold"
+        | "expired"
+        | "removed";
+      offer_status: "pending" | "accepted" | "declined" | "countered";
+      profile_field:
+        | "display_name"
+        | "avatar"
+        | "phone"
+        | "contact_method"
+        | "default_zip";
+      report_reason: "spam" | "scam" | "harassment" | "other";
+      report_status: "open" | "resolved" | "dismissed";
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type PublicSchema = Database["public"];
+
+export type Tables<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Row"];
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"];
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"];
+
+export type Views<T extends keyof PublicSchema["Views"]> =
+  PublicSchema["Views"][T]["Row"];
+
+export type FunctionArgs<T extends keyof PublicSchema["Functions"]> =
+  PublicSchema["Functions"][T]["Args"];
+
+export type Enums<T extends keyof PublicSchema["Enums"]> =
+  PublicSchema["Enums"][T];
+
+export type FunctionReturns<T extends keyof PublicSchema["Functions"]> =
+  PublicSchema["Functions"][T]["Returns"];
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import tailwindcss from "@tailwindcss/vite"; // Add this
@@ -7,4 +8,10 @@ export default defineConfig({
     react(),
     tailwindcss(), // Add this
   ],
+  test: {
+    environment: "jsdom",
+    // component tests run against the in-memory backend, no network needed
+    env: { VITE_BACKEND: "memory" },
+    setupFiles: ["./src/test/setup.ts"],
+  },
 });